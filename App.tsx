@@ -2,7 +2,7 @@ import React, { useState, useEffect, useMemo, useRef } from 'react';
 import jsPDF from "jspdf";
 import autoTable from "jspdf-autotable";
 import JSZip from "jszip";
-import { safeLocalStorage } from './utils/storageHelper';
+import { workspaceStore } from './services/storageService';
 import {
    PlusIcon,
    TrashIcon,
@@ -51,25 +51,45 @@ import {
    PauseCircleIcon,
    StopCircleIcon,
    HomeIcon,
-   TableCellsIcon
+   TableCellsIcon,
+   ShieldCheckIcon,
+   ClipboardDocumentCheckIcon,
+   ScissorsIcon,
+   LinkIcon
 } from '@heroicons/react/24/outline';
-import { BillingRow, ItemType, BillingConfig, ParsingError, SlabSummary, ManifestHistory, ManifestMetadata, Folder } from './types';
-import { parseBillingDocument } from './services/geminiService';
-import { calculateRow, calculateParcelAmount, evaluateExpression } from './utils/billingLogic';
+import { BillingRow, ItemType, BillingConfig, ParsingError, SlabSummary, ManifestHistory, ManifestMetadata, Folder, ManifestOverride, FinalBillState, ParcelSlab, RateCard, WeightRoundingRule, ChunkSession, ChunkJob, ExtractionInfo, PrintedTotals, ManifestStatus, ReviewField, ValidationRules, ValidationRuleId, AwbFormat, AwbCheckDigit, ColumnMapping, InvoiceSettings } from './types';
+import { AiCallError } from './services/aiRetry';
+import { parseBillingDocument, setExtractionProvider, setFallbackProvider, getSessionRecordings, toExtractionInfo, ExtractionRecording, FileInput } from './services/extractionService';
+import { ocrProvider } from './services/ocrProvider';
+import { clearExtractionCache, getExtractionCacheStats, restoreExtractionCacheStats, setExtractionCacheLimit, DEFAULT_CACHE_LIMIT } from './services/extractionCache';
+import { validateRows, normalizeValidationRules, DEFAULT_VALIDATION_RULES, VALIDATION_RULE_LABELS, CHECK_DIGIT_LABELS } from './utils/validationRules';
+import { addToAwbIndex, buildAwbIndex, countBilledElsewhere, findDuplicateAwbs, AwbIndex } from './utils/awbIndex';
+import { checkTotals, describeMismatch } from './utils/totalsCheck';
+import { chunkProgress, countChunkJobs, nextChunkJobs, normalizeChunkSession, recoverChunkSession, updateChunkJob, MAX_CHUNK_CONCURRENCY } from './utils/chunkQueue';
+import { mergeManifests, reviewChunkManifest, splitManifest } from './utils/chunkReview';
+import { buildManifestWorkbook } from './utils/manifestWorkbook';
+import { buildInvoicePdf, normalizeInvoiceSettings, DEFAULT_INVOICE_SETTINGS } from './utils/invoicePdf';
+import { columnLetter, createXlsx, XlsxSheet } from './utils/xlsxWriter';
+import { applyColumnMapping, findHeaderRow, parseCsv, readSheetItems, readXlsx, toColumnMapping, SheetColumns, SheetRow, SHEET_FIELDS, SHEET_FIELD_LABELS } from './utils/spreadsheetImport';
+import { collectReviewIssues, countOpenFlags, resolveFlags, unmatchedNotes, withExtractionReview, REVIEW_FIELDS, REVIEW_FIELD_LABELS } from './utils/reviewLogic';
+import { geminiProvider } from './services/geminiService';
+import { createReplayProvider, parseRecordings } from './services/replayProvider';
+import { calculateRow, calculateParcelAmount, calculateSlabSummary, calculateManifestTotals, evaluateExpression, formatSlabLabel, normalizeConfig, describeTax, describeCharges, DEFAULT_TAX_CONFIG, DEFAULT_WEIGHT_ROUNDING, DEFAULT_SURCHARGE_CONFIG } from './utils/billingLogic';
+import { buildFinalBill, summarizeFinalBill, FinalBillLine } from './utils/finalBillLogic';
+import { resolveBillingConfig } from './utils/rateCardLogic';
+import { toIsoDate } from './utils/dateHelper';
+import { createWorkspaceBackup, readWorkspaceBackup, BackupManifest, WorkspaceSnapshot } from './utils/workspaceBackup';
+import { parseManifestDocument, parseFolderInfo, formatSchemaIssues, migrateDocument, withSchemaVersion, ManifestDocument, SCHEMA_VERSION } from './utils/schema';
 
 const DEFAULT_CONFIG: BillingConfig = {
-   parcelSlab1Rate: 3,
-   parcelSlab2Rate: 2,
-   parcelSlab3Rate: 1,
+   parcelSlabs: [
+      { upTo: 10, rate: 3 },
+      { upTo: 110, rate: 2 },
+      { upTo: null, rate: 1 },
+   ],
    documentRate: 5,
 };
 
-const STORAGE_KEY = 'smart_billing_manifest_history_v2';
-const RECYCLE_BIN_KEY = 'smart_billing_recycle_bin_v2';
-const FOLDERS_KEY = 'smart_billing_folders_v2';
-const GLOBAL_CONFIG_KEY = 'smart_billing_global_config';
-const PREFS_KEY = 'smart_billing_user_prefs';
-const CHUNK_SESSION_KEY = 'smart_billing_chunk_session';
 
 const themeClasses = {
    light: 'bg-slate-50 text-slate-900',
@@ -77,17 +97,6 @@ const themeClasses = {
    reading: 'bg-[#f8f1e3] text-slate-800'
 };
 
-// Expanded overrides for full editing capability
-interface ManifestOverride {
-   date?: string;
-   no?: string;
-   pCount?: number;
-   PCount?: number;
-   dCount?: number;
-   pWeight?: number;
-   PDetail?: string; // Stores the string like "12+15+30"
-}
-
 // Bulk Import Types
 interface BulkImportStatus {
    fileName: string;
@@ -95,18 +104,10 @@ interface BulkImportStatus {
    message: string;
 }
 
-// Chunk Session Types
-interface ChunkSession {
-   id: string;
-   folderId: string;
-   folderName: string;
-   aiMode: 'default' | 'hybrid' | 'auto';
-   pendingChunks: Array<{ id: string, images: { data: string, mimeType: string }[] }>;
-   currentChunk: { data: string, mimeType: string }[];
-   totalManifestsCaptured: number;
-   processedCount: number;
-   isProcessing: boolean;
-   statusLog: string;
+interface ImportConflict {
+   existing: ManifestHistory;
+   newCandidate: ManifestHistory;
+   source?: 'backup'; // Absent = single file import, which opens the result in the editor
 }
 
 const App: React.FC = () => {
@@ -118,6 +119,8 @@ const App: React.FC = () => {
 
    // App History & Folders Data
    const [history, setHistory] = useState<ManifestHistory[]>([]);
+   const historyRef = useRef(history); // Read by queue jobs that finish between renders
+   historyRef.current = history;
    const [recycleBin, setRecycleBin] = useState<ManifestHistory[]>([]);
    const [folders, setFolders] = useState<Folder[]>([]);
 
@@ -130,11 +133,18 @@ const App: React.FC = () => {
    // Global Settings State
    const [globalConfig, setGlobalConfig] = useState<BillingConfig>(DEFAULT_CONFIG);
    const [isGlobalSettingsOpen, setIsGlobalSettingsOpen] = useState(false);
+
+   // Rate Card Registry State
+   const [rateCards, setRateCards] = useState<RateCard[]>([]);
+   const [appliedRateCard, setAppliedRateCard] = useState<{ id: string, name: string } | null>(null);
+   const [isRateCardsOpen, setIsRateCardsOpen] = useState(false);
+   const [editingRateCard, setEditingRateCard] = useState<RateCard | null>(null);
    const [appTheme, setAppTheme] = useState<'light' | 'dark' | 'reading'>('light');
    const [appScale, setAppScale] = useState(100);
 
    // Final Bill Edit State
    const [isFinalBillEditing, setIsFinalBillEditing] = useState(false);
+   const [finalCellDrafts, setFinalCellDrafts] = useState<Record<string, string>>({}); // Numeric cells being typed, keyed manifestId:field
    const [finalBillOverrides, setFinalBillOverrides] = useState<Record<string, ManifestOverride>>({});
    const [reportMeta, setReportMeta] = useState({ month: '', agency: '', area: '' });
 
@@ -145,7 +155,11 @@ const App: React.FC = () => {
    const [isUploading, setIsUploading] = useState(false);
    const [loadingMessage, setLoadingMessage] = useState("Processing...");
    const [isUploadModalOpen, setIsUploadModalOpen] = useState(false);
-   const [uploadTab, setUploadTab] = useState<'doc' | 'img' | 'json'>('doc');
+   const [uploadTab, setUploadTab] = useState<'doc' | 'img' | 'json' | 'sheet'>('doc');
+   // Spreadsheet waiting for its columns to be confirmed, and the saved per-client mappings
+   const [sheetImport, setSheetImport] = useState<{ fileName: string, rows: SheetRow[], headerRow: number, columns: SheetColumns, meta: ManifestMetadata } | null>(null);
+   const [columnMappings, setColumnMappings] = useState<ColumnMapping[]>([]);
+   const [invoiceSettings, setInvoiceSettings] = useState<InvoiceSettings>(DEFAULT_INVOICE_SETTINGS);
 
    // Folder Export UI
    const [isFolderExportOpen, setIsFolderExportOpen] = useState(false);
@@ -163,20 +177,55 @@ const App: React.FC = () => {
    // Chunk/Monthly Session UI
    const [isChunkSessionOpen, setIsChunkSessionOpen] = useState(false);
    const [chunkSession, setChunkSession] = useState<ChunkSession | null>(null);
+   // Source of truth for the queue runner, which outlives the render that started it
+   const chunkSessionRef = useRef<ChunkSession | null>(null);
+   const chunkJobsInFlight = useRef(new Map<string, AbortController>());
+   const [chunkConcurrency, setChunkConcurrency] = useState(1);
    const [chunkAiMode, setChunkAiMode] = useState<'default' | 'hybrid' | 'auto'>('default');
+   // Session review screen: scanned pages by sourcePagesId, and the job whose split point is being picked
+   const [isChunkReviewOpen, setIsChunkReviewOpen] = useState(false);
+   const [chunkReviewPages, setChunkReviewPages] = useState<Record<string, FileInput[]>>({});
+   const [chunkSplit, setChunkSplit] = useState<{ jobId: string, at: number } | null>(null);
 
    // Processing Mode State (Single File)
    const [processingMode, setProcessingMode] = useState<'default' | 'hybrid'>('default');
 
+   // Extraction provider: live Gemini, or offline replay of recorded responses
+   const [extractionProviderId, setExtractionProviderId] = useState<'gemini' | 'replay'>('gemini');
+   const [replayRecordings, setReplayRecordings] = useState<ExtractionRecording[]>([]);
+   const [ocrFallbackEnabled, setOcrFallbackEnabled] = useState(true);
+   const [extractionCacheLimit, setExtractionCacheLimitPref] = useState(DEFAULT_CACHE_LIMIT);
+   const [cacheStats, setCacheStats] = useState<{ hits: number, misses: number, entries: number } | null>(null);
+   // How the open manifest's rows were extracted (null for manual entry)
+   const [activeExtraction, setActiveExtraction] = useState<ExtractionInfo | null>(null);
+   const [printedTotals, setPrintedTotals] = useState<PrintedTotals | null>(null); // Footer totals of the open manifest
+   const [manifestStatus, setManifestStatus] = useState<ManifestStatus>('draft');
+   // Position in the open review issues while "review next issue" is active
+   const [reviewIndex, setReviewIndex] = useState<number | null>(null);
+   // Scanned pages of the open manifest, shown beside the table
+   const [activeSourcePagesId, setActiveSourcePagesId] = useState<string | null>(null);
+   const [sourcePages, setSourcePages] = useState<FileInput[] | null>(null);
+   const [isSourceViewerOpen, setIsSourceViewerOpen] = useState(true);
+   const [sourceZoom, setSourceZoom] = useState(1);
+   const [selectedRowId, setSelectedRowId] = useState<string | null>(null);
+   const [validationRules, setValidationRules] = useState<ValidationRules>(DEFAULT_VALIDATION_RULES);
+   const [showAllFindings, setShowAllFindings] = useState(false);
+
    const [errors, setErrors] = useState<ParsingError[]>([]);
    const [status, setStatus] = useState<{ type: 'success' | 'info' | 'error', message: string } | null>(null);
 
-   // Import Conflict State
-   const [importConflict, setImportConflict] = useState<{ existing: ManifestHistory, newCandidate: ManifestHistory } | null>(null);
+   // Import Conflict State (backup merges queue one conflict per duplicate manifest number)
+   const [importConflict, setImportConflict] = useState<ImportConflict | null>(null);
+   const [conflictQueue, setConflictQueue] = useState<ImportConflict[]>([]);
+
+   // Workspace Backup UI
+   const [pendingRestore, setPendingRestore] = useState<{ fileName: string, manifest: BackupManifest, snapshot: WorkspaceSnapshot, skipped: string[] } | null>(null);
 
    // Folder UI State
    const [isCreateFolderOpen, setIsCreateFolderOpen] = useState(false);
    const [newFolderName, setNewFolderName] = useState('');
+   const [newFolderClient, setNewFolderClient] = useState('');
+   const [newFolderAddress, setNewFolderAddress] = useState('');
    const [editingFolderId, setEditingFolderId] = useState<string | null>(null);
    const [manifestToMoveId, setManifestToMoveId] = useState<string | null>(null);
 
@@ -190,6 +239,8 @@ const App: React.FC = () => {
 
    const exportRef = useRef<HTMLDivElement>(null);
    const finalExportRef = useRef<HTMLDivElement>(null);
+   // Aborts the AI call in flight behind the upload overlay
+   const extractionAbortRef = useRef<AbortController | null>(null);
 
    // Close dropdowns on click outside
    useEffect(() => {
@@ -205,53 +256,118 @@ const App: React.FC = () => {
       return () => document.removeEventListener("mousedown", handleClickOutside);
    }, []);
 
-   // Load Data from LocalStorage
-   useEffect(() => {
+   // Surface failed writes instead of silently losing data
+   useEffect(() => workspaceStore.onError(failure => setStatus({ type: 'error', message: failure.message })), []);
 
-      const savedHistory = safeLocalStorage.getItem(STORAGE_KEY);
-      const savedRecycleBin = safeLocalStorage.getItem(RECYCLE_BIN_KEY);
-      const savedFolders = safeLocalStorage.getItem(FOLDERS_KEY);
-      const savedGlobalConfig = safeLocalStorage.getItem(GLOBAL_CONFIG_KEY);
-      const savedPrefs = safeLocalStorage.getItem(PREFS_KEY);
-      const savedChunkSession = safeLocalStorage.getItem(CHUNK_SESSION_KEY);
+   // Success/info notices fade out; errors stay until dismissed
+   useEffect(() => {
+      if (!status || status.type === 'error') return;
+      const timer = setTimeout(() => setStatus(null), 4000);
+      return () => clearTimeout(timer);
+   }, [status]);
 
-      if (savedHistory) {
-         try { setHistory(JSON.parse(savedHistory)); } catch (e) { console.error("Failed to load history", e); }
-      }
-      if (savedRecycleBin) {
-         try { setRecycleBin(JSON.parse(savedRecycleBin)); } catch (e) { console.error("Failed to load recycle bin", e); }
-      }
-      if (savedFolders) {
-         try { setFolders(JSON.parse(savedFolders)); } catch (e) { console.error("Failed to load folders", e); }
-      }
-      if (savedGlobalConfig) {
-         try { setGlobalConfig(JSON.parse(savedGlobalConfig)); } catch (e) { console.error("Failed to load global config", e); }
-      }
-      if (savedPrefs) {
-         try {
-            const prefs = JSON.parse(savedPrefs);
-            if (prefs.theme) setAppTheme(prefs.theme);
-            if (prefs.scale) setAppScale(prefs.scale);
-         } catch (e) { console.error("Failed to load prefs", e); }
-      }
-      // Resume Session Logic
-      if (savedChunkSession) {
-         try {
-            const session = JSON.parse(savedChunkSession);
+   // Load Data from IndexedDB (migrates the old localStorage keys on first run)
+   useEffect(() => {
+      workspaceStore.load().then(saved => {
+         if (saved.history) setHistory(saved.history.map(h => migrateDocument(h)));
+         if (saved.recycleBin) setRecycleBin(saved.recycleBin.map(h => migrateDocument(h)));
+         if (saved.folders) setFolders(saved.folders);
+         if (saved.globalConfig) setGlobalConfig(normalizeConfig(saved.globalConfig));
+         if (saved.rateCards) setRateCards(saved.rateCards.map(c => ({ ...c, config: normalizeConfig(c.config) })));
+         if (saved.prefs) {
+            if (saved.prefs.theme) setAppTheme(saved.prefs.theme as any);
+            if (saved.prefs.scale) setAppScale(saved.prefs.scale);
+            if (saved.prefs.extractionProvider) setExtractionProviderId(saved.prefs.extractionProvider);
+            if (saved.prefs.ocrFallback === false) setOcrFallbackEnabled(false);
+            if (typeof saved.prefs.extractionCacheLimit === 'number') setExtractionCacheLimitPref(saved.prefs.extractionCacheLimit);
+         }
+         restoreExtractionCacheStats(saved.extractionCacheStats);
+         if (saved.extractionRecordings) setReplayRecordings(saved.extractionRecordings);
+         if (saved.validationRules) setValidationRules(normalizeValidationRules(saved.validationRules));
+         if (saved.columnMappings) setColumnMappings(saved.columnMappings);
+         if (saved.invoiceSettings) setInvoiceSettings(normalizeInvoiceSettings(saved.invoiceSettings));
+         const finalBill: Partial<FinalBillState> | undefined = saved.finalBill;
+         if (finalBill) {
+            if (finalBill.selectedFolderIds) setSelectedFinalFolderIds(finalBill.selectedFolderIds);
+            if (finalBill.reportMeta) setReportMeta(finalBill.reportMeta);
+            if (finalBill.overrides) setFinalBillOverrides(finalBill.overrides);
+            if (finalBill.fontSizes) setFontSizes(finalBill.fontSizes);
+         }
+         // Resume Session Logic: if we found a session, open the modal immediately
+         if (saved.chunkSession) {
+            // Jobs cut off mid-flight by the reload are finished or re-queued
+            const savedIds = new Set((saved.history || []).map(h => h.id));
+            const session = recoverChunkSession(normalizeChunkSession(saved.chunkSession), savedIds);
+            chunkSessionRef.current = session;
             setChunkSession(session);
-            // If we found a session, open the modal immediately
             setIsChunkSessionOpen(true);
-         } catch (e) { console.error("Failed to load active chunk session", e); }
-      }
+         }
+      });
    }, []);
 
    const saveGlobalSettings = (newConfig: BillingConfig, newTheme: string, newScale: number) => {
+      newConfig = normalizeConfig(newConfig);
       setGlobalConfig(newConfig);
       setAppTheme(newTheme as any);
       setAppScale(newScale);
       setAppScale(newScale);
-      safeLocalStorage.setItem(GLOBAL_CONFIG_KEY, JSON.stringify(newConfig));
-      safeLocalStorage.setItem(PREFS_KEY, JSON.stringify({ theme: newTheme, scale: newScale }));
+      workspaceStore.save('globalConfig', newConfig);
+      workspaceStore.save('prefs', { theme: newTheme, scale: newScale, extractionProvider: extractionProviderId, ocrFallback: ocrFallbackEnabled, extractionCacheLimit });
+   };
+
+   useEffect(() => {
+      setExtractionProvider(extractionProviderId === 'replay' ? createReplayProvider(replayRecordings) : geminiProvider);
+   }, [extractionProviderId, replayRecordings]);
+
+   useEffect(() => {
+      setFallbackProvider(ocrFallbackEnabled ? ocrProvider : null);
+   }, [ocrFallbackEnabled]);
+
+   useEffect(() => {
+      setExtractionCacheLimit(extractionCacheLimit);
+   }, [extractionCacheLimit]);
+
+   // Cache statistics are read fresh each time the settings open
+   useEffect(() => {
+      if (isGlobalSettingsOpen) getExtractionCacheStats().then(setCacheStats);
+   }, [isGlobalSettingsOpen]);
+
+   const handleClearExtractionCache = async () => {
+      if (!confirm('Clear all cached extraction results? The next import of each file will call the AI again.')) return;
+      if (await clearExtractionCache()) {
+         setCacheStats(await getExtractionCacheStats());
+         setStatus({ type: 'success', message: 'Extraction cache cleared.' });
+      }
+   };
+
+   const handleRecordingsFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+      try {
+         const recordings = parseRecordings(JSON.parse(await file.text()));
+         setReplayRecordings(recordings);
+         workspaceStore.save('extractionRecordings', recordings);
+         setStatus({ type: 'success', message: `Loaded ${recordings.length} recorded responses.` });
+      } catch (err) {
+         setStatus({ type: 'error', message: `Invalid recordings file: ${(err as Error).message}` });
+      }
+   };
+
+   const handleDownloadRecordings = () => {
+      const recordings = getSessionRecordings();
+      if (recordings.length === 0) {
+         setStatus({ type: 'info', message: 'No live extractions recorded in this session yet.' });
+         return;
+      }
+      const url = URL.createObjectURL(new Blob([JSON.stringify({ recordings }, null, 2)], { type: 'application/json' }));
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `extraction_recordings_${toIsoDate(new Date())}.json`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
    };
 
    // Recalculate everything when config changes (only when in billing mode)
@@ -261,32 +377,63 @@ const App: React.FC = () => {
       }
    }, [config, view]);
 
-   const totalAmount = useMemo(() => rows.reduce((sum, row) => sum + row.amount, 0), [rows]);
+   const manifestTotals = useMemo(() => calculateManifestTotals(rows, config), [rows, config]);
+   const reviewIssues = useMemo(() => collectReviewIssues(rows), [rows]);
+   // Local validation reruns on every row edit, including right after extraction
+   const awbIndex = useMemo(() => buildAwbIndex(history), [history]);
+   const totalsCheck = useMemo(() => checkTotals(printedTotals || undefined, rows), [printedTotals, rows]);
+   const validationFindings = useMemo(() => validateRows(rows, validationRules, awbIndex, activeManifestId), [rows, validationRules, awbIndex, activeManifestId]);
+   const findingsByCell = useMemo(() => {
+      const byCell = new Map<string, string[]>();
+      validationFindings.forEach(f => {
+         const key = `${f.rowId}:${f.field}`;
+         byCell.set(key, [...(byCell.get(key) || []), f.message]);
+      });
+      return byCell;
+   }, [validationFindings]);
+   const currentReviewIssue = reviewIndex !== null ? reviewIssues[Math.min(reviewIndex, reviewIssues.length - 1)] : undefined;
+   const reviewCellId = (rowId: string, field: ReviewField) => `review-${rowId}-${field}`;
+
+   // Bring the cell under review into view
+   useEffect(() => {
+      if (!currentReviewIssue) return;
+      const cell = document.getElementById(reviewCellId(currentReviewIssue.rowId, currentReviewIssue.field));
+      cell?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      cell?.focus({ preventScroll: true });
+   }, [currentReviewIssue?.rowId, currentReviewIssue?.field]);
+
+   useEffect(() => {
+      setSourcePages(null);
+      if (!activeSourcePagesId) return;
+      let cancelled = false;
+      workspaceStore.loadSourcePages(activeSourcePagesId).then(pages => { if (!cancelled) setSourcePages(pages || []); });
+      return () => { cancelled = true; };
+   }, [activeSourcePagesId]);
+
+   // Scroll the source pane to the region (or at least the page) the selected row was read from
+   useEffect(() => {
+      const source = rows.find(r => r.id === selectedRowId)?.source;
+      if (!source || !sourcePages) return;
+      const target = document.getElementById(`source-region-${selectedRowId}`) || document.getElementById(`source-page-${source.page}`);
+      target?.scrollIntoView({ behavior: 'smooth', block: 'center', inline: 'center' });
+   }, [selectedRowId, sourcePages, sourceZoom]);
+   const totalAmount = manifestTotals.totalAmount;
+   const manifestSurchargeLines = describeCharges(manifestTotals.charges, config.surcharges).filter(line => line.key !== 'freight');
 
    // Derived state for active session summary
-   const summary = useMemo(() => {
-      const s = {
-         slab1Weight: 0, slab2Weight: 0, slab3Weight: 0,
-         parcelCountS1: 0, parcelCountS2Plus: 0,
-         heavyParcelWeightsList: [] as number[],
-         lightParcelsTotalWeight: 0, heavyParcelsTotalWeight: 0,
-         docCount: 0, docTotal: 0, totalBillableWeight: 0,
-         parcelCount: 0
-      };
-      rows.forEach(row => {
-         if (row.type === ItemType.DOCUMENT) { s.docCount++; s.docTotal += row.amount; }
-         else {
-            s.parcelCount++;
-            const rounded = Math.ceil(row.weight);
-            s.totalBillableWeight += rounded;
-            const calc = calculateParcelAmount(row.weight, config);
-            s.slab1Weight += calc.s1w; s.slab2Weight += calc.s2w; s.slab3Weight += calc.s3w;
-            if (rounded <= 10) { s.parcelCountS1++; s.lightParcelsTotalWeight += rounded; }
-            else { s.parcelCountS2Plus++; s.heavyParcelsTotalWeight += rounded; s.heavyParcelWeightsList.push(rounded); }
-         }
-      });
-      return s;
-   }, [rows, config]);
+   const summary: SlabSummary = useMemo(() => calculateSlabSummary(rows, config), [rows, config]);
+
+   // Consolidated statement for the Final Bill tab
+   const finalBillLines = useMemo(
+      () => buildFinalBill(history, selectedFinalFolderIds, finalBillOverrides),
+      [history, selectedFinalFolderIds, finalBillOverrides]
+   );
+   const finalBillDuplicates = useMemo(
+      () => findDuplicateAwbs(history.filter(h => h.folderId && selectedFinalFolderIds.includes(h.folderId))),
+      [history, selectedFinalFolderIds]
+   );
+   const finalBillTotals = useMemo(() => summarizeFinalBill(finalBillLines), [finalBillLines]);
+   const finalSurchargeLines = describeCharges(finalBillTotals.charges).filter(line => line.key !== 'freight');
 
    const filteredHistory = useMemo(() => {
       if (currentFolderId) return history.filter(h => h.folderId === currentFolderId);
@@ -323,31 +470,68 @@ const App: React.FC = () => {
    const saveHistory = (newHistory: ManifestHistory[]) => {
       setHistory(newHistory);
       setHistory(newHistory);
-      safeLocalStorage.setItem(STORAGE_KEY, JSON.stringify(newHistory));
+      workspaceStore.save('history', newHistory);
    };
 
    const saveRecycleBin = (newBin: ManifestHistory[]) => {
       setRecycleBin(newBin);
       setRecycleBin(newBin);
-      safeLocalStorage.setItem(RECYCLE_BIN_KEY, JSON.stringify(newBin));
+      workspaceStore.save('recycleBin', newBin);
    };
 
    const saveFolders = (newFolders: Folder[]) => {
       setFolders(newFolders);
       setFolders(newFolders);
-      safeLocalStorage.setItem(FOLDERS_KEY, JSON.stringify(newFolders));
+      workspaceStore.save('folders', newFolders);
+   };
+
+   // Final Bill selections, header and cell overrides persist together as one report
+   const saveFinalBillState = (patch: Partial<FinalBillState>) => {
+      const next: FinalBillState = {
+         selectedFolderIds: selectedFinalFolderIds,
+         reportMeta,
+         overrides: finalBillOverrides,
+         fontSizes,
+         ...patch
+      };
+      setSelectedFinalFolderIds(next.selectedFolderIds);
+      setReportMeta(next.reportMeta);
+      setFinalBillOverrides(next.overrides);
+      setFontSizes(next.fontSizes);
+      workspaceStore.save('finalBill', next);
+   };
+
+   const saveValidationRules = (rules: ValidationRules) => {
+      setValidationRules(rules);
+      workspaceStore.save('validationRules', rules);
+   };
+
+   const saveColumnMappings = (mappings: ColumnMapping[]) => {
+      setColumnMappings(mappings);
+      workspaceStore.save('columnMappings', mappings);
    };
 
+   const saveInvoiceSettings = (updates: Partial<InvoiceSettings>) => {
+      const next = { ...invoiceSettings, ...updates };
+      setInvoiceSettings(next);
+      workspaceStore.save('invoiceSettings', next);
+   };
+
+   const saveRateCards = (newCards: RateCard[]) => {
+      setRateCards(newCards);
+      workspaceStore.save('rateCards', newCards);
+   };
+
+   // Applied to the ref immediately so async jobs always build on the latest session
    const saveChunkSession = (sessionOrUpdater: ChunkSession | null | ((prev: ChunkSession | null) => ChunkSession | null)) => {
-      setChunkSession(prev => {
-         const newSession = typeof sessionOrUpdater === 'function' ? sessionOrUpdater(prev) : sessionOrUpdater;
-         if (newSession) {
-            safeLocalStorage.setItem(CHUNK_SESSION_KEY, JSON.stringify(newSession));
-         } else {
-            safeLocalStorage.removeItem(CHUNK_SESSION_KEY);
-         }
-         return newSession;
-      });
+      const newSession = typeof sessionOrUpdater === 'function' ? sessionOrUpdater(chunkSessionRef.current) : sessionOrUpdater;
+      chunkSessionRef.current = newSession;
+      setChunkSession(newSession);
+      if (newSession) {
+         workspaceStore.save('chunkSession', newSession);
+      } else {
+         workspaceStore.remove('chunkSession');
+      }
    };
 
    // Recycle Bin Actions
@@ -378,31 +562,88 @@ const App: React.FC = () => {
       setStatus({ type: 'success', message: 'Manifest Restored' });
    };
 
+   // Drops stored scans no manifest, pending import or queued re-run refers to any more
+   const releaseSourcePages = (keptHistory: ManifestHistory[], keptBin: ManifestHistory[], pendingConflicts = [importConflict, ...conflictQueue]) => {
+      const pending = pendingConflicts.filter(Boolean).map(c => c.newCandidate);
+      const queued = chunkSessionRef.current?.jobs || [];
+      const keep = new Set([...keptHistory, ...keptBin, ...pending, ...queued].map(h => h.sourcePagesId).filter(Boolean));
+      workspaceStore.pruneSourcePages(keep);
+   };
+
    const permanentDeleteManifest = (id: string) => {
       if (confirm("Permanently delete this manifest? This cannot be undone.")) {
          const newBin = recycleBin.filter(h => h.id !== id);
          saveRecycleBin(newBin);
+         releaseSourcePages(history, newBin);
       }
    };
 
    const emptyRecycleBin = () => {
       if (confirm("Empty Recycle Bin? All items will be lost forever.")) {
          saveRecycleBin([]);
+         releaseSourcePages(history, []);
       }
    };
 
    // Folder Actions
    const handleCreateFolder = () => {
       if (!newFolderName.trim()) return;
-      const newFolder: Folder = { id: crypto.randomUUID(), name: newFolderName, createdAt: Date.now() };
+      const newFolder: Folder = { id: crypto.randomUUID(), name: newFolderName, createdAt: Date.now(), clientName: newFolderClient.trim() || undefined, billingAddress: newFolderAddress.trim() || undefined };
       saveFolders([...folders, newFolder]);
       setNewFolderName('');
+      setNewFolderClient('');
+      setNewFolderAddress('');
       setIsCreateFolderOpen(false);
    };
 
    const handleRenameFolder = (id: string, newName: string) => {
-      saveFolders(folders.map(f => f.id === id ? { ...f, name: newName } : f));
+      saveFolders(folders.map(f => f.id === id ? { ...f, name: newName, clientName: newFolderClient.trim() || undefined, billingAddress: newFolderAddress.trim() || undefined } : f));
       setEditingFolderId(null);
+      setIsCreateFolderOpen(false);
+      setNewFolderName('');
+      setNewFolderClient('');
+      setNewFolderAddress('');
+   };
+
+   // --- Rate Card Selection ---
+   // Imports bill with the card of the target folder's client valid on the manifest date
+   const pickRateConfig = (folderId: string | null | undefined, manifestDate: string) => {
+      const folder = folders.find(f => f.id === folderId);
+      return resolveBillingConfig(rateCards, folder?.clientName, manifestDate, globalConfig);
+   };
+
+   const rateCardRef = (rateCard: RateCard | null) =>
+      rateCard ? { rateCardId: rateCard.id, rateCardName: rateCard.name } : {};
+
+   // History record for a validated import; the file's own config wins (keeps billed
+   // amounts), else the rate card for the target folder and manifest date
+   const buildImportedManifest = (doc: ManifestDocument, folderId: string | null, fallbackNo: string): ManifestHistory => {
+      const manifestDate = doc.manifestDate || new Date().toLocaleDateString();
+      const picked = pickRateConfig(folderId, manifestDate);
+      const configToUse = doc.config || picked.config;
+      const rows = doc.rows.map(r => calculateRow(r, configToUse));
+      return {
+         ...(doc.config ? {} : rateCardRef(picked.rateCard)),
+         id: crypto.randomUUID(),
+         schemaVersion: SCHEMA_VERSION,
+         manifestNo: doc.manifestNo || fallbackNo,
+         manifestDate,
+         rows,
+         config: configToUse,
+         ...calculateManifestTotals(rows, configToUse),
+         createdAt: Date.now(),
+         folderId: folderId || undefined
+      };
+   };
+
+   // Bulk import result for a built manifest; AWBs already billed elsewhere downgrade it to a warning.
+   // `batchIndex` covers history plus the manifests accepted earlier in the batch, and gets this one added.
+   const importResult = (fileName: string, manifest: ManifestHistory, message: string, batchIndex: AwbIndex): BulkImportStatus => {
+      const billedElsewhere = validationRules.enabled.duplicateInHistory ? countBilledElsewhere(manifest.rows, batchIndex) : 0;
+      addToAwbIndex(batchIndex, manifest);
+      return billedElsewhere
+         ? { fileName, status: 'warning', message: `${message}; ${billedElsewhere} AWBs already billed on other manifests` }
+         : { fileName, status: 'success', message };
    };
 
    const handleDeleteFolder = (id: string) => {
@@ -443,7 +684,7 @@ const App: React.FC = () => {
             createdDate: new Date().toLocaleDateString(),
             createdTime: new Date().toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: false }),
             totalManifests: manifestsToExport.length,
-            version: "2.0"
+            schemaVersion: SCHEMA_VERSION
          };
          zip.file("folder_info.json", JSON.stringify(metadata, null, 2));
 
@@ -451,7 +692,7 @@ const App: React.FC = () => {
          manifestsToExport.forEach(manifest => {
             // Sanitize filename
             const safeName = manifest.manifestNo.replace(/[^a-z0-9]/gi, '_').toLowerCase();
-            zip.file(`${safeName}.json`, JSON.stringify(manifest, null, 2));
+            zip.file(`${safeName}.json`, JSON.stringify(withSchemaVersion(manifest), null, 2));
          });
 
          const content = await zip.generateAsync({ type: "blob" });
@@ -472,37 +713,43 @@ const App: React.FC = () => {
       }
    };
 
+   // Every manifest of the folder in one workbook, oldest first
+   const exportFolderToExcel = async (folderId: string) => {
+      const folder = folders.find(f => f.id === folderId);
+      const manifests = history.filter(h => h.folderId === folderId).sort((a, b) => a.createdAt - b.createdAt);
+      if (!folder || manifests.length === 0) {
+         alert("Folder is empty. Nothing to export.");
+         return;
+      }
+      try {
+         await downloadWorkbook(buildManifestWorkbook(manifests, true), `${folder.name}.xlsx`);
+         setIsFolderExportOpen(false);
+         setStatus({ type: 'success', message: `Exported ${manifests.length} manifests to Excel.` });
+      } catch (error) {
+         console.error("Excel export failed", error);
+         setStatus({ type: 'error', message: 'Excel export failed.' });
+      }
+   };
+
    // --- BULK IMPORT HELPERS ---
-   const processImportedManifest = (content: any, targetFolderId: string): BulkImportStatus => {
+   const processImportedManifest = (content: any, targetFolderId: string, batchIndex: AwbIndex): BulkImportStatus => {
       try {
-         if (!content.rows || !Array.isArray(content.rows)) {
-            return { fileName: content.manifestNo || 'Unknown', status: 'error', message: 'Invalid format' };
+         const parsed = parseManifestDocument(content);
+         if (!parsed.value) {
+            return { fileName: content?.manifestNo || 'Unknown', status: 'error', message: formatSchemaIssues(parsed.issues) };
          }
 
          // Check duplicates
-         const exists = history.some(h => h.manifestNo === content.manifestNo);
+         const exists = history.some(h => h.manifestNo === parsed.value.manifestNo);
          if (exists) {
             return { fileName: content.manifestNo, status: 'warning', message: 'Duplicate skipped' };
          }
 
          // Recalculate to ensure data integrity with current (or imported) config
-         const configToUse = content.config || globalConfig;
-         const rowsWithCalculations = content.rows.map((r: any) => calculateRow(r, configToUse));
-
-         const newManifest: ManifestHistory = {
-            id: crypto.randomUUID(),
-            manifestNo: content.manifestNo || `IMP-${Date.now()}`,
-            manifestDate: content.manifestDate || new Date().toLocaleDateString(),
-            rows: rowsWithCalculations,
-            config: configToUse,
-            totalAmount: rowsWithCalculations.reduce((sum: number, r: any) => sum + r.amount, 0),
-            itemCount: rowsWithCalculations.length,
-            createdAt: Date.now(),
-            folderId: targetFolderId
-         };
+         const newManifest = buildImportedManifest(parsed.value, targetFolderId, `IMP-${Date.now()}`);
 
          setHistory(prev => [newManifest, ...prev]);
-         return { fileName: newManifest.manifestNo, status: 'success', message: 'Imported' };
+         return importResult(newManifest.manifestNo, newManifest, 'Imported', batchIndex);
 
       } catch (e) {
          return { fileName: 'Unknown File', status: 'error', message: 'Parse error' };
@@ -533,6 +780,7 @@ const App: React.FC = () => {
          saveFolders([...folders, newFolder]); // Persist immediately
 
          const results: BulkImportStatus[] = [];
+         const batchIndex = buildAwbIndex(history);
          const files = Object.keys(zip.files).filter(filename => filename.endsWith('.json') && filename !== 'folder_info.json');
 
          for (const filename of files) {
@@ -540,7 +788,7 @@ const App: React.FC = () => {
             if (fileData) {
                try {
                   const json = JSON.parse(fileData);
-                  const result = processImportedManifest(json, newFolderId);
+                  const result = processImportedManifest(json, newFolderId, batchIndex);
                   results.push(result);
                } catch (e) {
                   results.push({ fileName: filename, status: 'error', message: 'JSON Parse Error' });
@@ -565,7 +813,7 @@ const App: React.FC = () => {
    const executeBatchImport = (manifests: ManifestHistory[]) => {
       setHistory(prev => {
          const updated = [...manifests, ...prev];
-         safeLocalStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
+         workspaceStore.save('history', updated);
          return updated;
       });
    };
@@ -594,42 +842,31 @@ const App: React.FC = () => {
 
       const results: BulkImportStatus[] = [];
       const newManifests: ManifestHistory[] = [];
+      const batchIndex = buildAwbIndex(history);
 
       for (let i = 0; i < files.length; i++) {
          const file = files[i];
          try {
             const text = await file.text();
-            const json = JSON.parse(text);
+            const parsed = parseManifestDocument(JSON.parse(text));
+            if (!parsed.value) {
+               results.push({ fileName: file.name, status: 'error', message: formatSchemaIssues(parsed.issues) });
+               continue;
+            }
+            const doc = parsed.value;
 
             // Check duplicate in existing history AND in current batch
-            const exists = history.some(h => h.manifestNo === json.manifestNo) || newManifests.some(h => h.manifestNo === json.manifestNo);
+            const exists = history.some(h => h.manifestNo === doc.manifestNo) || newManifests.some(h => h.manifestNo === doc.manifestNo);
 
             if (exists) {
                results.push({ fileName: file.name, status: 'warning', message: 'Duplicate skipped' });
                continue;
             }
 
-            if (!json.rows) {
-               results.push({ fileName: file.name, status: 'error', message: 'Invalid structure' });
-               continue;
-            }
-
-            const configToUse = json.config || globalConfig;
-            const rowsWithCalculations = json.rows.map((r: any) => calculateRow(r, configToUse));
+            const imported = buildImportedManifest(doc, targetId, `IMP-${Date.now()}-${i}`);
+            newManifests.push(imported);
 
-            newManifests.push({
-               id: crypto.randomUUID(),
-               manifestNo: json.manifestNo || `IMP-${Date.now()}-${i}`,
-               manifestDate: json.manifestDate || new Date().toLocaleDateString(),
-               rows: rowsWithCalculations,
-               config: configToUse,
-               totalAmount: rowsWithCalculations.reduce((sum: number, r: any) => sum + r.amount, 0),
-               itemCount: rowsWithCalculations.length,
-               createdAt: Date.now(),
-               folderId: targetId
-            });
-
-            results.push({ fileName: file.name, status: 'success', message: 'Imported' });
+            results.push(importResult(file.name, imported, parsed.migratedFrom < SCHEMA_VERSION ? `Imported (upgraded from v${parsed.migratedFrom})` : 'Imported', batchIndex));
          } catch (e) {
             results.push({ fileName: file.name, status: 'error', message: 'JSON Parse Error' });
          }
@@ -647,22 +884,29 @@ const App: React.FC = () => {
 
       try {
          const zip = await JSZip.loadAsync(file);
+         const results: BulkImportStatus[] = [];
 
          let folderName = file.name.replace(/\.zip$/i, '');
          const infoFile = zip.file("folder_info.json");
          if (infoFile) {
             const infoText = await infoFile.async("text");
             try {
-               const info = JSON.parse(infoText);
-               if (info.folderName) folderName = info.folderName;
-            } catch (e) { }
+               const info = parseFolderInfo(JSON.parse(infoText));
+               if (!info.value) {
+                  results.push({ fileName: 'folder_info.json', status: 'warning', message: formatSchemaIssues(info.issues) });
+               } else if (info.value.folderName) {
+                  folderName = info.value.folderName;
+               }
+            } catch (e) {
+               results.push({ fileName: 'folder_info.json', status: 'warning', message: 'Unreadable, folder named after the ZIP' });
+            }
          }
 
          const newFolderId = crypto.randomUUID();
          const newFolder: Folder = { id: newFolderId, name: folderName, createdAt: Date.now() };
 
          const newManifests: ManifestHistory[] = [];
-         const results: BulkImportStatus[] = [];
+         const batchIndex = buildAwbIndex(history);
 
          const files = Object.keys(zip.files).filter(name => name.toLowerCase().endsWith('.json') && !name.includes('folder_info'));
 
@@ -670,28 +914,22 @@ const App: React.FC = () => {
             const content = await zip.file(filename)?.async("text");
             if (!content) continue;
             try {
-               const json = JSON.parse(content);
-               const exists = history.some(h => h.manifestNo === json.manifestNo) || newManifests.some(h => h.manifestNo === json.manifestNo);
+               const parsed = parseManifestDocument(JSON.parse(content));
+               if (!parsed.value) {
+                  results.push({ fileName: filename, status: 'error', message: formatSchemaIssues(parsed.issues) });
+                  continue;
+               }
+               const doc = parsed.value;
+               const exists = history.some(h => h.manifestNo === doc.manifestNo) || newManifests.some(h => h.manifestNo === doc.manifestNo);
                if (exists) {
                   results.push({ fileName: filename, status: 'warning', message: 'Duplicate' });
                   continue;
                }
 
                // Process
-               const configToUse = json.config || globalConfig;
-               const rows = (json.rows || []).map((r: any) => calculateRow(r, configToUse));
-               newManifests.push({
-                  id: crypto.randomUUID(),
-                  manifestNo: json.manifestNo,
-                  manifestDate: json.manifestDate,
-                  rows: rows,
-                  config: configToUse,
-                  totalAmount: rows.reduce((s: number, r: any) => s + r.amount, 0),
-                  itemCount: rows.length,
-                  createdAt: Date.now(),
-                  folderId: newFolderId
-               });
-               results.push({ fileName: filename, status: 'success', message: 'Valid' });
+               const imported = buildImportedManifest(doc, newFolderId, filename.replace(/\.json$/i, ''));
+               newManifests.push(imported);
+               results.push(importResult(filename, imported, parsed.migratedFrom < SCHEMA_VERSION ? `Valid (upgraded from v${parsed.migratedFrom})` : 'Valid', batchIndex));
             } catch (e) {
                results.push({ fileName: filename, status: 'error', message: 'Corrupt' });
             }
@@ -732,7 +970,9 @@ const App: React.FC = () => {
    const updateRow = (id: string, updates: Partial<BillingRow>) => {
       setRows(prevRows => prevRows.map(row => {
          if (row.id === id) {
-            return calculateRow({ ...row, ...updates }, config);
+            // Editing a flagged cell counts as reviewing it
+            const edited = REVIEW_FIELDS.filter(field => field in updates);
+            return calculateRow(resolveFlags({ ...row, ...updates }, edited), config);
          }
          return row;
       }));
@@ -749,17 +989,21 @@ const App: React.FC = () => {
       setRows(prevRows => prevRows.map(row => calculateRow({ ...row, type }, config)));
    };
 
-   const saveManifest = () => {
+   const saveManifest = (status: ManifestStatus = manifestStatus) => {
       const manifestData: ManifestHistory = {
          id: activeManifestId || crypto.randomUUID(),
          manifestNo: manifestMeta.manifestNo,
          manifestDate: manifestMeta.manifestDate,
          rows,
          config,
-         totalAmount,
-         itemCount: rows.length,
+         ...manifestTotals,
          createdAt: Date.now(),
-         folderId: currentFolderId || undefined
+         folderId: currentFolderId || undefined,
+         ...(appliedRateCard ? { rateCardId: appliedRateCard.id, rateCardName: appliedRateCard.name } : {}),
+         ...(activeExtraction ? { extraction: activeExtraction } : {}),
+         ...(activeSourcePagesId ? { sourcePagesId: activeSourcePagesId, sourcePageCount: sourcePages?.length ?? history.find(h => h.id === activeManifestId)?.sourcePageCount } : {}),
+         ...(printedTotals ? { printedTotals, totalsCheck } : {}),
+         status
       };
 
       let newHistory;
@@ -771,21 +1015,38 @@ const App: React.FC = () => {
 
       saveHistory(newHistory);
       setActiveManifestId(manifestData.id);
-      setStatus({ type: 'success', message: 'Manifest saved successfully.' });
+      setManifestStatus(status);
+      setStatus({ type: 'success', message: status === 'final' ? 'Manifest marked final.' : 'Manifest saved successfully.' });
    };
 
-   const autoSaveManifest = (newRows: BillingRow[], meta: ManifestMetadata, currentConfig: BillingConfig) => {
+   const markManifestFinal = () => {
+      const open = countOpenFlags(rows);
+      if (open > 0) {
+         setStatus({ type: 'error', message: `Resolve ${open} flagged cell${open === 1 ? '' : 's'} before marking this manifest final.` });
+         setReviewIndex(0);
+         return;
+      }
+      saveManifest('final');
+   };
+
+   const acceptReviewIssue = (rowId: string, field: ReviewField) => {
+      setRows(prevRows => prevRows.map(row => row.id === rowId ? resolveFlags(row, [field]) : row));
+   };
+
+   const autoSaveManifest = (newRows: BillingRow[], meta: ManifestMetadata, currentConfig: BillingConfig, rateCard: RateCard | null = null, extras: Partial<ManifestHistory> = {}) => {
       const newId = crypto.randomUUID();
       const manifestData: ManifestHistory = {
+         ...rateCardRef(rateCard),
          id: newId,
          manifestNo: meta.manifestNo,
          manifestDate: meta.manifestDate,
          rows: newRows,
          config: currentConfig,
-         totalAmount: newRows.reduce((sum, r) => sum + r.amount, 0),
-         itemCount: newRows.length,
+         ...calculateManifestTotals(newRows, currentConfig),
          createdAt: Date.now(),
-         folderId: currentFolderId || undefined
+         folderId: currentFolderId || undefined,
+         ...extras,
+         ...(extras.printedTotals ? { totalsCheck: checkTotals(extras.printedTotals, newRows) } : {})
       };
       const newHistory = [manifestData, ...history];
       saveHistory(newHistory);
@@ -794,70 +1055,190 @@ const App: React.FC = () => {
    };
 
    const startBlankSession = () => {
-      setActiveManifestId(null); setRows([]); setConfig(globalConfig); // Use global config for new sessions
+      // New sessions use today's rate card for the current folder, else the global config
+      const picked = pickRateConfig(currentFolderId, toIsoDate(new Date()));
+      setActiveManifestId(null); setRows([]); setConfig(picked.config); setActiveExtraction(null); setPrintedTotals(null); setErrors([]);
+      setManifestStatus('draft'); setReviewIndex(null); setActiveSourcePagesId(null);
+      setAppliedRateCard(picked.rateCard ? { id: picked.rateCard.id, name: picked.rateCard.name } : null);
       setManifestMeta({ manifestNo: '', manifestDate: '' }); setView('billing');
    };
 
    const openManifestFromHistory = (manifest: ManifestHistory) => {
       setActiveManifestId(manifest.id); setRows(manifest.rows); setConfig(manifest.config);
+      setActiveExtraction(manifest.extraction || null); setPrintedTotals(manifest.printedTotals || null); setErrors([]);
+      setManifestStatus(manifest.status || 'draft'); setReviewIndex(null);
+      setActiveSourcePagesId(manifest.sourcePagesId || null); setSelectedRowId(null);
+      setAppliedRateCard(manifest.rateCardId ? { id: manifest.rateCardId, name: manifest.rateCardName || 'Rate Card' } : null);
       setManifestMeta({ manifestNo: manifest.manifestNo, manifestDate: manifest.manifestDate }); setView('billing');
       window.scrollTo({ top: 0, behavior: 'smooth' });
    };
 
    const resolveConflict = (action: 'keep_both' | 'override' | 'discard') => {
       if (!importConflict) return;
-      const { existing, newCandidate } = importConflict;
+      const { existing, newCandidate, source } = importConflict;
+
+      const openCandidate = (candidate: ManifestHistory) => {
+         // Backup merges stay on the dashboard while the queue is worked through
+         if (source === 'backup') return;
+         setActiveManifestId(candidate.id);
+         setRows(candidate.rows);
+         setManifestMeta({ manifestNo: candidate.manifestNo, manifestDate: candidate.manifestDate });
+         setConfig(candidate.config);
+         setActiveExtraction(candidate.extraction || null);
+         setPrintedTotals(candidate.printedTotals || null);
+         setManifestStatus(candidate.status || 'draft'); setReviewIndex(null);
+         setActiveSourcePagesId(candidate.sourcePagesId || null); setSelectedRowId(null);
+         setAppliedRateCard(candidate.rateCardId ? { id: candidate.rateCardId, name: candidate.rateCardName || 'Rate Card' } : null);
+         setView('billing');
+      };
 
       if (action === 'discard') {
-         setStatus({ type: 'info', message: 'Import cancelled by user.' });
+         setStatus({ type: 'info', message: source === 'backup' ? `Kept existing ${existing.manifestNo}.` : 'Import cancelled by user.' });
+         releaseSourcePages(history, recycleBin, conflictQueue);
       } else if (action === 'keep_both') {
          const candidateToSave = { ...newCandidate, id: crypto.randomUUID() };
          saveHistory([candidateToSave, ...history]);
-         setActiveManifestId(candidateToSave.id);
-         setRows(candidateToSave.rows);
-         setManifestMeta({ manifestNo: candidateToSave.manifestNo, manifestDate: candidateToSave.manifestDate });
-         setConfig(candidateToSave.config);
-         setView('billing');
+         openCandidate(candidateToSave);
          setStatus({ type: 'success', message: 'Imported as a new copy.' });
       } else if (action === 'override') {
          const newHistory = history.filter(h => h.id !== existing.id);
          const candidateToSave = { ...newCandidate, id: crypto.randomUUID() };
          saveHistory([candidateToSave, ...newHistory]);
-         setActiveManifestId(candidateToSave.id);
-         setRows(candidateToSave.rows);
-         setManifestMeta({ manifestNo: candidateToSave.manifestNo, manifestDate: candidateToSave.manifestDate });
-         setConfig(candidateToSave.config);
-         setView('billing');
+         openCandidate(candidateToSave);
+         releaseSourcePages([candidateToSave, ...newHistory], recycleBin, conflictQueue);
          setStatus({ type: 'success', message: 'Existing record overwritten.' });
       }
 
-      setImportConflict(null);
+      const [next, ...rest] = conflictQueue;
+      setImportConflict(next || null);
+      setConflictQueue(rest);
       setIsUploadModalOpen(false);
    };
 
+   // --- Workspace Backup ---
+   const handleDownloadBackup = async () => {
+      setIsUploading(true);
+      setLoadingMessage("Packing workspace backup...");
+      try {
+         const blob = await createWorkspaceBackup({
+            history,
+            recycleBin,
+            folders,
+            rateCards,
+            globalConfig,
+            prefs: { theme: appTheme, scale: appScale },
+            finalBill: { selectedFolderIds: selectedFinalFolderIds, reportMeta, overrides: finalBillOverrides, fontSizes },
+            validationRules,
+            invoiceSettings,
+            columnMappings
+         });
+         const url = URL.createObjectURL(blob);
+         const link = document.createElement("a");
+         link.href = url;
+         link.download = `SmartBilling_Backup_${toIsoDate(new Date())}.zip`;
+         document.body.appendChild(link);
+         link.click();
+         document.body.removeChild(link);
+         URL.revokeObjectURL(url);
+         setStatus({ type: 'success', message: `Backup created: ${history.length} manifests, ${folders.length} folders.` });
+      } catch (error) {
+         console.error("Backup failed", error);
+         setStatus({ type: 'error', message: 'Backup failed.' });
+      } finally {
+         setIsUploading(false);
+      }
+   };
+
+   const handleBackupFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+      setIsUploading(true);
+      setLoadingMessage("Verifying backup...");
+      try {
+         const backup = await readWorkspaceBackup(file);
+         setPendingRestore({ fileName: file.name, ...backup });
+      } catch (error) {
+         console.error("Restore failed", error);
+         setStatus({ type: 'error', message: `Restore failed: ${(error as Error).message}` });
+      } finally {
+         setIsUploading(false);
+      }
+   };
+
+   const restoreWorkspace = (mode: 'replace' | 'merge') => {
+      if (!pendingRestore) return;
+      const { snapshot } = pendingRestore;
+
+      if (mode === 'replace') {
+         if (!confirm("Replace ALL manifests, folders, rate cards and settings with this backup? This cannot be undone.")) return;
+         saveHistory(snapshot.history);
+         saveRecycleBin(snapshot.recycleBin);
+         saveFolders(snapshot.folders);
+         saveRateCards(snapshot.rateCards);
+         saveGlobalSettings(snapshot.globalConfig, snapshot.prefs?.theme || appTheme, snapshot.prefs?.scale || appScale);
+         if (snapshot.finalBill) saveFinalBillState(snapshot.finalBill);
+         if (snapshot.validationRules) saveValidationRules(snapshot.validationRules);
+         if (snapshot.invoiceSettings) saveInvoiceSettings(snapshot.invoiceSettings);
+         if (snapshot.columnMappings) saveColumnMappings(snapshot.columnMappings);
+         releaseSourcePages(snapshot.history, snapshot.recycleBin);
+         setCurrentFolderId(null);
+         setStatus({ type: 'success', message: `Workspace replaced: ${snapshot.history.length} manifests restored.` });
+      } else {
+         // Same record (same id) is skipped; a different record with a known manifest number is a conflict
+         const knownIds = new Set(history.map(h => h.id));
+         const additions: ManifestHistory[] = [];
+         const conflicts: ImportConflict[] = [];
+         snapshot.history.forEach(candidate => {
+            if (knownIds.has(candidate.id)) return;
+            const existing = history.find(h => h.manifestNo === candidate.manifestNo);
+            if (existing) conflicts.push({ existing, newCandidate: candidate, source: 'backup' });
+            else additions.push(candidate);
+         });
+
+         saveHistory([...additions, ...history]);
+         saveFolders([...folders, ...snapshot.folders.filter(f => !folders.some(existing => existing.id === f.id))]);
+         saveRateCards([...rateCards, ...snapshot.rateCards.filter(c => !rateCards.some(existing => existing.id === c.id))]);
+         saveRecycleBin([...recycleBin, ...snapshot.recycleBin.filter(h => !recycleBin.some(existing => existing.id === h.id))]);
+         setStatus({ type: 'success', message: `Merged ${additions.length} manifests${conflicts.length ? `, ${conflicts.length} duplicates to review` : ''}.` });
+         if (conflicts.length) {
+            setImportConflict(conflicts[0]);
+            setConflictQueue(conflicts.slice(1));
+         }
+      }
+
+      setPendingRestore(null);
+      setIsGlobalSettingsOpen(false);
+   };
+
    // --- Upload Handlers ---
 
    const handleJsonFile = (file: File) => {
       const reader = new FileReader();
       reader.onload = (e) => {
          try {
-            const content = JSON.parse(e.target?.result as string);
-            if (content.rows && Array.isArray(content.rows)) {
+            const parsed = parseManifestDocument(JSON.parse(e.target?.result as string));
+            if (parsed.value) {
+               const content = parsed.value;
                const meta = {
                   manifestNo: content.manifestNo || `MF-${Date.now().toString().slice(-6)}`,
                   manifestDate: content.manifestDate || new Date().toLocaleDateString()
                };
-               const configToUse = content.config || globalConfig; // Prefer file config, else global
-               const rowsWithCalculations = content.rows.map((r: any) => calculateRow(r, configToUse));
+               // Prefer file config (keeps billed amounts), else the rate card for the current folder/date
+               const picked = pickRateConfig(currentFolderId, meta.manifestDate);
+               const configToUse = content.config || picked.config;
+               const rateCard = content.config ? null : picked.rateCard;
+               const rowsWithCalculations = content.rows.map(r => calculateRow(r, configToUse));
 
                const newCandidate: ManifestHistory = {
+                  ...rateCardRef(rateCard),
                   id: crypto.randomUUID(),
+                  schemaVersion: SCHEMA_VERSION,
                   manifestNo: meta.manifestNo,
                   manifestDate: meta.manifestDate,
                   rows: rowsWithCalculations,
                   config: configToUse,
-                  totalAmount: rowsWithCalculations.reduce((sum: number, r: any) => sum + r.amount, 0),
-                  itemCount: rowsWithCalculations.length,
+                  ...calculateManifestTotals(rowsWithCalculations, configToUse),
                   createdAt: Date.now()
                };
 
@@ -870,22 +1251,211 @@ const App: React.FC = () => {
                setRows(rowsWithCalculations);
                setManifestMeta(meta);
                setConfig(configToUse);
-               const newId = autoSaveManifest(rowsWithCalculations, meta, configToUse);
+               setAppliedRateCard(rateCard ? { id: rateCard.id, name: rateCard.name } : null);
+               const newId = autoSaveManifest(rowsWithCalculations, meta, configToUse, rateCard);
                setActiveManifestId(newId);
                setView('billing');
                setStatus({ type: 'success', message: 'JSON Manifest imported and saved to history.' });
                setIsUploadModalOpen(false);
-            } else { throw new Error("Invalid structure"); }
+            } else {
+               setStatus({ type: 'error', message: `Invalid manifest file: ${formatSchemaIssues(parsed.issues)}` });
+            }
          } catch (err) { setStatus({ type: 'error', message: 'Failed to parse JSON manifest.' }); }
       };
       reader.readAsText(file);
    };
 
+   // Spreadsheets are mapped for the client of the folder being imported into
+   const currentClientName = () => folders.find(f => f.id === currentFolderId)?.clientName || '';
+   const savedColumnMapping = () => columnMappings.find(m => m.clientName === currentClientName());
+
+   // Reads a CSV or XLSX runsheet and opens the column mapping step
+   const handleSpreadsheetFile = async (file: File) => {
+      if (/\.xls$/i.test(file.name)) {
+         setStatus({ type: 'error', message: "Old .xls workbooks can't be read. Save the runsheet as .xlsx or CSV and import that." });
+         return;
+      }
+      try {
+         const rows = /\.csv$/i.test(file.name) || file.type === 'text/csv' ? parseCsv(await file.text()) : await readXlsx(await file.arrayBuffer());
+         if (!rows.some(row => row.some(Boolean))) {
+            setStatus({ type: 'error', message: `${file.name} is empty.` });
+            return;
+         }
+         const headerRow = findHeaderRow(rows);
+         setSheetImport({
+            fileName: file.name,
+            rows,
+            headerRow,
+            columns: applyColumnMapping(rows[headerRow], savedColumnMapping()),
+            meta: { manifestNo: file.name.replace(/\.[^.]+$/, ''), manifestDate: new Date().toLocaleDateString() }
+         });
+         setIsUploadModalOpen(false);
+      } catch (err) {
+         console.error(err);
+         setStatus({ type: 'error', message: `Could not read ${file.name}: ${(err as Error)?.message || err}` });
+      }
+   };
+
+   const importSpreadsheet = () => {
+      if (!sheetImport) return;
+      const { fileName, rows, headerRow, columns } = sheetImport;
+      if (columns.serialNo === undefined) {
+         setStatus({ type: 'error', message: 'Pick the column that holds the AWB numbers.' });
+         return;
+      }
+      const { items, skipped, missingWeights } = readSheetItems(rows, headerRow, columns);
+      if (items.length === 0) {
+         setStatus({ type: 'error', message: 'No rows with an AWB number were found below the heading row.' });
+         return;
+      }
+      const clientName = currentClientName();
+      saveColumnMappings([toColumnMapping(clientName, rows[headerRow], columns), ...columnMappings.filter(m => m.clientName !== clientName)]);
+
+      const meta = {
+         manifestNo: sheetImport.meta.manifestNo.trim() || `MF-${Date.now().toString().slice(-6)}`,
+         manifestDate: sheetImport.meta.manifestDate.trim() || new Date().toLocaleDateString()
+      };
+      const { config: importConfig, rateCard } = pickRateConfig(currentFolderId, meta.manifestDate);
+      const calculatedRows = items.map(item => calculateRow({ ...item, id: crypto.randomUUID(), isManualRate: false }, importConfig));
+      const newCandidate: ManifestHistory = {
+         ...rateCardRef(rateCard),
+         id: crypto.randomUUID(),
+         manifestNo: meta.manifestNo,
+         manifestDate: meta.manifestDate,
+         rows: calculatedRows,
+         config: importConfig,
+         ...calculateManifestTotals(calculatedRows, importConfig),
+         createdAt: Date.now()
+      };
+      setSheetImport(null);
+
+      const existing = history.find(h => h.manifestNo === newCandidate.manifestNo);
+      if (existing) {
+         setImportConflict({ existing, newCandidate });
+         return;
+      }
+
+      setRows(calculatedRows);
+      setManifestMeta(meta);
+      setErrors([]);
+      setManifestStatus('draft');
+      setReviewIndex(null);
+      setConfig(importConfig);
+      setAppliedRateCard(rateCard ? { id: rateCard.id, name: rateCard.name } : null);
+      setActiveExtraction(null);
+      setPrintedTotals(null);
+      setActiveSourcePagesId(null);
+      setSelectedRowId(null);
+      const newId = autoSaveManifest(calculatedRows, meta, importConfig, rateCard);
+      setActiveManifestId(newId);
+      setView('billing');
+      const notes = [
+         skipped ? `${skipped} row${skipped === 1 ? '' : 's'} without an AWB skipped` : '',
+         missingWeights ? `${missingWeights} without a weight set to 0 kg` : ''
+      ].filter(Boolean);
+      setStatus({ type: notes.length ? 'info' : 'success', message: `Imported ${items.length} rows from ${fileName}${notes.length ? `; ${notes.join(', ')}` : ''}.` });
+   };
+
+   // Column mapping step of a spreadsheet import, with a preview of the rows it reads
+   const renderSheetMapping = () => {
+      const { fileName, rows, headerRow, columns, meta } = sheetImport;
+      const header = rows[headerRow] || [];
+      const width = Math.max(0, ...rows.slice(headerRow, headerRow + 50).map(row => row.length));
+      const columnLabel = (index: number) => `${columnLetter(index)}: ${header[index] || '(no heading)'}`;
+      const preview = readSheetItems(rows, headerRow, columns);
+      const clientName = currentClientName();
+      const saved = savedColumnMapping();
+      return (
+         <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/60 backdrop-blur-md p-4 animate-in fade-in duration-300">
+            <div className="bg-white rounded-[2.5rem] shadow-2xl max-w-3xl w-full overflow-hidden border border-white/20 flex flex-col max-h-[90vh]">
+               <div className="px-6 md:px-8 py-6 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+                  <div className="min-w-0">
+                     <h2 className="text-xl md:text-2xl font-black text-slate-900">Map Columns</h2>
+                     <p className="text-xs text-slate-400 font-bold uppercase tracking-widest truncate">{fileName} • {saved ? 'Saved mapping for' : 'New mapping for'} {clientName || 'folders without a client'}</p>
+                  </div>
+                  <button onClick={() => setSheetImport(null)} className="p-2.5 bg-white rounded-xl shadow-sm text-slate-400 hover:text-slate-900 transition-all"><XMarkIcon className="h-5 w-5" /></button>
+               </div>
+
+               <div className="p-6 md:p-8 overflow-y-auto space-y-6">
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                     <div>
+                        <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-1.5 ml-1">Manifest No</label>
+                        <input value={meta.manifestNo} onChange={e => setSheetImport({ ...sheetImport, meta: { ...meta, manifestNo: e.target.value } })} className="w-full px-4 py-2.5 bg-white border border-slate-200 rounded-xl font-bold text-slate-900 focus:border-indigo-500 outline-none" />
+                     </div>
+                     <div>
+                        <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-1.5 ml-1">Manifest Date</label>
+                        <input value={meta.manifestDate} onChange={e => setSheetImport({ ...sheetImport, meta: { ...meta, manifestDate: e.target.value } })} className="w-full px-4 py-2.5 bg-white border border-slate-200 rounded-xl font-bold text-slate-900 focus:border-indigo-500 outline-none" />
+                     </div>
+                     <div>
+                        <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-1.5 ml-1">Heading Row</label>
+                        <input type="number" min={1} max={rows.length} value={headerRow + 1} onChange={e => {
+                           const index = Math.min(rows.length - 1, Math.max(0, Number(e.target.value) - 1));
+                           setSheetImport({ ...sheetImport, headerRow: index, columns: applyColumnMapping(rows[index], saved) });
+                        }} className="w-full px-4 py-2.5 bg-white border border-slate-200 rounded-xl font-bold text-slate-900 focus:border-indigo-500 outline-none" />
+                     </div>
+                  </div>
+
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 bg-slate-50 p-4 rounded-2xl border border-slate-100">
+                     {SHEET_FIELDS.map(field => (
+                        <label key={field} className="flex items-center gap-3">
+                           <span className="w-24 text-xs font-black text-slate-600">{SHEET_FIELD_LABELS[field]}{field === 'serialNo' && <span className="text-rose-500"> *</span>}</span>
+                           <select
+                              value={columns[field] ?? ''}
+                              onChange={e => setSheetImport({ ...sheetImport, columns: { ...columns, [field]: e.target.value === '' ? undefined : Number(e.target.value) } })}
+                              className="flex-1 min-w-0 px-3 py-2 bg-white border border-slate-200 rounded-xl text-xs font-bold text-slate-700 focus:border-indigo-500 outline-none"
+                           >
+                              <option value="">{field === 'type' ? 'Not in sheet (read from description)' : 'Not in sheet'}</option>
+                              {Array.from({ length: width }, (_, i) => <option key={i} value={i}>{columnLabel(i)}</option>)}
+                           </select>
+                        </label>
+                     ))}
+                  </div>
+
+                  <div>
+                     <div className="flex justify-between items-baseline mb-2">
+                        <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-1">Preview</span>
+                        <span className="text-[10px] font-bold text-slate-400">
+                           {preview.items.length} rows{preview.skipped > 0 && ` • ${preview.skipped} without AWB skipped`}{preview.missingWeights > 0 && <span className="text-amber-600"> • {preview.missingWeights} without weight</span>}
+                        </span>
+                     </div>
+                     <div className="border border-slate-200 rounded-2xl overflow-hidden">
+                        <table className="w-full text-xs">
+                           <thead className="bg-slate-50 text-slate-500 font-black uppercase text-[10px]">
+                              <tr>{SHEET_FIELDS.map(field => <th key={field} className="px-3 py-2 text-left">{SHEET_FIELD_LABELS[field]}</th>)}</tr>
+                           </thead>
+                           <tbody className="divide-y divide-slate-100">
+                              {preview.items.slice(0, 5).map((item, i) => (
+                                 <tr key={i} className="text-slate-700">
+                                    <td className="px-3 py-2 font-mono">{item.slNo}</td>
+                                    <td className="px-3 py-2 font-mono font-bold">{item.serialNo}</td>
+                                    <td className="px-3 py-2 truncate max-w-[12rem]">{item.description}</td>
+                                    <td className="px-3 py-2">{item.type}</td>
+                                    <td className="px-3 py-2 font-mono">{item.weight}</td>
+                                 </tr>
+                              ))}
+                              {preview.items.length === 0 && <tr><td colSpan={SHEET_FIELDS.length} className="px-3 py-6 text-center text-slate-400 font-bold">{columns.serialNo === undefined ? 'Pick the AWB column' : 'No rows with an AWB below the heading row'}</td></tr>}
+                           </tbody>
+                        </table>
+                     </div>
+                  </div>
+               </div>
+
+               <div className="px-6 md:px-8 py-5 border-t border-slate-100 flex justify-end gap-3 bg-slate-50/50">
+                  <button onClick={() => setSheetImport(null)} className="px-6 py-3 font-bold text-slate-400 hover:text-slate-600 transition-colors">Cancel</button>
+                  <button disabled={preview.items.length === 0} onClick={importSpreadsheet} className="px-6 py-3 bg-indigo-600 text-white font-black rounded-2xl hover:bg-indigo-700 disabled:opacity-40 shadow-xl shadow-indigo-200 transition-all">Import {preview.items.length} Rows</button>
+               </div>
+            </div>
+         </div>
+      );
+   };
+
    const processFilesWithAI = async (files: File[], instruction: string) => {
       setIsUploading(true);
       setLoadingMessage("Initializing...");
       setStatus({ type: 'info', message: 'Analysis initiated...' });
       setErrors([]);
+      const controller = new AbortController();
+      extractionAbortRef.current = controller;
 
       try {
          const inputs = await Promise.all(files.map(async (file) => {
@@ -904,34 +1474,48 @@ const App: React.FC = () => {
             inputs,
             instruction,
             useHybrid,
-            (statusMsg) => setLoadingMessage(statusMsg)
+            (statusMsg) => setLoadingMessage(statusMsg),
+            { signal: controller.signal }
          );
 
-         const newRowsRaw = result.items.map((item: any, index: number) => ({
+         const newRowsRaw = result.items.map((item: any, index: number) => withExtractionReview({
             id: crypto.randomUUID(),
             slNo: item.slNo || (index + 1),
             serialNo: item.serialNo || `AWB-${1000 + index}`,
             description: item.description || 'Processed Item',
             type: item.type === 'Document' ? ItemType.DOCUMENT : ItemType.PARCEL,
             weight: item.weight || 0,
-            isManualRate: false
-         }));
-         // Use GLOBAL CONFIG for new imports
-         const calculatedRows = newRowsRaw.map((r: any) => calculateRow(r, globalConfig));
+            length: item.length || undefined,
+            width: item.width || undefined,
+            height: item.height || undefined,
+            isManualRate: false,
+            source: item.source
+         }, item, result.errors));
          const meta = {
             manifestNo: result.manifestNo || `MF-${Math.floor(Math.random() * 90000) + 10000}`,
             manifestDate: result.manifestDate || new Date().toLocaleDateString()
          };
+         // Rate card for the current folder's client on the manifest date, else GLOBAL CONFIG
+         const { config: importConfig, rateCard } = pickRateConfig(currentFolderId, meta.manifestDate);
+         const calculatedRows = newRowsRaw.map((r: any) => calculateRow(r, importConfig));
+         const extraction = toExtractionInfo(result);
+         const totalsRef = result.printedTotals ? { printedTotals: result.printedTotals, totalsCheck: checkTotals(result.printedTotals, calculatedRows) } : {};
+         // Keep the scans so rows can be checked against them later
+         const sourcePagesId = crypto.randomUUID();
+         const sourceRef = await workspaceStore.saveSourcePages(sourcePagesId, inputs) ? { sourcePagesId, sourcePageCount: inputs.length } : {};
 
          const newCandidate: ManifestHistory = {
+            ...rateCardRef(rateCard),
             id: crypto.randomUUID(),
             manifestNo: meta.manifestNo,
             manifestDate: meta.manifestDate,
             rows: calculatedRows,
-            config: globalConfig,
-            totalAmount: calculatedRows.reduce((sum: number, r: any) => sum + r.amount, 0),
-            itemCount: calculatedRows.length,
-            createdAt: Date.now()
+            config: importConfig,
+            ...calculateManifestTotals(calculatedRows, importConfig),
+            createdAt: Date.now(),
+            extraction,
+            ...sourceRef,
+            ...totalsRef
          };
 
          const existing = history.find(h => h.manifestNo === newCandidate.manifestNo);
@@ -943,18 +1527,38 @@ const App: React.FC = () => {
 
          setRows(calculatedRows);
          setManifestMeta(meta);
-         setErrors(result.errors || []);
-         setConfig(globalConfig);
-         const newId = autoSaveManifest(calculatedRows, meta, globalConfig);
+         setErrors(unmatchedNotes(result.errors || [], calculatedRows).map(note => ({ type: 'invalid', message: note.message })));
+         setManifestStatus('draft');
+         setReviewIndex(null);
+         setConfig(importConfig);
+         setAppliedRateCard(rateCard ? { id: rateCard.id, name: rateCard.name } : null);
+         setActiveExtraction(extraction);
+         setPrintedTotals(result.printedTotals || null);
+         setActiveSourcePagesId(sourceRef.sourcePagesId || null);
+         setSelectedRowId(null);
+         const newId = autoSaveManifest(calculatedRows, meta, importConfig, rateCard, { extraction, ...sourceRef, ...totalsRef });
          setActiveManifestId(newId);
-         setStatus({ type: 'success', message: 'Document parsed successfully.' });
+         const billedElsewhere = validationRules.enabled.duplicateInHistory ? countBilledElsewhere(calculatedRows, awbIndex) : 0;
+         if (billedElsewhere) {
+            setStatus({ type: 'error', message: `${billedElsewhere} AWB${billedElsewhere === 1 ? ' is' : 's are'} already billed on other manifests. See the highlighted rows.` });
+         } else if (totalsRef.totalsCheck && !totalsRef.totalsCheck.matched) {
+            setStatus({ type: 'error', message: "Extracted rows don't match the manifest's printed totals. Some rows may be missing." });
+         } else {
+            setStatus(extraction.lowConfidence
+               ? { type: 'info', message: `Read by ${extraction.provider} with low confidence. Check every row before billing.` }
+               : { type: 'success', message: result.cachedAt ? `Loaded the cached result of this file from ${new Date(result.cachedAt).toLocaleString()}.` : 'Document parsed successfully.' });
+         }
          setIsUploading(false);
          setView('billing');
          setIsUploadModalOpen(false);
       } catch (err) {
          console.error(err);
-         setStatus({ type: 'error', message: 'Analysis failed. Please try again or switch processing modes.' });
+         setStatus(controller.signal.aborted
+            ? { type: 'info', message: 'Analysis cancelled.' }
+            : { type: 'error', message: `Analysis failed: ${(err as Error)?.message || err}. Please try again or switch processing modes.` });
          setIsUploading(false);
+      } finally {
+         if (extractionAbortRef.current === controller) extractionAbortRef.current = null;
       }
    };
 
@@ -966,6 +1570,11 @@ const App: React.FC = () => {
          handleJsonFile(file);
          return;
       }
+      // Spreadsheets are read directly, without AI
+      if (/\.(csv|xlsx|xls)$/i.test(file.name)) {
+         handleSpreadsheetFile(file);
+         return;
+      }
 
       if (file.size > 5 * 1024 * 1024) {
          alert("File size too large. Please keep under 5MB for optimal AI processing.");
@@ -1001,16 +1610,15 @@ const App: React.FC = () => {
       const newFolder: Folder = { id: newFolderId, name: folderName, createdAt: Date.now() };
 
       // Save new folder
-      const updatedFolders = [...folders, newFolder];
-      setFolders(updatedFolders);
-      localStorage.setItem(FOLDERS_KEY, JSON.stringify(updatedFolders));
+      saveFolders([...folders, newFolder]);
 
       const newSession: ChunkSession = {
          id: crypto.randomUUID(),
          folderId: newFolderId,
          folderName: folderName,
          aiMode: chunkAiMode,
-         pendingChunks: [],
+         jobs: [],
+         concurrency: chunkConcurrency,
          currentChunk: [],
          totalManifestsCaptured: 0,
          processedCount: 0,
@@ -1018,6 +1626,7 @@ const App: React.FC = () => {
          statusLog: 'Ready to capture.'
       };
       saveChunkSession(newSession);
+      setIsChunkReviewOpen(false);
    };
 
    const handleChunkCapture = async (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -1038,7 +1647,7 @@ const App: React.FC = () => {
       if (updatedChunk.length >= 5) {
          finishCurrentChunk(updatedChunk);
       } else {
-         saveChunkSession({ ...chunkSession, currentChunk: updatedChunk, statusLog: `Page ${updatedChunk.length} captured.` });
+         saveChunkSession(prev => prev ? ({ ...prev, currentChunk: updatedChunk, statusLog: `Page ${updatedChunk.length} captured.` }) : null);
       }
    };
 
@@ -1047,27 +1656,77 @@ const App: React.FC = () => {
       const chunkToSave = overrideChunk || chunkSession.currentChunk;
       if (chunkToSave.length === 0) return;
 
-      const newPending = [...chunkSession.pendingChunks, { id: crypto.randomUUID(), images: chunkToSave }];
-      saveChunkSession({
-         ...chunkSession,
-         pendingChunks: newPending,
+      saveChunkSession(prev => prev ? ({
+         ...prev,
+         jobs: [...prev.jobs, { id: crypto.randomUUID(), seq: prev.totalManifestsCaptured + 1, images: chunkToSave, state: 'pending', attempts: 0 }],
          currentChunk: [],
-         totalManifestsCaptured: chunkSession.totalManifestsCaptured + 1,
+         totalManifestsCaptured: prev.totalManifestsCaptured + 1,
          statusLog: 'Manifest captured. Ready for next.'
-      });
+      }) : null);
+   };
+
+   const startChunkQueue = () => {
+      const session = chunkSessionRef.current;
+      if (!session || !session.jobs.some(job => job.state === 'pending')) return;
+      saveChunkSession(prev => prev ? ({ ...prev, isProcessing: true, statusLog: 'Starting batch processing...' }) : null);
+      pumpChunkQueueRef.current();
+   };
+
+   const pauseChunkQueue = () => {
+      saveChunkSession(prev => prev ? ({ ...prev, isProcessing: false, statusLog: 'Paused by user.' }) : null);
+      chunkJobsInFlight.current.forEach(controller => controller.abort());
+   };
+
+   // Puts failed jobs (one, or all when no id is given) back in the queue and runs it
+   const retryChunkJobs = (jobId?: string) => {
+      saveChunkSession(prev => prev ? ({
+         ...prev,
+         jobs: prev.jobs.map(job => job.state === 'failed' && (!jobId || job.id === jobId) ? { ...job, state: 'pending' as const, error: undefined } : job)
+      }) : null);
+      startChunkQueue();
    };
 
-   const processChunkQueue = async () => {
-      if (!chunkSession || chunkSession.pendingChunks.length === 0) return;
+   /**
+    * Starts pending jobs up to the session's concurrency. Called whenever the
+    * queue starts or a job settles; stops the queue once nothing is left to run.
+    */
+   const pumpChunkQueue = () => {
+      const session = chunkSessionRef.current;
+      if (!session?.isProcessing) return;
+      const running = chunkJobsInFlight.current;
+      const next = nextChunkJobs(session, new Set(running.keys()));
+      next.forEach(job => { runChunkJob(job); });
+      if (running.size === 0 && next.length === 0) {
+         const { failed } = countChunkJobs(session);
+         saveChunkSession(prev => prev ? ({
+            ...prev,
+            isProcessing: false,
+            statusLog: failed ? `Queue finished. ${failed} manifest${failed === 1 ? '' : 's'} failed; retry them below.` : 'All captured manifests processed.'
+         }) : null);
+      }
+   };
+   // Settling jobs call the latest pump, not the one from the render that started them
+   const pumpChunkQueueRef = useRef(pumpChunkQueue);
+   pumpChunkQueueRef.current = pumpChunkQueue;
 
-      saveChunkSession((prev) => prev ? ({ ...prev, isProcessing: true, statusLog: 'Starting batch processing...' }) : null);
+   // Resume a queue that was running when the page was closed
+   useEffect(() => {
+      if (chunkSession?.isProcessing) pumpChunkQueueRef.current();
+   }, [chunkSession?.isProcessing]);
 
-      // We process the first one in the queue
-      const chunkToProcess = chunkSession.pendingChunks[0];
+   const runChunkJob = async (job: ChunkJob) => {
+      const controller = new AbortController();
+      chunkJobsInFlight.current.set(job.id, controller);
+      const session = chunkSessionRef.current;
+      const manifestId = job.manifestId || crypto.randomUUID();
+      saveChunkSession(prev => prev ? updateChunkJob(prev, job.id, { state: 'running', attempts: job.attempts + 1, error: undefined, manifestId }) : null);
+      const logStatus = (message: string) => saveChunkSession(prev => prev ? ({ ...prev, statusLog: `Manifest #${job.seq}: ${message}` }) : null);
 
       try {
-         const useHybrid = chunkSession.aiMode === 'hybrid';
-         const useAuto = chunkSession.aiMode === 'auto';
+         const useHybrid = job.mode ? job.mode === 'hybrid' : session.aiMode === 'hybrid';
+         const useAuto = !job.mode && session.aiMode === 'auto';
+         // A re-run must read the pages again, not return the result it is replacing
+         const useCache = !job.replacesManifestId;
 
          let result;
          let usedMode = useHybrid ? 'Hybrid' : 'Default';
@@ -1075,96 +1734,320 @@ const App: React.FC = () => {
          // AUTO LOGIC: Try Default, Fallback to Hybrid
          if (useAuto) {
             try {
-               saveChunkSession(prev => prev ? ({ ...prev, statusLog: `Processing Manifest ${prev.processedCount + 1}... (Default Mode)` }) : null);
-               result = await parseBillingDocument(chunkToProcess.images, "Extract billing data.", false);
+               logStatus('Processing... (Default Mode)');
+               result = await parseBillingDocument(job.images, "Extract billing data.", false, logStatus, { allowFallback: false, signal: controller.signal, useCache });
             } catch (e) {
-               saveChunkSession(prev => prev ? ({ ...prev, statusLog: `Default failed. Retrying with Hybrid Mode...` }) : null);
+               if (controller.signal.aborted || (e as AiCallError)?.kind === 'cancelled') throw e;
+               logStatus('Default failed. Retrying with Hybrid Mode...');
                usedMode = 'Hybrid (Auto-Fallback)';
-               result = await parseBillingDocument(chunkToProcess.images, "Extract billing data.", true);
+               result = await parseBillingDocument(job.images, "Extract billing data.", true, logStatus, { signal: controller.signal, useCache });
             }
          } else {
-            saveChunkSession(prev => prev ? ({ ...prev, statusLog: `Processing Manifest ${prev.processedCount + 1}... (${usedMode})` }) : null);
-            result = await parseBillingDocument(chunkToProcess.images, "Extract billing data.", useHybrid);
+            logStatus(`Processing... (${usedMode})`);
+            result = await parseBillingDocument(job.images, "Extract billing data.", useHybrid, logStatus, { signal: controller.signal, useCache });
          }
 
-         // Success - Save to History
+         // Success - Save to History, billed with the session folder's rate card
+         const manifestDate = result.manifestDate || new Date().toLocaleDateString();
+         const { config: importConfig, rateCard } = pickRateConfig(session.folderId, manifestDate);
          const calculatedRows = (result.items || []).map((item: any, index: number) =>
-            calculateRow({
+            calculateRow(withExtractionReview({
                id: crypto.randomUUID(),
                slNo: item.slNo || (index + 1),
                serialNo: item.serialNo || `AWB-${1000 + index}`,
                description: item.description || 'Item',
                type: item.type === 'Document' ? ItemType.DOCUMENT : ItemType.PARCEL,
                weight: item.weight || 0,
-               isManualRate: false
-            }, globalConfig)
+               length: item.length || undefined,
+               width: item.width || undefined,
+               height: item.height || undefined,
+               isManualRate: false,
+               source: item.source
+            }, item, result.errors), importConfig)
          );
+         // A re-run reads pages that are already stored
+         const sourcePagesId = job.sourcePagesId || crypto.randomUUID();
+         const sourceRef = job.sourcePagesId || await workspaceStore.saveSourcePages(sourcePagesId, job.images) ? { sourcePagesId, sourcePageCount: job.images.length } : {};
 
          const newManifest: ManifestHistory = {
-            id: crypto.randomUUID(),
+            ...rateCardRef(rateCard),
+            id: manifestId,
             manifestNo: result.manifestNo || `AUTO-${Date.now()}`,
-            manifestDate: result.manifestDate || new Date().toLocaleDateString(),
+            manifestDate,
             rows: calculatedRows,
-            config: globalConfig,
-            totalAmount: calculatedRows.reduce((sum: number, r: any) => sum + r.amount, 0),
-            itemCount: calculatedRows.length,
+            config: importConfig,
+            ...calculateManifestTotals(calculatedRows, importConfig),
             createdAt: Date.now(),
-            folderId: chunkSession.folderId
+            folderId: session.folderId,
+            extraction: toExtractionInfo(result),
+            ...sourceRef,
+            ...(result.printedTotals ? { printedTotals: result.printedTotals, totalsCheck: checkTotals(result.printedTotals, calculatedRows) } : {})
          };
 
-         // Atomic Update: Remove from pending, add to history, update session
+         // Checked against the latest history, including jobs that finished since the last render
+         const replaced = (h: ManifestHistory) => h.id !== job.replacesManifestId;
+         const billedElsewhere = validationRules.enabled.duplicateInHistory ? countBilledElsewhere(calculatedRows, buildAwbIndex(historyRef.current.filter(replaced))) : 0;
+         historyRef.current = [newManifest, ...historyRef.current.filter(replaced)];
          setHistory(prev => {
-            const updated = [newManifest, ...prev];
-            localStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
+            if (prev.some(h => h.id === manifestId)) return prev;
+            const updated = [newManifest, ...prev.filter(replaced)];
+            workspaceStore.save('history', updated);
             return updated;
          });
 
-         // Update Session State (Remove processed chunk)
-         saveChunkSession(prev => {
-            if (!prev) return null;
-            const remainingChunks = prev.pendingChunks.slice(1);
-            return {
-               ...prev,
-               pendingChunks: remainingChunks,
-               processedCount: prev.processedCount + 1,
-               statusLog: `Manifest ${newManifest.manifestNo} processed successfully.`
-            };
-         });
-
-         // Need to re-read session state for recursion or use a ref. 
-         // For simplicity in this fix, we rely on the state update triggering re-render, 
-         // but to continue processing we need to call recursively.
-         // Since we just updated state, we can't easily access the NEW state immediately here for recursion check.
-         // We can check the variable we derived.
-
-         const remainingChunksLength = chunkSession.pendingChunks.length - 1;
-         if (remainingChunksLength > 0) {
-            // Allow UI update breath
-            setTimeout(() => processChunkQueue(), 500);
-         } else {
-            saveChunkSession(prev => prev ? ({ ...prev, isProcessing: false, statusLog: 'All captured manifests processed.' }) : null);
-         }
-
+         saveChunkSession(prev => prev ? ({
+            ...updateChunkJob(prev, job.id, { state: 'done', images: [], manifestNo: newManifest.manifestNo, finishedAt: Date.now(), replacesManifestId: undefined, sourcePagesId: undefined }),
+            processedCount: prev.processedCount + 1,
+            statusLog: `Manifest ${newManifest.manifestNo} processed (${usedMode}).${billedElsewhere ? ` ${billedElsewhere} AWBs were already billed on other manifests.` : ''}${newManifest.totalsCheck?.matched === false ? ' Rows do not match the printed totals.' : ''}`
+         }) : null);
       } catch (e) {
-         console.error("Chunk processing failed", e);
-         saveChunkSession(prev => prev ? ({ ...prev, isProcessing: false, statusLog: 'Processing paused due to error. Resume when ready.' }) : null);
+         console.error(`Chunk job #${job.seq} failed`, e);
+         // A pause puts the job back in line; anything else fails it without stopping the queue
+         saveChunkSession(prev => prev ? (controller.signal.aborted
+            ? updateChunkJob(prev, job.id, { state: 'pending' })
+            : {
+               ...updateChunkJob(prev, job.id, { state: 'failed', error: (e as Error)?.message || String(e) }),
+               statusLog: `Manifest #${job.seq} failed: ${(e as Error)?.message || e}. Continuing with the rest.`
+            }) : null);
+      } finally {
+         chunkJobsInFlight.current.delete(job.id);
+         pumpChunkQueueRef.current();
       }
    };
 
    const closeChunkSession = () => {
-      if (chunkSession?.pendingChunks.length && chunkSession.pendingChunks.length > 0) {
+      if (chunkSession && countChunkJobs(chunkSession).pending > 0 && !chunkSession.isProcessing) {
          if (!confirm("There are unprocessed manifests in the queue. Closing will pause the session. You can resume later from the dashboard.")) return;
       }
       setIsChunkSessionOpen(false);
       // We keep the session in LS to resume later unless explicitly cleared, but for now we assume 'Close' just hides UI
    };
 
-   const renderChunkSession = () => {
-      if (!chunkSession) {
-         return (
-            <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/95 backdrop-blur-xl p-4 animate-in fade-in">
-               <div className="bg-white rounded-[2rem] p-8 max-w-md w-full text-center space-y-6 shadow-2xl ring-1 ring-white/10">
-                  <div className="h-20 w-20 bg-indigo-50 rounded-[1.5rem] flex items-center justify-center mx-auto shadow-inner">
+   // Jobs still to do or needing attention, newest capture last
+   const renderChunkJobList = () => {
+      const stateStyles: Record<ChunkJob['state'], string> = {
+         pending: 'bg-slate-700 text-slate-300',
+         running: 'bg-indigo-500/20 text-indigo-300 animate-pulse',
+         failed: 'bg-rose-500/20 text-rose-300',
+         done: 'bg-emerald-500/20 text-emerald-300'
+      };
+      const jobs = chunkSession.jobs.filter(job => job.state !== 'done');
+      const failed = jobs.filter(job => job.state === 'failed').length;
+      if (jobs.length === 0) return null;
+      return (
+         <div className="bg-slate-900/80 rounded-2xl border border-slate-800 text-left overflow-hidden">
+            <div className="flex items-center justify-between px-4 py-2.5 border-b border-slate-800">
+               <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Queue</span>
+               {failed > 1 && <button onClick={() => retryChunkJobs()} className="text-[10px] font-black text-rose-300 hover:text-white uppercase tracking-wider flex items-center gap-1"><ArrowPathIcon className="h-3 w-3" /> Retry all failed</button>}
+            </div>
+            <div className="max-h-48 overflow-y-auto divide-y divide-slate-800">
+               {jobs.map(job => (
+                  <div key={job.id} className="flex items-center gap-3 px-4 py-2.5">
+                     <span className="font-mono text-xs text-slate-500 w-8">#{job.seq}</span>
+                     <span className={`text-[9px] font-black uppercase tracking-wider px-2 py-0.5 rounded-full ${stateStyles[job.state]}`}>{job.state}</span>
+                     <span className="text-[10px] text-slate-500 font-medium">{job.images.length} pg{job.attempts > 0 ? ` · try ${job.attempts}` : ''}</span>
+                     <span className="flex-1 text-[10px] text-rose-300/80 font-medium truncate" title={job.error}>{job.error}</span>
+                     {job.state === 'failed' && <button onClick={() => retryChunkJobs(job.id)} className="text-[10px] font-black text-white bg-slate-800 hover:bg-slate-700 px-2.5 py-1 rounded-lg flex items-center gap-1"><ArrowPathIcon className="h-3 w-3" /> Retry</button>}
+                  </div>
+               ))}
+            </div>
+         </div>
+      );
+   };
+
+   // Scanned pages of every finished manifest, for the review screen's thumbnails
+   useEffect(() => {
+      if (!isChunkReviewOpen || !chunkSession) return;
+      const ids = chunkSession.jobs
+         .map(job => job.state === 'done' && history.find(h => h.id === job.manifestId)?.sourcePagesId)
+         .filter(id => id && !chunkReviewPages[id]);
+      if (ids.length === 0) return;
+      let cancelled = false;
+      Promise.all(ids.map(id => workspaceStore.loadSourcePages(id))).then(loaded => {
+         if (cancelled) return;
+         setChunkReviewPages(prev => ({ ...prev, ...Object.fromEntries(ids.map((id, i) => [id, loaded[i] || []])) }));
+      });
+      return () => { cancelled = true; };
+   }, [isChunkReviewOpen, chunkSession?.jobs, history]);
+
+   // Review actions run while the queue keeps saving manifests, so they read and
+   // update the latest history rather than this render's copy
+   const findJobManifest = (job: ChunkJob) => historyRef.current.find(h => h.id === job.manifestId);
+
+   const updateLatestHistory = (update: (latest: ManifestHistory[]) => ManifestHistory[]) => {
+      const next = update(historyRef.current);
+      historyRef.current = next;
+      saveHistory(next);
+      return next;
+   };
+
+   const approveChunkJob = (job: ChunkJob) => {
+      const manifest = findJobManifest(job);
+      if (!manifest) return;
+      const open = countOpenFlags(manifest.rows);
+      if (open > 0) {
+         setStatus({ type: 'error', message: `Resolve the ${open} flagged cell${open === 1 ? '' : 's'} in ${manifest.manifestNo} before approving it.` });
+         return;
+      }
+      updateLatestHistory(latest => latest.map(h => h.id === manifest.id ? { ...h, status: 'final' } : h));
+      saveChunkSession(prev => prev ? updateChunkJob(prev, job.id, { approved: true }) : null);
+   };
+
+   // Puts a finished job back in the queue in Hybrid mode; its result replaces the current manifest
+   const rerunChunkJobHybrid = async (job: ChunkJob) => {
+      const manifest = findJobManifest(job);
+      if (!manifest) return;
+      const pages = manifest.sourcePagesId ? await workspaceStore.loadSourcePages(manifest.sourcePagesId) : null;
+      if (!pages?.length) {
+         setStatus({ type: 'error', message: `The scanned pages of ${manifest.manifestNo} are no longer stored, so it can't be re-run.` });
+         return;
+      }
+      saveChunkSession(prev => prev ? ({
+         ...updateChunkJob(prev, job.id, {
+            state: 'pending', images: pages, attempts: 0, error: undefined, mode: 'hybrid', approved: false,
+            manifestId: undefined, replacesManifestId: manifest.id, sourcePagesId: manifest.sourcePagesId
+         }),
+         processedCount: prev.processedCount - 1
+      }) : null);
+      startChunkQueue();
+   };
+
+   // Turns one finished job into two, the second starting at row `at`
+   const splitChunkJob = (job: ChunkJob, at: number) => {
+      const manifest = findJobManifest(job);
+      if (!manifest) return;
+      const [first, second] = splitManifest(manifest, at);
+      updateLatestHistory(latest => latest.flatMap(h => h.id === manifest.id ? [first, second] : [h]));
+      saveChunkSession(prev => {
+         if (!prev) return null;
+         const jobs = prev.jobs.map(j => j.id === job.id ? { ...j, approved: false } : j);
+         jobs.splice(jobs.findIndex(j => j.id === job.id) + 1, 0, {
+            id: crypto.randomUUID(), seq: prev.totalManifestsCaptured + 1, images: [], state: 'done', attempts: 0,
+            manifestId: second.id, manifestNo: second.manifestNo, finishedAt: Date.now()
+         });
+         return { ...prev, jobs, processedCount: prev.processedCount + 1, totalManifestsCaptured: prev.totalManifestsCaptured + 1 };
+      });
+      setChunkSplit(null);
+      setStatus({ type: 'success', message: `Split ${manifest.manifestNo} into ${first.manifestNo} and ${second.manifestNo}.` });
+   };
+
+   // Joins a finished job with the next one, combining their scanned pages
+   const mergeChunkJobs = async (job: ChunkJob, nextJob: ChunkJob) => {
+      const first = findJobManifest(job);
+      const second = findJobManifest(nextJob);
+      if (!first || !second) return;
+      if (!confirm(`Merge ${second.manifestNo} into ${first.manifestNo}? They become one manifest.`)) return;
+
+      const [firstPages, secondPages] = await Promise.all([first, second].map(m => m.sourcePagesId ? workspaceStore.loadSourcePages(m.sourcePagesId) : null));
+      let sourceRef = {};
+      let firstPageCount: number | undefined;
+      if (firstPages && secondPages) {
+         const sourcePagesId = crypto.randomUUID();
+         const pages = [...firstPages, ...secondPages];
+         if (await workspaceStore.saveSourcePages(sourcePagesId, pages)) {
+            sourceRef = { sourcePagesId, sourcePageCount: pages.length };
+            firstPageCount = firstPages.length;
+         }
+      }
+      const merged = { ...mergeManifests(first, second, firstPageCount), ...sourceRef };
+      const newHistory = updateLatestHistory(latest => latest.filter(h => h.id !== second.id).map(h => h.id === first.id ? merged : h));
+      releaseSourcePages(newHistory, recycleBin);
+      saveChunkSession(prev => prev ? ({
+         ...prev,
+         jobs: prev.jobs.filter(j => j.id !== nextJob.id).map(j => j.id === job.id ? { ...j, approved: false, manifestNo: merged.manifestNo } : j),
+         processedCount: prev.processedCount - 1
+      }) : null);
+      setStatus({ type: 'success', message: `Merged into ${merged.manifestNo} (${merged.rows.length} rows).` });
+   };
+
+   // Every captured manifest with its pages, size and problems, and what can be done about it
+   const renderChunkReview = () => {
+      const doneJobs = chunkSession.jobs.filter(job => job.state === 'done');
+      const approved = doneJobs.filter(job => job.approved).length;
+      return (
+         <div className="flex-1 overflow-y-auto p-6">
+            <div className="max-w-4xl mx-auto space-y-4">
+               <div className="flex items-center justify-between">
+                  <h2 className="text-2xl font-black tracking-tight">Session Review</h2>
+                  <span className="text-xs font-bold text-slate-400 uppercase tracking-widest">{approved} of {doneJobs.length} approved</span>
+               </div>
+               {chunkSession.jobs.length === 0 && <div className="text-center text-sm text-slate-500 font-bold py-10 bg-slate-900 rounded-2xl border border-slate-800">No manifests captured yet</div>}
+               {chunkSession.jobs.map(job => {
+                  const manifest = job.state === 'done' ? findJobManifest(job) : undefined;
+                  if (!manifest) {
+                     return (
+                        <div key={job.id} className="flex items-center gap-3 px-5 py-3 bg-slate-900 rounded-2xl border border-slate-800">
+                           <span className="font-mono text-xs text-slate-500 w-8">#{job.seq}</span>
+                           <span className="text-[9px] font-black uppercase tracking-wider px-2 py-0.5 rounded-full bg-slate-700 text-slate-300">{job.state === 'done' ? 'deleted' : job.state}</span>
+                           <span className="flex-1 text-[10px] text-slate-500 font-medium truncate" title={job.error}>{job.error || (job.state === 'done' ? 'The manifest is no longer in history' : `${job.images.length} pg`)}</span>
+                        </div>
+                     );
+                  }
+                  const review = reviewChunkManifest(manifest, validationRules, awbIndex);
+                  const pages = manifest.sourcePagesId ? chunkReviewPages[manifest.sourcePagesId] : undefined;
+                  const nextJob = chunkSession.jobs[chunkSession.jobs.indexOf(job) + 1];
+                  const canMerge = nextJob?.state === 'done' && !!findJobManifest(nextJob);
+                  const splitting = chunkSplit?.jobId === job.id ? chunkSplit : null;
+                  return (
+                     <div key={job.id} className={`bg-slate-900 rounded-2xl border p-5 space-y-4 ${job.approved ? 'border-emerald-500/40' : 'border-slate-800'}`}>
+                        <div className="flex items-start justify-between gap-4">
+                           <div className="min-w-0">
+                              <div className="flex items-center gap-2">
+                                 <span className="font-mono text-xs text-slate-500">#{job.seq}</span>
+                                 <h4 className="font-black text-white truncate">{manifest.manifestNo}</h4>
+                                 {job.approved && <span className="text-[9px] font-black uppercase tracking-wider px-2 py-0.5 rounded-full bg-emerald-500/20 text-emerald-300">Approved</span>}
+                                 {job.mode === 'hybrid' && <span className="text-[9px] font-black uppercase tracking-wider px-2 py-0.5 rounded-full bg-indigo-500/20 text-indigo-300">Hybrid re-run</span>}
+                              </div>
+                              <p className="text-xs text-slate-400 font-mono mt-1">{review.rowCount} rows · {review.totalWeight} kg · ₹{review.totalAmount.toFixed(2)}</p>
+                           </div>
+                           <button onClick={() => { setIsChunkSessionOpen(false); openManifestFromHistory(manifest); }} className="text-[10px] font-black text-slate-300 bg-slate-800 hover:bg-slate-700 px-3 py-1.5 rounded-lg flex-shrink-0">Open</button>
+                        </div>
+
+                        {pages?.length > 0 && (
+                           <div className="flex gap-2 overflow-x-auto">
+                              {pages.map((page, i) => page.mimeType.startsWith('image/')
+                                 ? <img key={i} src={`data:${page.mimeType};base64,${page.data}`} className="h-20 w-16 object-cover rounded-lg border border-slate-700 flex-shrink-0" />
+                                 : <div key={i} className="h-20 w-16 rounded-lg border border-slate-700 bg-slate-800 flex items-center justify-center flex-shrink-0"><DocumentIcon className="h-6 w-6 text-slate-500" /></div>)}
+                           </div>
+                        )}
+
+                        {review.problems.length > 0 ? (
+                           <div className="flex flex-wrap gap-2">
+                              {review.problems.map(problem => <span key={problem} className="text-[10px] font-bold px-2 py-1 rounded-lg bg-amber-500/10 text-amber-300 border border-amber-500/20">{problem}</span>)}
+                           </div>
+                        ) : <p className="text-[10px] font-bold text-emerald-400 flex items-center gap-1"><CheckCircleIcon className="h-3.5 w-3.5" /> No problems found</p>}
+
+                        {splitting ? (
+                           <div className="flex flex-wrap items-center gap-3 bg-slate-800/60 rounded-xl p-3 text-xs text-slate-300">
+                              <span>Second manifest starts at row</span>
+                              <input type="number" min={2} max={review.rowCount} value={splitting.at} onChange={e => setChunkSplit({ jobId: job.id, at: Number(e.target.value) })} className="w-16 bg-slate-900 border border-slate-700 rounded-lg px-2 py-1 text-white font-mono" />
+                              <span className="text-slate-500 truncate">{manifest.rows[splitting.at - 1]?.serialNo}</span>
+                              <div className="flex-1" />
+                              <button onClick={() => setChunkSplit(null)} className="font-bold text-slate-400 hover:text-white">Cancel</button>
+                              <button disabled={splitting.at < 2 || splitting.at > review.rowCount} onClick={() => splitChunkJob(job, splitting.at - 1)} className="font-black text-white bg-indigo-600 hover:bg-indigo-500 disabled:opacity-40 px-3 py-1.5 rounded-lg">Split</button>
+                           </div>
+                        ) : (
+                           <div className="flex flex-wrap gap-2">
+                              {!job.approved && <button onClick={() => approveChunkJob(job)} className="text-[10px] font-black text-white bg-emerald-600 hover:bg-emerald-500 px-3 py-1.5 rounded-lg flex items-center gap-1"><CheckCircleIcon className="h-3.5 w-3.5" /> Approve</button>}
+                              <button disabled={chunkSession.isProcessing} onClick={() => rerunChunkJobHybrid(job)} className="text-[10px] font-black text-slate-300 bg-slate-800 hover:bg-slate-700 disabled:opacity-40 px-3 py-1.5 rounded-lg flex items-center gap-1"><ArrowPathIcon className="h-3.5 w-3.5" /> Re-run in Hybrid</button>
+                              {review.rowCount > 1 && <button onClick={() => setChunkSplit({ jobId: job.id, at: Math.ceil(review.rowCount / 2) + 1 })} className="text-[10px] font-black text-slate-300 bg-slate-800 hover:bg-slate-700 px-3 py-1.5 rounded-lg flex items-center gap-1"><ScissorsIcon className="h-3.5 w-3.5" /> Split</button>}
+                              {canMerge && <button onClick={() => mergeChunkJobs(job, nextJob)} className="text-[10px] font-black text-slate-300 bg-slate-800 hover:bg-slate-700 px-3 py-1.5 rounded-lg flex items-center gap-1"><LinkIcon className="h-3.5 w-3.5" /> Merge with #{nextJob.seq}</button>}
+                           </div>
+                        )}
+                     </div>
+                  );
+               })}
+            </div>
+         </div>
+      );
+   };
+
+   const renderChunkSession = () => {
+      if (!chunkSession) {
+         return (
+            <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/95 backdrop-blur-xl p-4 animate-in fade-in">
+               <div className="bg-white rounded-[2rem] p-8 max-w-md w-full text-center space-y-6 shadow-2xl ring-1 ring-white/10">
+                  <div className="h-20 w-20 bg-indigo-50 rounded-[1.5rem] flex items-center justify-center mx-auto shadow-inner">
                      <BoltIcon className="h-10 w-10 text-indigo-600" />
                   </div>
                   <div>
@@ -1197,6 +2080,12 @@ const App: React.FC = () => {
                            </div>
                         </label>
                      </div>
+                     <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mt-4 mb-2 pl-1">Manifests Processed at Once</label>
+                     <div className="grid grid-cols-4 gap-2 bg-white p-1 rounded-xl border border-slate-200">
+                        {Array.from({ length: MAX_CHUNK_CONCURRENCY }, (_, i) => i + 1).map(n => (
+                           <button key={n} onClick={() => setChunkConcurrency(n)} className={`py-2 rounded-lg text-xs font-black transition-all ${chunkConcurrency === n ? 'bg-indigo-600 text-white shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}>{n}</button>
+                        ))}
+                     </div>
                   </div>
 
                   <div className="flex gap-3 pt-2">
@@ -1208,18 +2097,27 @@ const App: React.FC = () => {
          )
       }
 
+      const counts = countChunkJobs(chunkSession);
+      const progress = chunkProgress(chunkSession);
+
       return (
          <div className="fixed inset-0 z-50 flex flex-col bg-slate-950 text-white animate-in slide-in-from-bottom-10">
             {/* Top Bar */}
             <div className="p-4 flex justify-between items-center bg-slate-900/50 backdrop-blur border-b border-slate-800">
                <div>
                   <h3 className="font-black text-lg flex items-center gap-2"><FolderIcon className="h-5 w-5 text-indigo-400" /> {chunkSession.folderName}</h3>
-                  <p className="text-xs text-slate-400 font-mono mt-1">Processed: {chunkSession.processedCount} | Pending: {chunkSession.pendingChunks.length}</p>
+                  <p className="text-xs text-slate-400 font-mono mt-1">Processed: {chunkSession.processedCount} | Pending: {counts.pending + counts.running}{counts.failed > 0 && <span className="text-rose-400"> | Failed: {counts.failed}</span>}</p>
+               </div>
+               <div className="flex items-center gap-2">
+                  <button onClick={() => setIsChunkReviewOpen(!isChunkReviewOpen)} className={`px-4 py-2 rounded-full text-xs font-black flex items-center gap-1.5 transition-colors ${isChunkReviewOpen ? 'bg-indigo-600 text-white' : 'bg-slate-800 text-slate-300 hover:bg-slate-700'}`}>
+                     <ClipboardDocumentCheckIcon className="h-4 w-4" /> {isChunkReviewOpen ? 'Back to Capture' : `Review (${counts.done})`}
+                  </button>
+                  <button onClick={closeChunkSession} className="p-2.5 bg-slate-800 rounded-full hover:bg-slate-700 transition-colors text-slate-400 hover:text-white"><XMarkIcon className="h-6 w-6" /></button>
                </div>
-               <button onClick={closeChunkSession} className="p-2.5 bg-slate-800 rounded-full hover:bg-slate-700 transition-colors text-slate-400 hover:text-white"><XMarkIcon className="h-6 w-6" /></button>
             </div>
 
-            {/* Main Capture Area */}
+            {isChunkReviewOpen ? renderChunkReview() : (
+            /* Main Capture Area */
             <div className="flex-1 relative flex flex-col items-center justify-center p-6">
                {!chunkSession.isProcessing ? (
                   <div className="w-full max-w-md flex flex-col items-center">
@@ -1254,12 +2152,22 @@ const App: React.FC = () => {
                            <div className="col-span-2 text-center text-sm text-slate-500 font-bold py-4 bg-slate-900 rounded-2xl border border-slate-800">Capture at least one page</div>
                         )}
 
-                        {chunkSession.pendingChunks.length > 0 && (
-                           <button onClick={processChunkQueue} className="col-span-2 py-4 bg-emerald-600 text-white font-black rounded-2xl shadow-lg shadow-emerald-900/50 hover:bg-emerald-500 flex items-center justify-center gap-2 animate-pulse">
-                              <PlayCircleIcon className="h-6 w-6" /> Process Queue ({chunkSession.pendingChunks.length})
+                        {counts.pending > 0 && (
+                           <button onClick={startChunkQueue} className="col-span-2 py-4 bg-emerald-600 text-white font-black rounded-2xl shadow-lg shadow-emerald-900/50 hover:bg-emerald-500 flex items-center justify-center gap-2 animate-pulse">
+                              <PlayCircleIcon className="h-6 w-6" /> Process Queue ({counts.pending})
                            </button>
                         )}
+                        {counts.pending > 0 && (
+                           <div className="col-span-2 flex items-center justify-center gap-2 text-[10px] font-bold text-slate-500 uppercase tracking-widest">
+                              At once
+                              {Array.from({ length: MAX_CHUNK_CONCURRENCY }, (_, i) => i + 1).map(n => (
+                                 <button key={n} onClick={() => saveChunkSession(prev => prev ? ({ ...prev, concurrency: n }) : null)} className={`h-7 w-7 rounded-lg font-black transition-all ${chunkSession.concurrency === n ? 'bg-indigo-600 text-white' : 'bg-slate-900 text-slate-500 hover:text-white border border-slate-800'}`}>{n}</button>
+                              ))}
+                           </div>
+                        )}
                      </div>
+
+                     {counts.failed > 0 && <div className="w-full mt-6">{renderChunkJobList()}</div>}
                   </div>
                ) : (
                   // Processing State Overlay
@@ -1268,7 +2176,7 @@ const App: React.FC = () => {
                         <div className="absolute inset-0 rounded-full border-4 border-slate-800"></div>
                         <div className="absolute inset-0 rounded-full border-4 border-indigo-500 border-t-transparent animate-spin"></div>
                         <div className="absolute inset-0 flex flex-col items-center justify-center">
-                           <span className="font-black text-5xl text-white">{chunkSession.pendingChunks.length}</span>
+                           <span className="font-black text-5xl text-white">{counts.pending + counts.running}</span>
                            <span className="text-xs font-bold text-slate-500 uppercase tracking-widest mt-1">Pending</span>
                         </div>
                      </div>
@@ -1278,44 +2186,61 @@ const App: React.FC = () => {
                      <div className="bg-slate-800 rounded-2xl p-5 text-left border border-slate-700 mb-8 shadow-xl">
                         <div className="flex justify-between text-xs font-bold text-slate-400 uppercase tracking-widest mb-3">
                            <span>Queue Progress</span>
-                           <span>{Math.round((chunkSession.processedCount / (chunkSession.processedCount + chunkSession.pendingChunks.length)) * 100) || 0}%</span>
+                           <span>{progress}%</span>
                         </div>
                         <div className="h-3 bg-slate-700 rounded-full overflow-hidden">
-                           <div className="h-full bg-gradient-to-r from-indigo-500 to-purple-500 transition-all duration-500 relative" style={{ width: `${(chunkSession.processedCount / (chunkSession.processedCount + chunkSession.pendingChunks.length)) * 100}%` }}>
+                           <div className="h-full bg-gradient-to-r from-indigo-500 to-purple-500 transition-all duration-500 relative" style={{ width: `${progress}%` }}>
                               <div className="absolute inset-0 bg-white/20 animate-[pulse_2s_ease-in-out_infinite]"></div>
                            </div>
                         </div>
                      </div>
 
-                     <button onClick={() => saveChunkSession({ ...chunkSession, isProcessing: false, statusLog: 'Paused by user.' })} className="px-8 py-3 border-2 border-red-500/50 text-red-400 font-bold rounded-xl hover:bg-red-500/10 transition-colors flex items-center justify-center gap-2 mx-auto">
+                     <div className="mb-8">{renderChunkJobList()}</div>
+
+                     <button onClick={pauseChunkQueue} className="px-8 py-3 border-2 border-red-500/50 text-red-400 font-bold rounded-xl hover:bg-red-500/10 transition-colors flex items-center justify-center gap-2 mx-auto">
                         <PauseCircleIcon className="h-5 w-5" /> Pause Processing
                      </button>
                   </div>
                )}
             </div>
+            )}
          </div>
       );
    };
 
-   const handleExportExcel = () => {
-      const csvContent = "data:text/csv;charset=utf-8,"
-         + "Sl No,AWB No,Description,Type,Weight,Rate,Amount\n"
-         + rows.map(row => `${row.slNo},${row.serialNo},"${row.description}",${row.type},${row.weight},${row.rate},${row.amount}`).join("\n");
-      const encodedUri = encodeURI(csvContent);
+   // Builds the workbook and downloads it
+   const downloadWorkbook = async (sheets: XlsxSheet[], fileName: string) => {
+      const blob = await createXlsx(sheets);
+      const url = URL.createObjectURL(blob);
       const link = document.createElement("a");
-      link.setAttribute("href", encodedUri);
-      link.setAttribute("download", `${manifestMeta.manifestNo || "manifest"}.csv`);
+      link.href = url;
+      link.download = fileName;
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+   };
+
+   const handleExportExcel = async () => {
+      try {
+         const sheets = buildManifestWorkbook([{ manifestNo: manifestMeta.manifestNo, manifestDate: manifestMeta.manifestDate, rows, config }]);
+         await downloadWorkbook(sheets, `${manifestMeta.manifestNo || "manifest"}.xlsx`);
+      } catch (error) {
+         console.error("Excel export failed", error);
+         setStatus({ type: 'error', message: 'Excel export failed.' });
+      }
    };
 
    const handleExportJson = () => {
       const dataStr = "data:text/json;charset=utf-8," + encodeURIComponent(JSON.stringify({
+         schemaVersion: SCHEMA_VERSION,
          manifestNo: manifestMeta.manifestNo,
          manifestDate: manifestMeta.manifestDate,
          rows,
-         config
+         config,
+         totalAmount: manifestTotals.totalAmount,
+         charges: manifestTotals.charges,
+         tax: manifestTotals.tax
       }, null, 2));
       const link = document.createElement("a");
       link.setAttribute("href", dataStr);
@@ -1326,16 +2251,512 @@ const App: React.FC = () => {
    };
 
    const handleExportPdf = () => {
-      const doc = new jsPDF();
-      doc.text(`Manifest: ${manifestMeta.manifestNo}`, 14, 10);
-      doc.text(`Date: ${manifestMeta.manifestDate}`, 14, 16);
+      const manifest = history.find(h => h.id === activeManifestId);
+      const folder = folders.find(f => f.id === (manifest ? manifest.folderId : currentFolderId));
+      const invoiceNo = `${invoiceSettings.invoicePrefix}${manifestMeta.manifestNo || 'DRAFT'}`;
+      const doc = buildInvoicePdf({
+         invoiceNo,
+         invoiceDate: manifestMeta.manifestDate,
+         manifestNo: manifestMeta.manifestNo,
+         client: { name: folder?.clientName || folder?.name || '', address: folder?.billingAddress },
+         rows,
+         config
+      }, invoiceSettings);
+      doc.save(`${invoiceNo.replace(/[^a-z0-9-_]/gi, '_')}.pdf`);
+   };
+
+   // --- Final Bill Actions ---
+   const toggleFinalFolder = (folderId: string) => {
+      const selected = selectedFinalFolderIds.includes(folderId)
+         ? selectedFinalFolderIds.filter(id => id !== folderId)
+         : [...selectedFinalFolderIds, folderId];
+      saveFinalBillState({ selectedFolderIds: selected });
+   };
+
+   const updateFinalOverride = (manifestId: string, updates: ManifestOverride) => {
+      saveFinalBillState({
+         overrides: { ...finalBillOverrides, [manifestId]: { ...finalBillOverrides[manifestId], ...updates } }
+      });
+   };
+
+   const resetFinalOverrides = () => {
+      if (confirm("Discard all manual edits in this statement?")) {
+         const selectedIds = new Set(finalBillLines.map(l => l.manifestId));
+         const remaining = Object.fromEntries(Object.entries(finalBillOverrides).filter(([id]) => !selectedIds.has(id)));
+         saveFinalBillState({ overrides: remaining });
+      }
+   };
 
+   const finalBillFileName = () => `Final_Bill_${(reportMeta.month || 'Statement').replace(/[^a-z0-9]/gi, '_')}`;
+
+   const handleExportFinalCsv = () => {
+      const cell = (value: string | number) => `"${String(value).replace(/"/g, '""')}"`;
+      const header = ['Sl', 'Date', 'Manifest No', 'Parcels <=10kg', 'Weight (kg)', 'Parcels >10kg', 'Heavy Weights', 'Docs', 'Parcel Amount', 'Doc Amount', 'Total'];
+      const lines = finalBillLines.map((l, i) => [i + 1, l.date, l.no, l.pCount, l.pWeight, l.PCount, l.PDetail, l.dCount, l.parcelAmount.toFixed(2), l.docAmount.toFixed(2), l.totalAmount.toFixed(2)]);
+      const t = finalBillTotals;
+      lines.push(['', 'TOTAL', `${t.manifestCount} Manifests`, t.pCount, t.pWeight, t.PCount, t.heavyWeight, t.dCount, t.parcelAmount.toFixed(2), t.docAmount.toFixed(2), t.totalAmount.toFixed(2)]);
+      if (finalSurchargeLines.length) describeCharges(t.charges).forEach(cl => lines.push(['', '', '', '', '', '', '', '', '', cl.label, cl.amount.toFixed(2)]));
+      if (t.tax.totalTax) describeTax(t.tax).forEach(tl => lines.push(['', '', '', '', '', '', '', '', '', tl.label, tl.amount.toFixed(2)]));
+      const csv = [header, ...lines].map(r => r.map(cell).join(',')).join('\n');
+      const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `${finalBillFileName()}.csv`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+      setIsFinalExportOpen(false);
+   };
+
+   const handleExportDuplicateAwbsCsv = () => {
+      const cell = (value: string | number) => `"${String(value).replace(/"/g, '""')}"`;
+      const header = ['AWB', 'Manifest No', 'Date', 'Folder', 'Weight (kg)', 'Amount'];
+      const lines = finalBillDuplicates.flatMap(dup => dup.occurrences.map(o =>
+         [dup.awb, o.manifestNo, o.manifestDate, folders.find(f => f.id === o.folderId)?.name || '', o.weight, o.amount.toFixed(2)]));
+      const csv = [header, ...lines].map(r => r.map(cell).join(',')).join('\n');
+      const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `${finalBillFileName()}_duplicate_awbs.csv`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+   };
+
+   const handleExportFinalPdf = () => {
+      const doc = new jsPDF({ orientation: 'landscape' });
+      doc.setFontSize(14);
+      doc.text(`Monthly Statement${reportMeta.month ? ` - ${reportMeta.month}` : ''}`, 14, 12);
+      doc.setFontSize(10);
+      doc.text(`Agency: ${reportMeta.agency || '-'}    Area: ${reportMeta.area || '-'}`, 14, 18);
+
+      const t = finalBillTotals;
       autoTable(doc, {
-         startY: 20,
-         head: [['Sl', 'AWB', 'Desc', 'Type', 'Weight', 'Rate', 'Amount']],
-         body: rows.map(r => [r.slNo, r.serialNo, r.description, r.type, r.weight, r.rate, r.amount]),
+         startY: 22,
+         head: [['Sl', 'Date', 'Manifest No', 'P (<=10kg)', 'Wt (kg)', 'P (>10kg)', 'Heavy Weights', 'Docs', 'Parcel Amt', 'Doc Amt', 'Total']],
+         body: finalBillLines.map((l, i) => [i + 1, l.date, l.no, l.pCount, l.pWeight, l.PCount, l.PDetail || '-', l.dCount, l.parcelAmount.toFixed(2), l.docAmount.toFixed(2), l.totalAmount.toFixed(2)]),
+         foot: [
+            ['', 'TOTAL', `${t.manifestCount} Manifests`, t.pCount, t.pWeight, t.PCount, t.heavyWeight, t.dCount, t.parcelAmount.toFixed(2), t.docAmount.toFixed(2), t.totalAmount.toFixed(2)],
+            ...(finalSurchargeLines.length ? describeCharges(t.charges).map(cl => ['', '', '', '', '', '', '', '', '', cl.label, cl.amount.toFixed(2)]) : []),
+            ...(t.tax.totalTax ? describeTax(t.tax).map(tl => ['', '', '', '', '', '', '', '', '', tl.label, tl.amount.toFixed(2)]) : [])
+         ],
+         styles: { fontSize: 8 },
+      });
+      doc.save(`${finalBillFileName()}.pdf`);
+      setIsFinalExportOpen(false);
+   };
+
+   // --- Rate Card Actions ---
+   const knownClients = useMemo(() => Array.from(new Set([
+      ...folders.map(f => f.clientName || ''),
+      ...rateCards.map(c => c.clientName)
+   ].filter(Boolean))).sort(), [folders, rateCards]);
+
+   const createRateCard = () => {
+      setEditingRateCard({
+         id: crypto.randomUUID(),
+         name: '',
+         clientName: '',
+         effectiveFrom: toIsoDate(new Date()),
+         config: globalConfig,
+         createdAt: Date.now()
+      });
+   };
+
+   const saveEditingRateCard = () => {
+      if (!editingRateCard) return;
+      if (!editingRateCard.name.trim() || !editingRateCard.effectiveFrom) {
+         alert("Please enter a card name and effective date.");
+         return;
+      }
+      const card: RateCard = { ...editingRateCard, name: editingRateCard.name.trim(), clientName: editingRateCard.clientName.trim(), config: normalizeConfig(editingRateCard.config) };
+      const exists = rateCards.some(c => c.id === card.id);
+      saveRateCards(exists ? rateCards.map(c => c.id === card.id ? card : c) : [...rateCards, card]);
+      setEditingRateCard(null);
+   };
+
+   const deleteRateCard = (id: string) => {
+      if (confirm("Delete this rate card? Manifests already billed with it keep their rates.")) {
+         saveRateCards(rateCards.filter(c => c.id !== id));
+      }
+   };
+
+   const applyRateCardToManifest = (cardId: string) => {
+      const card = rateCards.find(c => c.id === cardId);
+      setConfig(card ? card.config : globalConfig);
+      setAppliedRateCard(card ? { id: card.id, name: card.name } : null);
+   };
+
+   // GST settings shared by the global defaults, rate cards and the per-manifest rates modal
+   const renderTaxEditor = (cfg: BillingConfig, onChange: (next: BillingConfig) => void) => {
+      const tax = cfg.tax || DEFAULT_TAX_CONFIG;
+      const updateTax = (updates: Partial<typeof tax>) => onChange({ ...cfg, tax: { ...tax, ...updates } });
+      const rateInput = (key: 'cgstRate' | 'sgstRate' | 'igstRate', label: string) => (
+         <div>
+            <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider block mb-1.5 ml-1">{label}</label>
+            <div className="relative"><input type="number" className="w-full pl-3 pr-8 py-2.5 bg-slate-50 border border-slate-200 rounded-xl font-bold text-slate-900 focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none transition-all" value={tax[key]} onChange={(e) => updateTax({ [key]: parseFloat(e.target.value) || 0 })} /><span className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-400 text-xs font-bold">%</span></div>
+         </div>
+      );
+
+      return (
+         <div className="space-y-4">
+            <label className="flex items-center justify-between cursor-pointer">
+               <span className="text-xs font-bold text-slate-600">Charge GST</span>
+               <input type="checkbox" checked={tax.enabled} onChange={(e) => updateTax({ enabled: e.target.checked })} className="h-4 w-4 accent-indigo-600" />
+            </label>
+            {tax.enabled && (
+               <>
+                  <div className="grid grid-cols-2 gap-2 bg-slate-100 p-1 rounded-xl">
+                     <button onClick={() => updateTax({ mode: 'intra' })} className={`py-2 rounded-lg text-[10px] font-black uppercase tracking-wider transition-all ${tax.mode === 'intra' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400'}`}>Intra-State</button>
+                     <button onClick={() => updateTax({ mode: 'inter' })} className={`py-2 rounded-lg text-[10px] font-black uppercase tracking-wider transition-all ${tax.mode === 'inter' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400'}`}>Inter-State</button>
+                  </div>
+                  <div className="grid grid-cols-2 gap-3">
+                     {tax.mode === 'intra' ? (
+                        <>
+                           {rateInput('cgstRate', 'CGST')}
+                           {rateInput('sgstRate', 'SGST')}
+                        </>
+                     ) : rateInput('igstRate', 'IGST')}
+                     <div>
+                        <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider block mb-1.5 ml-1">SAC Code</label>
+                        <input className="w-full px-3 py-2.5 bg-slate-50 border border-slate-200 rounded-xl font-bold font-mono text-slate-900 focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none transition-all" value={tax.sacCode} onChange={(e) => updateTax({ sacCode: e.target.value })} />
+                     </div>
+                  </div>
+               </>
+            )}
+         </div>
+      );
+   };
+
+   // Rule toggles, weight limits and AWB formats for the App Settings modal
+   const renderValidationRulesEditor = () => {
+      const rules = validationRules;
+      const inputClass = "w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-xs font-bold text-slate-900 focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none transition-all";
+      const updateFormat = (id: string, updates: Partial<AwbFormat>) =>
+         saveValidationRules({ ...rules, awbFormats: rules.awbFormats.map(f => f.id === id ? { ...f, ...updates } : f) });
+      const addFormat = () =>
+         saveValidationRules({ ...rules, awbFormats: [...rules.awbFormats, { id: crypto.randomUUID(), name: 'New Carrier', prefix: '', minLength: 8, maxLength: 12, charset: 'digits', checkDigit: 'none' }] });
+
+      return (
+         <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-2">
+               {(Object.keys(VALIDATION_RULE_LABELS) as ValidationRuleId[]).map(rule => (
+                  <label key={rule} className="flex items-center justify-between gap-2 bg-white p-2.5 rounded-xl border border-slate-200 cursor-pointer">
+                     <span className="text-[11px] font-bold text-slate-600">{VALIDATION_RULE_LABELS[rule]}</span>
+                     <input type="checkbox" checked={rules.enabled[rule]} onChange={(e) => saveValidationRules({ ...rules, enabled: { ...rules.enabled, [rule]: e.target.checked } })} className="h-4 w-4 accent-indigo-600" />
+                  </label>
+               ))}
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+               <div>
+                  <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider block mb-1.5 ml-1">Max Document (kg)</label>
+                  <input type="number" min="0" step="0.1" className={inputClass} value={rules.maxDocumentWeight} onChange={(e) => saveValidationRules({ ...rules, maxDocumentWeight: parseFloat(e.target.value) || 0 })} />
+               </div>
+               <div>
+                  <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider block mb-1.5 ml-1">Max Parcel (kg)</label>
+                  <input type="number" min="0" className={inputClass} value={rules.maxParcelWeight} onChange={(e) => saveValidationRules({ ...rules, maxParcelWeight: parseFloat(e.target.value) || 0 })} />
+               </div>
+            </div>
+            <div className="space-y-2">
+               <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider ml-1">AWB Formats (an AWB must fit one)</span>
+               {rules.awbFormats.map(format => (
+                  <div key={format.id} className="bg-white p-3 rounded-2xl border border-slate-200 space-y-2">
+                     <div className="flex gap-2">
+                        <input className={inputClass} value={format.name} placeholder="Carrier" onChange={(e) => updateFormat(format.id, { name: e.target.value })} />
+                        <input className={`${inputClass} w-24`} value={format.prefix} placeholder="Prefix" onChange={(e) => updateFormat(format.id, { prefix: e.target.value.trim() })} />
+                        <button onClick={() => saveValidationRules({ ...rules, awbFormats: rules.awbFormats.filter(f => f.id !== format.id) })} className="p-2 text-slate-300 hover:text-red-500 hover:bg-red-50 rounded-lg transition-colors"><TrashIcon className="h-4 w-4" /></button>
+                     </div>
+                     <div className="grid grid-cols-4 gap-2">
+                        <input type="number" min="1" className={inputClass} title="Min length" value={format.minLength} onChange={(e) => updateFormat(format.id, { minLength: parseInt(e.target.value) || 1 })} />
+                        <input type="number" min="1" className={inputClass} title="Max length" value={format.maxLength} onChange={(e) => updateFormat(format.id, { maxLength: parseInt(e.target.value) || 1 })} />
+                        <select className={inputClass} value={format.charset} onChange={(e) => updateFormat(format.id, { charset: e.target.value as AwbFormat['charset'] })}>
+                           <option value="digits">Digits</option>
+                           <option value="alphanumeric">A-Z 0-9</option>
+                        </select>
+                        <select className={inputClass} value={format.checkDigit} onChange={(e) => updateFormat(format.id, { checkDigit: e.target.value as AwbCheckDigit })}>
+                           {(Object.keys(CHECK_DIGIT_LABELS) as AwbCheckDigit[]).map(scheme => <option key={scheme} value={scheme}>{CHECK_DIGIT_LABELS[scheme]}</option>)}
+                        </select>
+                     </div>
+                  </div>
+               ))}
+               <button onClick={addFormat} className="w-full py-2.5 border-2 border-dashed border-slate-200 rounded-2xl text-xs font-bold text-slate-400 hover:text-indigo-600 hover:border-indigo-200 transition-all">+ Add AWB Format</button>
+            </div>
+         </div>
+      );
+   };
+
+   const handleInvoiceLogo = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+      if (file.type !== 'image/png' && file.type !== 'image/jpeg') {
+         setStatus({ type: 'error', message: 'Logo must be a PNG or JPEG image.' });
+         return;
+      }
+      const data = await new Promise<string>((resolve, reject) => {
+         const reader = new FileReader();
+         reader.readAsDataURL(file);
+         reader.onload = () => resolve((reader.result as string).split(',')[1]);
+         reader.onerror = reject;
       });
-      doc.save(`${manifestMeta.manifestNo || "manifest"}.pdf`);
+      saveInvoiceSettings({ logo: { data, mimeType: file.type } });
+   };
+
+   const renderInvoiceSettingsEditor = () => {
+      const settings = invoiceSettings;
+      const inputClass = "w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-xs font-bold text-slate-900 focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none transition-all";
+      const field = (key: 'companyName' | 'gstin' | 'phone' | 'email' | 'invoicePrefix' | 'bankName' | 'accountName' | 'accountNumber' | 'ifsc' | 'branch' | 'signatory', label: string) => (
+         <div key={key}>
+            <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider block mb-1.5 ml-1">{label}</label>
+            <input className={inputClass} value={settings[key]} onChange={(e) => saveInvoiceSettings({ [key]: e.target.value })} />
+         </div>
+      );
+
+      return (
+         <div className="space-y-4">
+            <div className="flex items-center gap-3 bg-white p-3 rounded-2xl border border-slate-200">
+               {settings.logo
+                  ? <img src={`data:${settings.logo.mimeType};base64,${settings.logo.data}`} alt="Logo" className="h-12 w-12 object-contain rounded-lg border border-slate-100" />
+                  : <div className="h-12 w-12 flex items-center justify-center bg-slate-50 rounded-lg border border-dashed border-slate-200"><PhotoIcon className="h-5 w-5 text-slate-300" /></div>}
+               <label className="flex-1 text-xs font-bold text-slate-600 cursor-pointer hover:text-indigo-600">{settings.logo ? 'Replace logo' : 'Upload logo (PNG/JPEG)'}<input type="file" accept="image/png,image/jpeg" className="hidden" onChange={handleInvoiceLogo} /></label>
+               {settings.logo && <button onClick={() => saveInvoiceSettings({ logo: undefined })} className="p-2 text-slate-300 hover:text-red-500 hover:bg-red-50 rounded-lg transition-colors"><TrashIcon className="h-4 w-4" /></button>}
+               <input type="color" title="Accent colour" value={settings.accentColor} onChange={(e) => saveInvoiceSettings({ accentColor: e.target.value })} className="h-9 w-9 rounded-lg border border-slate-200 cursor-pointer" />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+               {field('companyName', 'Company Name')}
+               {field('gstin', 'GSTIN')}
+               {field('phone', 'Phone')}
+               {field('email', 'Email')}
+            </div>
+            <div>
+               <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider block mb-1.5 ml-1">Company Address</label>
+               <textarea rows={2} className={`${inputClass} resize-none`} value={settings.companyAddress} onChange={(e) => saveInvoiceSettings({ companyAddress: e.target.value })} />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+               {field('invoicePrefix', 'Invoice No Prefix')}
+               {field('signatory', 'Signatory Name')}
+               {field('bankName', 'Bank')}
+               {field('accountName', 'Account Name')}
+               {field('accountNumber', 'Account No')}
+               {field('ifsc', 'IFSC')}
+               {field('branch', 'Branch')}
+            </div>
+            <div>
+               <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider block mb-1.5 ml-1">Terms</label>
+               <textarea rows={2} className={`${inputClass} resize-none`} value={settings.terms} onChange={(e) => saveInvoiceSettings({ terms: e.target.value })} />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+               <label className="flex items-center justify-between gap-2 bg-white p-2.5 rounded-xl border border-slate-200 cursor-pointer">
+                  <span className="text-[11px] font-bold text-slate-600">Breakdown column</span>
+                  <input type="checkbox" checked={settings.showBreakdown} onChange={(e) => saveInvoiceSettings({ showBreakdown: e.target.checked })} className="h-4 w-4 accent-indigo-600" />
+               </label>
+               <label className="flex items-center justify-between gap-2 bg-white p-2.5 rounded-xl border border-slate-200 cursor-pointer">
+                  <span className="text-[11px] font-bold text-slate-600">Slab summary</span>
+                  <input type="checkbox" checked={settings.showSlabSummary} onChange={(e) => saveInvoiceSettings({ showSlabSummary: e.target.checked })} className="h-4 w-4 accent-indigo-600" />
+               </label>
+            </div>
+         </div>
+      );
+   };
+
+   // Surcharge settings shared by the global defaults, rate cards and the per-manifest rates modal
+   const renderSurchargeEditor = (cfg: BillingConfig, onChange: (next: BillingConfig) => void) => {
+      const surcharges = cfg.surcharges || DEFAULT_SURCHARGE_CONFIG;
+      const field = (key: keyof typeof surcharges, label: string, unit: '₹' | '%') => (
+         <div>
+            <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider block mb-1.5 ml-1 truncate">{label}</label>
+            <div className="relative">
+               {unit === '₹' && <span className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400 text-xs font-bold">₹</span>}
+               <input type="number" min="0" className={`w-full ${unit === '₹' ? 'pl-7 pr-3' : 'pl-3 pr-8'} py-2.5 bg-slate-50 border border-slate-200 rounded-xl font-bold text-slate-900 focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none transition-all`} value={surcharges[key] || ''} placeholder="0" onChange={(e) => onChange({ ...cfg, surcharges: { ...surcharges, [key]: parseFloat(e.target.value) || 0 } })} />
+               {unit === '%' && <span className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-400 text-xs font-bold">%</span>}
+            </div>
+         </div>
+      );
+
+      return (
+         <div className="grid grid-cols-2 gap-3">
+            {field('minimumCharge', 'Min Charge / Parcel', '₹')}
+            {field('fuelPercent', 'Fuel Surcharge', '%')}
+            {field('handlingFee', 'Handling / Parcel', '₹')}
+            {field('codFee', 'COD Fee / AWB', '₹')}
+            {field('odaCharge', 'ODA / AWB', '₹')}
+            {field('manifestFee', 'Per Manifest', '₹')}
+         </div>
+      );
+   };
+
+   // Tier editor shared by the global defaults and the per-manifest rates modal
+   const renderSlabEditor = (cfg: BillingConfig, onChange: (next: BillingConfig) => void) => {
+      const updateSlab = (index: number, updates: Partial<ParcelSlab>) =>
+         onChange({ ...cfg, parcelSlabs: cfg.parcelSlabs.map((slab, i) => i === index ? { ...slab, ...updates } : slab) });
+
+      const addSlab = () => {
+         // New bounded tier is inserted just before the open-ended one
+         const bounded = cfg.parcelSlabs.filter(slab => slab.upTo !== null);
+         const openEnded = cfg.parcelSlabs.filter(slab => slab.upTo === null);
+         const lastBound = bounded[bounded.length - 1]?.upTo ?? 0;
+         onChange({ ...cfg, parcelSlabs: [...bounded, { upTo: lastBound + 10, rate: openEnded[0]?.rate ?? 0 }, ...openEnded] });
+      };
+
+      const removeSlab = (index: number) => onChange({ ...cfg, parcelSlabs: cfg.parcelSlabs.filter((_, i) => i !== index) });
+
+      const rounding = cfg.weightRounding || DEFAULT_WEIGHT_ROUNDING;
+      const updateRounding = (updates: Partial<WeightRoundingRule>) =>
+         onChange({ ...cfg, weightRounding: { ...rounding, ...updates } });
+
+      return (
+         <div className="space-y-3">
+            {cfg.parcelSlabs.map((slab, index) => (
+               <div key={index} className="flex items-end gap-2">
+                  <div className="w-24 flex-shrink-0">
+                     <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider block mb-1.5 ml-1 truncate">Slab {index + 1}</label>
+                     {slab.upTo === null ? (
+                        <div className="px-3 py-2.5 bg-slate-100 border border-slate-200 rounded-xl font-bold text-slate-400 text-xs text-center">{formatSlabLabel(cfg.parcelSlabs, index)}</div>
+                     ) : (
+                        <div className="relative"><input type="number" min="0" className="w-full pl-3 pr-8 py-2.5 bg-slate-50 border border-slate-200 rounded-xl font-bold text-slate-900 focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none transition-all" value={slab.upTo} onChange={(e) => updateSlab(index, { upTo: parseFloat(e.target.value) || 0 })} /><span className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-400 text-[10px] font-bold">kg</span></div>
+                     )}
+                  </div>
+                  <div className="flex-1">
+                     <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider block mb-1.5 ml-1">Rate / kg</label>
+                     <div className="relative"><span className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400 font-bold">₹</span><input type="number" className="w-full pl-8 pr-4 py-2.5 bg-slate-50 border border-slate-200 rounded-xl font-bold text-slate-900 focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none transition-all" value={slab.rate} onChange={(e) => updateSlab(index, { rate: parseFloat(e.target.value) || 0 })} /></div>
+                  </div>
+                  {slab.upTo !== null ? (
+                     <button onClick={() => removeSlab(index)} className="p-2.5 mb-0.5 text-slate-300 hover:text-red-500 hover:bg-red-50 rounded-xl transition-all" title="Remove tier"><TrashIcon className="h-4 w-4" /></button>
+                  ) : <div className="w-9 flex-shrink-0"></div>}
+               </div>
+            ))}
+            <button onClick={addSlab} className="w-full py-2 text-[10px] font-black uppercase tracking-widest text-indigo-500 hover:text-indigo-700 border border-dashed border-indigo-200 hover:border-indigo-400 rounded-xl transition-all">+ Add Tier</button>
+            <div className="pt-3 border-t border-slate-100">
+               <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider block mb-1.5 ml-1">Volumetric Divisor (cm³ per kg, 0 = off)</label>
+               <input type="number" min="0" className="w-full px-4 py-2.5 bg-slate-50 border border-slate-200 rounded-xl font-bold text-slate-900 focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none transition-all" placeholder="e.g. 5000" value={cfg.volumetricDivisor || ''} onChange={(e) => onChange({ ...cfg, volumetricDivisor: parseFloat(e.target.value) || 0 })} />
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+               <div>
+                  <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider block mb-1.5 ml-1 truncate">Round Step (kg)</label>
+                  <input type="number" min="0" step="0.001" className="w-full px-3 py-2.5 bg-slate-50 border border-slate-200 rounded-xl font-bold text-slate-900 focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none transition-all" value={rounding.step} onChange={(e) => updateRounding({ step: parseFloat(e.target.value) || 0 })} />
+               </div>
+               <div>
+                  <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider block mb-1.5 ml-1 truncate">Mode</label>
+                  <select className="w-full px-3 py-2.5 bg-slate-50 border border-slate-200 rounded-xl font-bold text-slate-900 focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none transition-all" value={rounding.mode} onChange={(e) => updateRounding({ mode: e.target.value as WeightRoundingRule['mode'] })}>
+                     <option value="ceil">Round Up</option>
+                     <option value="nearest">Nearest</option>
+                     <option value="floor">Round Down</option>
+                  </select>
+               </div>
+               <div>
+                  <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider block mb-1.5 ml-1 truncate">Tolerance (kg)</label>
+                  <input type="number" min="0" step="0.01" disabled={rounding.mode !== 'ceil'} className="w-full px-3 py-2.5 bg-slate-50 border border-slate-200 rounded-xl font-bold text-slate-900 focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none transition-all disabled:opacity-40" value={rounding.tolerance} onChange={(e) => updateRounding({ tolerance: parseFloat(e.target.value) || 0 })} />
+               </div>
+            </div>
+            <p className="text-[10px] text-slate-400 font-medium">Rounding applies to parcels. Documents always bill the flat document rate.</p>
+         </div>
+      );
+   };
+
+   // --- Row Review ---
+   const flagMessage = (row: BillingRow, field: ReviewField) => row.flags?.find(f => f.field === field)?.message;
+   const findingMessages = (row: BillingRow, field: ParsingError['field']) => findingsByCell.get(`${row.id}:${field}`) || [];
+   // Review flags (amber) take precedence over validation findings (rose)
+   const cellHighlightClass = (row: BillingRow, field: ReviewField) => {
+      if (flagMessage(row, field)) {
+         return currentReviewIssue?.rowId === row.id && currentReviewIssue.field === field ? 'ring-2 ring-amber-500 bg-amber-100 rounded' : 'ring-1 ring-amber-300 bg-amber-50 rounded';
+      }
+      return field !== 'type' && findingMessages(row, field).length ? 'ring-1 ring-rose-300 bg-rose-50 rounded' : '';
+   };
+   const cellNotice = (row: BillingRow, field: ReviewField) =>
+      [flagMessage(row, field), ...(field === 'type' ? [] : findingMessages(row, field))].filter(Boolean).join('\n') || undefined;
+
+   const renderValidationFindings = () => {
+      const shown = showAllFindings ? validationFindings : validationFindings.slice(0, 5);
+      return (
+         <div className="bg-rose-50 border border-rose-200 rounded-2xl p-4 text-xs text-rose-800 space-y-1">
+            <div className="flex items-center justify-between">
+               <span className="font-black uppercase tracking-wider">{validationFindings.length} Validation Finding{validationFindings.length === 1 ? '' : 's'}</span>
+               {validationFindings.length > 5 && <button onClick={() => setShowAllFindings(!showAllFindings)} className="font-bold text-rose-600 hover:text-rose-800">{showAllFindings ? 'Show less' : `Show all ${validationFindings.length}`}</button>}
+            </div>
+            {shown.map((finding, i) => {
+               const related = finding.relatedManifestId ? history.find(h => h.id === finding.relatedManifestId) : undefined;
+               return (
+                  <div key={i} className="flex items-center gap-2">
+                     <button onClick={() => { setSelectedRowId(finding.rowId); if (finding.field !== 'slNo') document.getElementById(reviewCellId(finding.rowId, finding.field))?.focus(); }} className="text-left font-medium hover:underline">
+                        • {finding.message}
+                     </button>
+                     {related && <button onClick={() => openManifestFromHistory(related)} className="shrink-0 px-2 py-0.5 rounded bg-white border border-rose-200 text-[10px] font-black text-rose-600 hover:bg-rose-100">Open {related.manifestNo}</button>}
+                  </div>
+               );
+            })}
+         </div>
+      );
+   };
+
+   const renderReviewBar = () => {
+      if (reviewIssues.length === 0) {
+         return (
+            <div className="bg-emerald-50 border border-emerald-200 rounded-2xl p-4 flex items-center justify-between text-xs">
+               <span className="font-black text-emerald-800 uppercase tracking-wider flex items-center gap-2"><CheckCircleIcon className="h-5 w-5" /> All flagged cells reviewed</span>
+               <button onClick={() => setReviewIndex(null)} className="px-4 py-2 rounded-lg bg-white border border-emerald-200 font-bold text-emerald-700">Done</button>
+            </div>
+         );
+      }
+      const position = reviewIssues.indexOf(currentReviewIssue);
+      const issue = currentReviewIssue;
+      return (
+         <div className="bg-amber-50 border border-amber-200 rounded-2xl p-4 flex flex-col md:flex-row md:items-center justify-between gap-3 text-xs">
+            <div className="text-amber-800">
+               <span className="font-black uppercase tracking-wider">Issue {position + 1} of {reviewIssues.length}</span>
+               <span className="mx-2 text-amber-300">|</span>
+               <span className="font-bold">Row {issue.rowIndex + 1} · {REVIEW_FIELD_LABELS[issue.field]}</span>
+               <span className="ml-2 font-medium">{issue.message}</span>
+            </div>
+            <div className="flex gap-2">
+               <button onClick={() => acceptReviewIssue(issue.rowId, issue.field)} className="px-4 py-2 rounded-lg bg-amber-500 text-white font-black hover:bg-amber-600 transition-all">Accept Value</button>
+               <button onClick={() => setReviewIndex((position + 1) % reviewIssues.length)} className="px-4 py-2 rounded-lg bg-white border border-amber-200 font-bold text-amber-700 hover:bg-amber-100 transition-all">Next Issue</button>
+               <button onClick={() => setReviewIndex(null)} className="px-4 py-2 rounded-lg font-bold text-slate-500 hover:text-slate-800 transition-all">Exit</button>
+            </div>
+         </div>
+      );
+   };
+
+   const renderSourceViewer = () => {
+      const selectedSource = rows.find(r => r.id === selectedRowId)?.source;
+      return (
+         <div className="w-full lg:w-[45%] bg-white rounded-3xl shadow-sm border border-slate-200 overflow-hidden flex flex-col">
+            <div className="flex items-center justify-between px-4 py-3 border-b border-slate-100">
+               <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest flex items-center gap-2"><PhotoIcon className="h-4 w-4" /> Source Pages {sourcePages ? `(${sourcePages.length})` : ''}</span>
+               <div className="flex items-center gap-1">
+                  <button onClick={() => setSourceZoom(z => Math.max(0.5, z - 0.25))} className="p-1.5 text-slate-400 hover:text-indigo-600 rounded-lg hover:bg-slate-50"><MagnifyingGlassMinusIcon className="h-4 w-4" /></button>
+                  <span className="text-[10px] font-mono font-bold text-slate-500 w-10 text-center">{Math.round(sourceZoom * 100)}%</span>
+                  <button onClick={() => setSourceZoom(z => Math.min(4, z + 0.25))} className="p-1.5 text-slate-400 hover:text-indigo-600 rounded-lg hover:bg-slate-50"><MagnifyingGlassPlusIcon className="h-4 w-4" /></button>
+                  <button onClick={() => setIsSourceViewerOpen(false)} className="p-1.5 text-slate-400 hover:text-slate-800 rounded-lg hover:bg-slate-50 ml-1"><XMarkIcon className="h-4 w-4" /></button>
+               </div>
+            </div>
+            <div className="overflow-auto flex-1 bg-slate-100 p-3 space-y-3 max-h-[75vh]">
+               {!sourcePages && <p className="text-xs text-slate-400 font-medium text-center py-10">Loading pages...</p>}
+               {sourcePages?.length === 0 && <p className="text-xs text-slate-400 font-medium text-center py-10">The source pages for this manifest are no longer stored.</p>}
+               {sourcePages?.map((page, i) => {
+                  const box = selectedSource?.page === i && page.mimeType.startsWith('image/') ? selectedSource.box : undefined;
+                  return (
+                     <div key={i} id={`source-page-${i}`} className="relative mx-auto bg-white shadow-sm" style={{ width: `${sourceZoom * 100}%` }}>
+                        {page.mimeType.startsWith('image/')
+                           ? <img src={`data:${page.mimeType};base64,${page.data}`} alt={`Page ${i + 1}`} className="w-full block" />
+                           : page.mimeType === 'application/pdf'
+                              ? <>
+                                 <p className="text-[10px] text-slate-400 font-medium text-center py-1.5">Row regions are highlighted on image uploads only.</p>
+                                 <object data={`data:application/pdf;base64,${page.data}`} type="application/pdf" className="w-full h-[70vh]" />
+                              </>
+                              : <p className="text-xs text-slate-400 font-medium text-center py-10">No preview for {page.mimeType || 'this file type'}.</p>}
+                        {box && (
+                           <div id={`source-region-${selectedRowId}`} className="absolute border-2 border-amber-500 bg-amber-300/20 rounded pointer-events-none"
+                              style={{ top: `${box.top * 100}%`, left: `${box.left * 100}%`, width: `${(box.right - box.left) * 100}%`, height: `${(box.bottom - box.top) * 100}%` }} />
+                        )}
+                     </div>
+                  );
+               })}
+            </div>
+         </div>
+      );
    };
 
    const renderBillingEditor = () => (
@@ -1350,58 +2771,152 @@ const App: React.FC = () => {
                   <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest block mb-1.5 ml-1">Date</label>
                   <input type="date" className="font-bold text-slate-600 bg-slate-50 border border-slate-200 focus:border-indigo-500 rounded-xl px-4 py-2.5 transition-all outline-none" value={manifestMeta.manifestDate} onChange={(e) => setManifestMeta({ ...manifestMeta, manifestDate: e.target.value })} />
                </div>
+               <div className="relative group">
+                  <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest block mb-1.5 ml-1">Rate Card</label>
+                  <button onClick={() => setIsConfigOpen(true)} className={`flex items-center gap-2 px-4 py-2.5 rounded-xl border font-bold text-sm transition-all ${appliedRateCard ? 'bg-indigo-50 border-indigo-100 text-indigo-700 hover:border-indigo-300' : 'bg-slate-50 border-slate-200 text-slate-500 hover:border-slate-300'}`}>
+                     <ScaleIcon className="h-4 w-4" /> {appliedRateCard ? appliedRateCard.name : 'Default Rates'}
+                  </button>
+               </div>
             </div>
             <div className="flex gap-2">
                <button onClick={() => setIsConfigOpen(true)} className="p-3.5 rounded-xl bg-white border border-slate-200 text-slate-500 hover:text-indigo-600 hover:border-indigo-200 shadow-sm hover:shadow-md transition-all"><ScaleIcon className="h-5 w-5" /></button>
-               <button onClick={saveManifest} className="px-6 py-3.5 rounded-xl bg-indigo-600 text-white font-black hover:bg-indigo-700 shadow-lg shadow-indigo-200 hover:-translate-y-0.5 active:translate-y-0 transition-all flex items-center gap-2">
+               {activeSourcePagesId && (
+                  <button onClick={() => setIsSourceViewerOpen(open => !open)} title="Show source pages" className={`p-3.5 rounded-xl border shadow-sm transition-all ${isSourceViewerOpen ? 'bg-indigo-50 border-indigo-200 text-indigo-600' : 'bg-white border-slate-200 text-slate-500 hover:text-indigo-600'}`}><PhotoIcon className="h-5 w-5" /></button>
+               )}
+               {reviewIssues.length > 0 && reviewIndex === null && (
+                  <button onClick={() => setReviewIndex(0)} className="px-4 py-3.5 rounded-xl bg-amber-50 border border-amber-200 text-amber-700 font-black text-sm hover:bg-amber-100 transition-all flex items-center gap-2">
+                     <ExclamationTriangleIcon className="h-5 w-5" /> Review {reviewIssues.length}
+                  </button>
+               )}
+               {manifestStatus === 'final' ? (
+                  <button onClick={() => saveManifest('draft')} title="Reopen as draft" className="px-4 py-3.5 rounded-xl bg-emerald-50 border border-emerald-200 text-emerald-700 font-black text-sm hover:bg-emerald-100 transition-all flex items-center gap-2">
+                     <CheckCircleIcon className="h-5 w-5" /> Final
+                  </button>
+               ) : (
+                  <button onClick={markManifestFinal} title={reviewIssues.length ? 'Resolve all flagged cells first' : 'Save and mark final'} className={`px-4 py-3.5 rounded-xl border font-black text-sm transition-all ${reviewIssues.length ? 'bg-slate-50 border-slate-200 text-slate-400' : 'bg-white border-slate-200 text-slate-700 hover:border-emerald-300 hover:text-emerald-700'}`}>
+                     Mark Final
+                  </button>
+               )}
+               <button onClick={() => saveManifest()} className="px-6 py-3.5 rounded-xl bg-indigo-600 text-white font-black hover:bg-indigo-700 shadow-lg shadow-indigo-200 hover:-translate-y-0.5 active:translate-y-0 transition-all flex items-center gap-2">
                   <CheckCircleIcon className="h-5 w-5" /> Save Manifest
                </button>
             </div>
          </div>
 
-         <div className="bg-white rounded-3xl shadow-sm border border-slate-200 overflow-hidden flex-1 flex flex-col">
-            <div className="overflow-auto flex-1">
-               <table className="w-full text-left border-collapse">
-                  <thead className="sticky top-0 z-10">
-                     <tr className="bg-slate-50/90 backdrop-blur-sm border-b border-slate-200 text-xs font-bold text-slate-500 uppercase tracking-wider">
-                        <th className="p-4 w-16 text-center">#</th>
-                        <th className="p-4">AWB / Serial</th>
-                        <th className="p-4">Description</th>
-                        <th className="p-4">Type</th>
-                        <th className="p-4 text-right">Weight</th>
-                        <th className="p-4 text-right">Rate</th>
-                        <th className="p-4 text-right">Amount</th>
-                        <th className="p-4 w-10"></th>
-                     </tr>
-                  </thead>
-                  <tbody className="divide-y divide-slate-100">
-                     {rows.map((row, idx) => (
-                        <tr key={row.id} className="hover:bg-indigo-50/30 transition-colors group">
-                           <td className="p-4 font-bold text-slate-400 text-center">{idx + 1}</td>
-                           <td className="p-4"><input className="w-full bg-transparent font-bold text-slate-900 border-b border-transparent focus:border-indigo-500 rounded-none px-1 outline-none transition-colors" value={row.serialNo} onChange={(e) => updateRow(row.id, { serialNo: e.target.value })} /></td>
-                           <td className="p-4"><input className="w-full bg-transparent font-medium text-slate-600 border-b border-transparent focus:border-indigo-500 rounded-none px-1 outline-none transition-colors" value={row.description} onChange={(e) => updateRow(row.id, { description: e.target.value })} /></td>
-                           <td className="p-4">
-                              <button onClick={() => updateRow(row.id, { type: row.type === ItemType.PARCEL ? ItemType.DOCUMENT : ItemType.PARCEL })} className={`px-2.5 py-1 rounded-md text-[10px] font-black uppercase tracking-wide border ${row.type === ItemType.PARCEL ? 'bg-indigo-50 text-indigo-700 border-indigo-100' : 'bg-emerald-50 text-emerald-700 border-emerald-100'}`}>{row.type}</button>
-                           </td>
-                           <td className="p-4"><input type="number" className="w-full bg-transparent text-right font-mono font-bold text-slate-700 border-b border-transparent focus:border-indigo-500 rounded-none px-1 outline-none transition-colors" value={row.weight} onChange={(e) => updateRow(row.id, { weight: parseFloat(e.target.value) || 0 })} /></td>
-                           <td className="p-4 text-right font-mono text-slate-400 text-xs">{row.breakdown}</td>
-                           <td className="p-4 text-right font-mono font-black text-slate-900">₹{row.amount.toFixed(2)}</td>
-                           <td className="p-4"><button onClick={() => deleteRow(row.id)} className="text-slate-300 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-all p-1 hover:bg-red-50 rounded"><TrashIcon className="h-4 w-4" /></button></td>
+         {totalsCheck && !totalsCheck.matched && (
+            <div className="bg-rose-50 border-2 border-rose-200 rounded-2xl p-4 flex items-start gap-3">
+               <ExclamationTriangleIcon className="h-5 w-5 text-rose-500 shrink-0 mt-0.5" />
+               <div className="text-xs text-rose-800 space-y-1">
+                  <div className="font-black uppercase tracking-wider">Rows don't match the printed totals</div>
+                  {totalsCheck.mismatches.map(m => <p key={m.field} className="font-medium">• {describeMismatch(m)}</p>)}
+                  <p className="font-medium text-rose-600">Compare the table with the original manifest; rows may have been missed or read twice.</p>
+               </div>
+            </div>
+         )}
+
+         {(activeExtraction?.lowConfidence || errors.length > 0) && (
+            <div className="bg-amber-50 border border-amber-200 rounded-2xl p-4 flex items-start gap-3">
+               <ExclamationTriangleIcon className="h-5 w-5 text-amber-500 shrink-0 mt-0.5" />
+               <div className="text-xs text-amber-800 space-y-1">
+                  {activeExtraction?.lowConfidence && (
+                     <>
+                        <div className="font-black uppercase tracking-wider">
+                           Extracted by {activeExtraction.provider}, low confidence{typeof activeExtraction.confidence === 'number' ? ` (${Math.round(activeExtraction.confidence * 100)}%)` : ''}
+                        </div>
+                        <p className="font-medium">Check every AWB, weight and type against the original manifest before billing.</p>
+                     </>
+                  )}
+                  {errors.map((err, i) => <p key={i} className="font-medium text-amber-700">• {err.message}</p>)}
+               </div>
+            </div>
+         )}
+
+         {validationFindings.length > 0 && renderValidationFindings()}
+
+         {reviewIndex !== null && renderReviewBar()}
+
+         <div className="flex flex-col lg:flex-row gap-4 flex-1">
+            <div className="bg-white rounded-3xl shadow-sm border border-slate-200 overflow-hidden flex-1 flex flex-col">
+               <div className="overflow-auto flex-1">
+                  <table className="w-full text-left border-collapse">
+                     <thead className="sticky top-0 z-10">
+                        <tr className="bg-slate-50/90 backdrop-blur-sm border-b border-slate-200 text-xs font-bold text-slate-500 uppercase tracking-wider">
+                           <th className="p-4 w-16 text-center">#</th>
+                           <th className="p-4">AWB / Serial</th>
+                           <th className="p-4">Description</th>
+                           <th className="p-4">Type</th>
+                           <th className="p-4 text-right">Weight</th>
+                           <th className="p-4 text-center">L×W×H (cm)</th>
+                           <th className="p-4 text-right">Rate</th>
+                           <th className="p-4 text-right">Amount</th>
+                           <th className="p-4 w-10"></th>
                         </tr>
-                     ))}
-                  </tbody>
-               </table>
+                     </thead>
+                     <tbody className="divide-y divide-slate-100">
+                        {rows.map((row, idx) => (
+                           <tr key={row.id} onClick={() => setSelectedRowId(row.id)} className={`${selectedRowId === row.id && activeSourcePagesId ? 'bg-indigo-50/60' : 'hover:bg-indigo-50/30'} transition-colors group`}>
+                              <td className="p-4 font-bold text-slate-400 text-center">
+                                 {idx + 1}
+                                 {findingMessages(row, 'slNo').length > 0 && <div title={findingMessages(row, 'slNo').join('\n')} className="mt-1 px-1 rounded bg-rose-50 text-rose-600 text-[9px] font-black ring-1 ring-rose-300">SL {row.slNo}</div>}
+                              </td>
+                              <td className="p-4"><input id={reviewCellId(row.id, 'serialNo')} title={cellNotice(row, 'serialNo')} className={`w-full bg-transparent font-bold text-slate-900 border-b border-transparent focus:border-indigo-500 rounded-none px-1 outline-none transition-colors ${cellHighlightClass(row, 'serialNo')}`} value={row.serialNo} onChange={(e) => updateRow(row.id, { serialNo: e.target.value })} /></td>
+                              <td className="p-4"><input className="w-full bg-transparent font-medium text-slate-600 border-b border-transparent focus:border-indigo-500 rounded-none px-1 outline-none transition-colors" value={row.description} onChange={(e) => updateRow(row.id, { description: e.target.value })} /></td>
+                              <td className="p-4">
+                                 <button id={reviewCellId(row.id, 'type')} title={cellNotice(row, 'type')} onClick={() => updateRow(row.id, { type: row.type === ItemType.PARCEL ? ItemType.DOCUMENT : ItemType.PARCEL })} className={`px-2.5 py-1 rounded-md text-[10px] font-black uppercase tracking-wide border ${row.type === ItemType.PARCEL ? 'bg-indigo-50 text-indigo-700 border-indigo-100' : 'bg-emerald-50 text-emerald-700 border-emerald-100'} ${cellHighlightClass(row, 'type')}`}>{row.type}</button>
+                                 <div className="flex gap-1 mt-1.5">
+                                    <button onClick={() => updateRow(row.id, { isCod: !row.isCod })} className={`px-1.5 py-0.5 rounded text-[9px] font-black uppercase border transition-all ${row.isCod ? 'bg-amber-50 text-amber-700 border-amber-200' : 'text-slate-300 border-slate-100 hover:text-slate-500'}`} title="Cash on delivery">COD</button>
+                                    <button onClick={() => updateRow(row.id, { isOda: !row.isOda })} className={`px-1.5 py-0.5 rounded text-[9px] font-black uppercase border transition-all ${row.isOda ? 'bg-rose-50 text-rose-700 border-rose-200' : 'text-slate-300 border-slate-100 hover:text-slate-500'}`} title="Out of delivery area">ODA</button>
+                                 </div>
+                              </td>
+                              <td className="p-4"><input id={reviewCellId(row.id, 'weight')} title={cellNotice(row, 'weight')} type="number" className={`w-full bg-transparent text-right font-mono font-bold text-slate-700 border-b border-transparent focus:border-indigo-500 rounded-none px-1 outline-none transition-colors ${cellHighlightClass(row, 'weight')}`} value={row.weight} onChange={(e) => updateRow(row.id, { weight: parseFloat(e.target.value) || 0 })} /></td>
+                              <td className="p-4">
+                                 {row.type === ItemType.PARCEL && (
+                                    <div className="flex items-center justify-center gap-0.5 font-mono text-xs text-slate-500">
+                                       {(['length', 'width', 'height'] as const).map((dim, i) => (
+                                          <React.Fragment key={dim}>
+                                             {i > 0 && <span className="text-slate-300">×</span>}
+                                             <input type="number" min="0" className="w-10 bg-transparent text-center border-b border-transparent focus:border-indigo-500 hover:border-slate-200 rounded-none outline-none transition-colors" placeholder="-" value={row[dim] ?? ''} onChange={(e) => updateRow(row.id, { [dim]: parseFloat(e.target.value) || undefined })} />
+                                          </React.Fragment>
+                                       ))}
+                                    </div>
+                                 )}
+                              </td>
+                              <td className="p-4 text-right font-mono text-slate-400 text-xs">{row.breakdown}</td>
+                              <td className="p-4 text-right font-mono font-black text-slate-900">₹{row.amount.toFixed(2)}</td>
+                              <td className="p-4"><button onClick={() => deleteRow(row.id)} className="text-slate-300 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-all p-1 hover:bg-red-50 rounded"><TrashIcon className="h-4 w-4" /></button></td>
+                           </tr>
+                        ))}
+                     </tbody>
+                  </table>
+               </div>
+               <button onClick={addRow} className="w-full py-4 text-center text-xs font-bold text-slate-400 hover:text-indigo-600 hover:bg-slate-50 transition-colors border-t border-slate-100">+ Add Line Item</button>
             </div>
-            <button onClick={addRow} className="w-full py-4 text-center text-xs font-bold text-slate-400 hover:text-indigo-600 hover:bg-slate-50 transition-colors border-t border-slate-100">+ Add Line Item</button>
+            {activeSourcePagesId && isSourceViewerOpen && renderSourceViewer()}
          </div>
 
          <div className="bg-slate-900 text-white p-6 rounded-3xl flex justify-between items-center shadow-2xl shadow-indigo-900/20">
             <div>
-               <div className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-1">Total Payable</div>
+               <div className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-1">Total Payable{config.tax?.enabled ? ' (incl. GST)' : ''}</div>
                <div className="text-3xl font-black tracking-tight flex items-baseline">
                   <span className="text-lg text-slate-500 mr-1">₹</span>
-                  {totalAmount.toLocaleString()}
+                  {(config.tax?.enabled ? manifestTotals.tax.grandTotal : totalAmount).toLocaleString()}
                </div>
+               {manifestSurchargeLines.length > 0 && (
+                  <div className="flex flex-wrap gap-x-4 gap-y-1 mt-2 text-[11px] font-bold text-slate-400">
+                     <span>Freight: <span className="text-slate-200 font-mono">₹{manifestTotals.charges.freight.toFixed(2)}</span></span>
+                     {manifestSurchargeLines.map(line => (
+                        <span key={line.key}>{line.label}: <span className="text-slate-200 font-mono">₹{line.amount.toFixed(2)}</span></span>
+                     ))}
+                  </div>
+               )}
+               {config.tax?.enabled && (
+                  <div className="flex flex-wrap gap-x-4 gap-y-1 mt-2 text-[11px] font-bold text-slate-400">
+                     {describeTax(manifestTotals.tax, config.tax).filter(line => line.label !== 'Grand Total').map(line => (
+                        <span key={line.label}>{line.label}: <span className="text-slate-200 font-mono">₹{line.amount.toFixed(2)}</span></span>
+                     ))}
+                     <span>SAC: <span className="text-slate-200 font-mono">{config.tax.sacCode}</span></span>
+                  </div>
+               )}
             </div>
             <div className="text-right">
                <div className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-1">{rows.length} Items</div>
@@ -1439,7 +2954,7 @@ const App: React.FC = () => {
             {!currentFolderId && folders.map(folder => (
                <div key={folder.id} onClick={() => setCurrentFolderId(folder.id)} className="aspect-square rounded-[1.5rem] bg-gradient-to-br from-white to-slate-50 border border-slate-200 shadow-sm hover:shadow-xl hover:-translate-y-1 transition-all p-5 flex flex-col justify-between cursor-pointer group relative">
                   <div className="absolute top-3 right-3 opacity-0 group-hover:opacity-100 transition-opacity flex gap-1">
-                     <button onClick={(e) => { e.stopPropagation(); setEditingFolderId(folder.id); setNewFolderName(folder.name); setIsCreateFolderOpen(true); }} className="p-1.5 hover:bg-white rounded-lg shadow-sm border border-transparent hover:border-slate-200"><PencilIcon className="h-3.5 w-3.5 text-slate-400" /></button>
+                     <button onClick={(e) => { e.stopPropagation(); setEditingFolderId(folder.id); setNewFolderName(folder.name); setNewFolderClient(folder.clientName || ''); setNewFolderAddress(folder.billingAddress || ''); setIsCreateFolderOpen(true); }} className="p-1.5 hover:bg-white rounded-lg shadow-sm border border-transparent hover:border-slate-200"><PencilIcon className="h-3.5 w-3.5 text-slate-400" /></button>
                      <button onClick={(e) => { e.stopPropagation(); handleDeleteFolder(folder.id); }} className="p-1.5 hover:bg-red-50 rounded-lg shadow-sm border border-transparent hover:border-red-100"><TrashIcon className="h-3.5 w-3.5 text-red-400" /></button>
                   </div>
                   <div className="w-12 h-12 rounded-2xl bg-indigo-100 flex items-center justify-center text-indigo-500 group-hover:bg-indigo-600 group-hover:text-white transition-colors shadow-inner">
@@ -1447,6 +2962,7 @@ const App: React.FC = () => {
                   </div>
                   <div>
                      <div className="font-bold text-slate-800 truncate text-sm mb-1">{folder.name}</div>
+                     {folder.clientName && <div className="text-[10px] text-indigo-500 font-bold truncate mb-1">{folder.clientName}</div>}
                      <div className="text-[10px] text-slate-400 font-bold uppercase tracking-wide bg-white px-2 py-1 rounded-md inline-block border border-slate-100">{history.filter(h => h.folderId === folder.id).length} Items</div>
                   </div>
                </div>
@@ -1470,6 +2986,11 @@ const App: React.FC = () => {
                               <span className="bg-slate-100 px-2 py-0.5 rounded text-slate-600">{item.manifestDate}</span>
                               <span>•</span>
                               <span className="text-emerald-600 font-bold">₹{item.totalAmount.toLocaleString()}</span>
+                              {item.extraction?.lowConfidence && <span className="bg-amber-100 text-amber-700 px-2 py-0.5 rounded font-bold" title={`Extracted by ${item.extraction.provider}`}>Low confidence</span>}
+                              {item.totalsCheck?.matched === false && <span className="bg-rose-100 text-rose-700 px-2 py-0.5 rounded font-bold" title={item.totalsCheck.mismatches.map(describeMismatch).join('\n')}>Totals mismatch</span>}
+                              {item.status === 'final'
+                                 ? <span className="bg-emerald-50 text-emerald-700 px-2 py-0.5 rounded font-bold">Final</span>
+                                 : countOpenFlags(item.rows) > 0 && <span className="bg-amber-50 text-amber-700 px-2 py-0.5 rounded font-bold">{countOpenFlags(item.rows)} to review</span>}
                            </div>
                         </div>
                      </div>
@@ -1505,16 +3026,243 @@ const App: React.FC = () => {
       </div>
    );
 
+   const renderFinalCell = (line: FinalBillLine, field: keyof ManifestOverride, fontSize: number, className: string, isText = false) => {
+      const value = line[field];
+      if (!isFinalBillEditing) {
+         return <td className={`p-3 ${className}`} style={{ fontSize }}>{value === '' ? '-' : value}</td>;
+      }
+      // Numbers are kept as typed (empty, "1.") and only parsed when the cell loses focus
+      const draftKey = `${line.manifestId}:${field}`;
+      const commitDraft = () => {
+         const draft = finalCellDrafts[draftKey];
+         if (draft === undefined) return;
+         const { [draftKey]: _committed, ...rest } = finalCellDrafts;
+         setFinalCellDrafts(rest);
+         const parsed = parseFloat(draft);
+         updateFinalOverride(line.manifestId, { [field]: isFinite(parsed) ? parsed : 0 });
+      };
+      return (
+         <td className={`p-1.5 ${className}`}>
+            <input
+               className={`w-full bg-amber-50/60 border border-amber-200 focus:border-indigo-500 rounded-lg px-2 py-1 outline-none ${isText ? '' : 'text-right font-mono'}`}
+               style={{ fontSize }}
+               inputMode={isText ? undefined : 'decimal'}
+               value={isText ? value : finalCellDrafts[draftKey] ?? value}
+               onChange={(e) => isText
+                  ? updateFinalOverride(line.manifestId, { [field]: e.target.value })
+                  : setFinalCellDrafts({ ...finalCellDrafts, [draftKey]: e.target.value })}
+               onBlur={isText ? undefined : commitDraft}
+               onKeyDown={(e) => e.key === 'Enter' && !isText && commitDraft()}
+            />
+         </td>
+      );
+   };
+
    const renderFinalBillingSection = () => (
-      <div className="p-4 md:p-6 text-center text-slate-400">
-         <div className="bg-white p-12 rounded-[2.5rem] border border-slate-200 shadow-xl max-w-lg mx-auto mt-10">
-            <div className="w-20 h-20 bg-indigo-50 rounded-full flex items-center justify-center mx-auto mb-6">
-               <SparklesIcon className="h-10 w-10 text-indigo-400" />
+      <div className="p-4 md:p-6 space-y-6">
+         {/* Folder Selection */}
+         <div className="bg-white p-5 rounded-3xl shadow-sm border border-slate-100 no-print">
+            <div className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-3 ml-1">Folders in this statement</div>
+            {folders.length === 0 ? (
+               <div className="text-sm text-slate-400 font-medium">No folders yet. Organize manifests into folders in the Explorer tab.</div>
+            ) : (
+               <div className="flex flex-wrap gap-2">
+                  {folders.map(folder => {
+                     const isSelected = selectedFinalFolderIds.includes(folder.id);
+                     return (
+                        <button key={folder.id} onClick={() => toggleFinalFolder(folder.id)} className={`flex items-center gap-2 px-4 py-2 rounded-xl text-xs font-bold border transition-all ${isSelected ? 'bg-indigo-600 text-white border-indigo-600 shadow-md shadow-indigo-200' : 'bg-slate-50 text-slate-500 border-slate-200 hover:border-indigo-300'}`}>
+                           {isSelected ? <CheckCircleIcon className="h-4 w-4" /> : <FolderIcon className="h-4 w-4" />}
+                           {folder.name}
+                           <span className={`text-[10px] px-1.5 rounded ${isSelected ? 'bg-white/20' : 'bg-white'}`}>{history.filter(h => h.folderId === folder.id).length}</span>
+                        </button>
+                     );
+                  })}
+               </div>
+            )}
+         </div>
+
+         {selectedFinalFolderIds.length === 0 ? (
+            <div className="text-center text-slate-400">
+               <div className="bg-white p-12 rounded-[2.5rem] border border-slate-200 shadow-xl max-w-lg mx-auto mt-4">
+                  <div className="w-20 h-20 bg-indigo-50 rounded-full flex items-center justify-center mx-auto mb-6">
+                     <SparklesIcon className="h-10 w-10 text-indigo-400" />
+                  </div>
+                  <h3 className="text-xl font-black text-slate-900 mb-3">Monthly Consolidation</h3>
+                  <p className="text-sm font-medium leading-relaxed">Select one or more folders above to generate a consolidated final bill report for your clients.</p>
+                  <button onClick={() => setDashboardTab('history')} className="mt-8 px-8 py-4 bg-indigo-600 text-white rounded-2xl font-black hover:bg-indigo-700 shadow-lg shadow-indigo-200 hover:-translate-y-1 transition-all">Go to Explorer</button>
+               </div>
             </div>
-            <h3 className="text-xl font-black text-slate-900 mb-3">Monthly Consolidation</h3>
-            <p className="text-sm font-medium leading-relaxed">Select folders in the Explorer tab to generate a consolidated final bill report for your clients.</p>
-            <button onClick={() => setDashboardTab('history')} className="mt-8 px-8 py-4 bg-indigo-600 text-white rounded-2xl font-black hover:bg-indigo-700 shadow-lg shadow-indigo-200 hover:-translate-y-1 transition-all">Go to Explorer</button>
+         ) : (
+            <div className="bg-white rounded-[2.5rem] shadow-xl border border-slate-200 overflow-hidden">
+               {/* Report Header */}
+               <div className="bg-indigo-950 text-white p-6 md:p-8 flex flex-col md:flex-row justify-between gap-6">
+                  <div className="space-y-3 flex-1">
+                     <h2 className="text-2xl font-black tracking-tight">Monthly Consolidated Statement</h2>
+                     <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                        {(['month', 'agency', 'area'] as const).map(key => (
+                           <div key={key}>
+                              <label className="text-[10px] font-bold text-indigo-300 uppercase tracking-widest block mb-1 ml-1">{key}</label>
+                              <input className="w-full bg-white/10 border border-white/10 focus:border-indigo-400 rounded-xl px-3 py-2 font-bold text-white placeholder-indigo-300/50 outline-none" value={reportMeta[key]} placeholder={key === 'month' ? 'e.g. March 2025' : ''} onChange={(e) => saveFinalBillState({ reportMeta: { ...reportMeta, [key]: e.target.value } })} />
+                           </div>
+                        ))}
+                     </div>
+                  </div>
+                  <div className="flex md:flex-col items-end gap-2 no-print">
+                     <button onClick={() => setIsFinalBillEditing(!isFinalBillEditing)} className={`px-5 py-3 rounded-2xl font-black text-xs flex items-center gap-2 transition-all ${isFinalBillEditing ? 'bg-amber-400 text-amber-950' : 'bg-white/10 hover:bg-white/20 text-white'}`}>
+                        <PencilSquareIcon className="h-4 w-4" /> {isFinalBillEditing ? 'Done Editing' : 'Edit Cells'}
+                     </button>
+                     <div className="relative" ref={finalExportRef}>
+                        <button onClick={() => setIsFinalExportOpen(!isFinalExportOpen)} className="px-5 py-3 rounded-2xl bg-white text-indigo-950 font-black text-xs flex items-center gap-2 hover:bg-indigo-50 transition-all"><ArrowDownTrayIcon className="h-4 w-4" /> Export</button>
+                        {isFinalExportOpen && (
+                           <div className="absolute right-0 mt-2 w-52 bg-white rounded-2xl shadow-2xl border border-slate-100 py-2 z-50 animate-in fade-in slide-in-from-top-2">
+                              <button onClick={handleExportFinalCsv} className="w-full px-6 py-3.5 text-left text-xs font-black text-slate-700 hover:bg-slate-50 hover:text-emerald-600 flex items-center transition-colors"><DocumentTextIcon className="h-4 w-4 mr-3 text-emerald-500" />Excel (CSV)</button>
+                              <button onClick={handleExportFinalPdf} className="w-full px-6 py-3.5 text-left text-xs font-black text-slate-700 hover:bg-slate-50 hover:text-red-600 flex items-center transition-colors"><DocumentIcon className="h-4 w-4 mr-3 text-red-500" />PDF</button>
+                              <button onClick={() => { setIsFinalExportOpen(false); window.print(); }} className="w-full px-6 py-3.5 text-left text-xs font-black text-slate-700 hover:bg-slate-50 hover:text-indigo-600 flex items-center transition-colors"><DocumentDuplicateIcon className="h-4 w-4 mr-3 text-indigo-500" />Print</button>
+                           </div>
+                        )}
+                     </div>
+                  </div>
+               </div>
+
+               {/* Column Font Sizes */}
+               <div className="px-6 py-3 bg-slate-50 border-b border-slate-100 flex flex-wrap items-center gap-4 no-print">
+                  <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Font Size</span>
+                  {(Object.keys(fontSizes) as (keyof typeof fontSizes)[]).map(col => (
+                     <div key={col} className="flex items-center gap-1 bg-white border border-slate-200 rounded-lg px-2 py-1">
+                        <span className="text-[10px] font-bold text-slate-500 uppercase mr-1">{col}</span>
+                        <button onClick={() => saveFinalBillState({ fontSizes: { ...fontSizes, [col]: Math.max(8, fontSizes[col] - 1) } })} className="p-0.5 text-slate-400 hover:text-indigo-600"><MagnifyingGlassMinusIcon className="h-3.5 w-3.5" /></button>
+                        <span className="text-[10px] font-mono font-bold text-slate-700 w-5 text-center">{fontSizes[col]}</span>
+                        <button onClick={() => saveFinalBillState({ fontSizes: { ...fontSizes, [col]: Math.min(24, fontSizes[col] + 1) } })} className="p-0.5 text-slate-400 hover:text-indigo-600"><MagnifyingGlassPlusIcon className="h-3.5 w-3.5" /></button>
+                     </div>
+                  ))}
+                  {finalBillLines.some(l => l.isOverridden) && (
+                     <button onClick={resetFinalOverrides} className="ml-auto text-[10px] font-black text-red-400 hover:text-red-600 uppercase tracking-widest flex items-center gap-1"><ArrowPathIcon className="h-3 w-3" /> Reset Edits</button>
+                  )}
+               </div>
+
+               {/* Statement Table */}
+               <div className="overflow-x-auto">
+                  <table className="w-full text-left border-collapse">
+                     <thead>
+                        <tr className="bg-slate-50 border-b border-slate-200 text-[10px] font-bold text-slate-500 uppercase tracking-wider">
+                           <th className="p-3 text-center">Sl</th>
+                           <th className="p-3">Date</th>
+                           <th className="p-3">Manifest No</th>
+                           <th className="p-3 text-right">P ≤10kg</th>
+                           <th className="p-3 text-right">Wt (kg)</th>
+                           <th className="p-3 text-right">P &gt;10kg</th>
+                           <th className="p-3">Heavy Weights</th>
+                           <th className="p-3 text-right">Docs</th>
+                           <th className="p-3 text-right">Parcel Amt</th>
+                           <th className="p-3 text-right">Doc Amt</th>
+                           <th className="p-3 text-right">Total</th>
+                        </tr>
+                     </thead>
+                     <tbody className="divide-y divide-slate-100">
+                        {finalBillLines.map((line, idx) => (
+                           <tr key={line.manifestId} className={`transition-colors ${line.isOverridden ? 'bg-amber-50/40' : 'hover:bg-indigo-50/30'}`}>
+                              <td className="p-3 text-center font-bold text-slate-400 text-xs">{idx + 1}</td>
+                              {renderFinalCell(line, 'date', fontSizes.date, 'font-bold text-slate-700 whitespace-nowrap', true)}
+                              {renderFinalCell(line, 'no', fontSizes.date, 'font-black text-slate-900 whitespace-nowrap', true)}
+                              {renderFinalCell(line, 'pCount', fontSizes.units, 'text-right font-mono text-slate-700')}
+                              {renderFinalCell(line, 'pWeight', fontSizes.weight, 'text-right font-mono text-slate-700')}
+                              {renderFinalCell(line, 'PCount', fontSizes.units, 'text-right font-mono text-slate-700')}
+                              {renderFinalCell(line, 'PDetail', fontSizes.weight, 'font-mono text-slate-500', true)}
+                              {renderFinalCell(line, 'dCount', fontSizes.units, 'text-right font-mono text-slate-700')}
+                              <td className="p-3 text-right font-mono text-slate-700" style={{ fontSize: fontSizes.amount }}>₹{line.parcelAmount.toFixed(2)}</td>
+                              <td className="p-3 text-right font-mono text-slate-700" style={{ fontSize: fontSizes.amount }}>₹{line.docAmount.toFixed(2)}</td>
+                              <td className="p-3 text-right font-mono font-black text-slate-900" style={{ fontSize: fontSizes.amount }}>₹{line.totalAmount.toFixed(2)}</td>
+                           </tr>
+                        ))}
+                     </tbody>
+                     <tfoot>
+                        <tr className="bg-slate-900 text-white font-black">
+                           <td className="p-3"></td>
+                           <td className="p-3 text-xs uppercase tracking-widest" colSpan={2}>Total ({finalBillTotals.manifestCount} Manifests)</td>
+                           <td className="p-3 text-right font-mono" style={{ fontSize: fontSizes.units }}>{finalBillTotals.pCount}</td>
+                           <td className="p-3 text-right font-mono" style={{ fontSize: fontSizes.weight }}>{finalBillTotals.pWeight}</td>
+                           <td className="p-3 text-right font-mono" style={{ fontSize: fontSizes.units }}>{finalBillTotals.PCount}</td>
+                           <td className="p-3 font-mono" style={{ fontSize: fontSizes.weight }}>{finalBillTotals.heavyWeight} kg</td>
+                           <td className="p-3 text-right font-mono" style={{ fontSize: fontSizes.units }}>{finalBillTotals.dCount}</td>
+                           <td className="p-3 text-right font-mono" style={{ fontSize: fontSizes.amount }}>₹{finalBillTotals.parcelAmount.toFixed(2)}</td>
+                           <td className="p-3 text-right font-mono" style={{ fontSize: fontSizes.amount }}>₹{finalBillTotals.docAmount.toFixed(2)}</td>
+                           <td className="p-3 text-right font-mono" style={{ fontSize: fontSizes.amount }}>₹{finalBillTotals.totalAmount.toFixed(2)}</td>
+                        </tr>
+                     </tfoot>
+                  </table>
+                  {finalBillLines.length === 0 && (
+                     <div className="text-center py-16 text-slate-400 text-sm font-medium">The selected folders contain no manifests.</div>
+                  )}
+               </div>
+
+               {/* Charges & Tax Summary */}
+               {(finalSurchargeLines.length > 0 || finalBillTotals.tax.totalTax > 0) && (
+                  <div className="flex justify-end p-6 border-t border-slate-100">
+                     <div className="w-full max-w-xs space-y-1.5">
+                        {finalSurchargeLines.length > 0 && describeCharges(finalBillTotals.charges).map(line => (
+                           <div key={line.key} className="flex justify-between text-sm font-bold text-slate-400">
+                              <span>{line.label}</span>
+                              <span className="font-mono" style={{ fontSize: fontSizes.amount }}>₹{line.amount.toFixed(2)}</span>
+                           </div>
+                        ))}
+                        {finalBillTotals.tax.totalTax > 0 && describeTax(finalBillTotals.tax).map(line => (
+                           <div key={line.label} className={`flex justify-between text-sm ${line.label === 'Grand Total' ? 'font-black text-slate-900 border-t border-slate-200 pt-2 mt-2 text-base' : 'font-bold text-slate-500'}`}>
+                              <span>{line.label}</span>
+                              <span className="font-mono" style={{ fontSize: fontSizes.amount + (line.label === 'Grand Total' ? 2 : 0) }}>₹{line.amount.toFixed(2)}</span>
+                           </div>
+                        ))}
+                     </div>
+                  </div>
+               )}
+            </div>
+         )}
+
+         {selectedFinalFolderIds.length > 0 && renderDuplicateAwbReport()}
+      </div>
+   );
+
+   // Every AWB billed more than once within the statement's folders
+   const renderDuplicateAwbReport = () => (
+      <div className="bg-white rounded-3xl shadow-sm border border-slate-200 overflow-hidden no-print">
+         <div className="flex items-center justify-between px-6 py-4 border-b border-slate-100">
+            <div className="flex items-center gap-2">
+               <div className={`p-1 rounded-lg ${finalBillDuplicates.length ? 'bg-rose-100 text-rose-600' : 'bg-emerald-100 text-emerald-600'}`}><DocumentDuplicateIcon className="h-4 w-4" /></div>
+               <span className="font-black text-xs uppercase tracking-wider text-slate-900">Duplicate AWBs</span>
+               <span className="text-[10px] font-bold text-slate-400">{finalBillDuplicates.length ? `${finalBillDuplicates.length} AWBs billed more than once` : `None across ${finalBillLines.length} manifests`}</span>
+            </div>
+            {finalBillDuplicates.length > 0 && <button onClick={handleExportDuplicateAwbsCsv} className="px-4 py-2 rounded-xl bg-slate-50 border border-slate-200 text-xs font-bold text-slate-600 hover:border-emerald-300 hover:text-emerald-700 flex items-center gap-2"><ArrowDownTrayIcon className="h-4 w-4" /> CSV</button>}
          </div>
+         {finalBillDuplicates.length > 0 && (
+            <div className="overflow-x-auto max-h-96">
+               <table className="w-full text-left border-collapse text-xs">
+                  <thead>
+                     <tr className="bg-slate-50 border-b border-slate-200 text-[10px] font-bold text-slate-500 uppercase tracking-wider">
+                        <th className="p-3">AWB</th>
+                        <th className="p-3">Manifest No</th>
+                        <th className="p-3">Date</th>
+                        <th className="p-3">Folder</th>
+                        <th className="p-3 text-right">Weight</th>
+                        <th className="p-3 text-right">Amount</th>
+                     </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                     {finalBillDuplicates.map(dup => dup.occurrences.map((o, i) => {
+                        const manifest = history.find(h => h.id === o.manifestId);
+                        return (
+                           <tr key={`${dup.awb}-${o.rowId}`} className="hover:bg-rose-50/40">
+                              <td className="p-3 font-black text-slate-900">{i === 0 ? dup.awb : ''}</td>
+                              <td className="p-3"><button onClick={() => manifest && openManifestFromHistory(manifest)} className="font-bold text-indigo-600 hover:underline">{o.manifestNo}</button></td>
+                              <td className="p-3 font-medium text-slate-600">{o.manifestDate}</td>
+                              <td className="p-3 font-medium text-slate-500">{folders.find(f => f.id === o.folderId)?.name || '-'}</td>
+                              <td className="p-3 text-right font-mono text-slate-700">{o.weight}</td>
+                              <td className="p-3 text-right font-mono text-slate-900">₹{o.amount.toFixed(2)}</td>
+                           </tr>
+                        );
+                     }))}
+                  </tbody>
+               </table>
+            </div>
+         )}
       </div>
    );
 
@@ -1522,7 +3270,7 @@ const App: React.FC = () => {
       <div className={`min-h-screen flex flex-col font-inter transition-colors duration-300 ${themeClasses[appTheme]}`} style={{ fontSize: `${appScale}%` }}>
          <nav className="sticky top-0 z-40 px-4 md:px-8 py-3 flex flex-col md:flex-row justify-between items-center shadow-sm backdrop-blur-xl bg-white/80 border-b border-slate-200/60 transition-all no-print supports-[backdrop-filter]:bg-white/60">
             <div className="flex w-full md:w-auto justify-between items-center mb-3 md:mb-0">
-               <div className="flex items-center space-x-3 cursor-pointer group" onClick={() => { setView('dashboard'); setCurrentFolderId(null); setSelectedFinalFolderIds([]); }}>
+               <div className="flex items-center space-x-3 cursor-pointer group" onClick={() => { setView('dashboard'); setCurrentFolderId(null); }}>
                   <div className="bg-gradient-to-br from-indigo-600 to-violet-600 p-2.5 rounded-2xl shadow-lg shadow-indigo-200 group-hover:scale-105 transition-transform"><CalculatorIcon className="h-6 w-6 text-white" /></div>
                   <div><h1 className="text-xl font-black text-slate-900 leading-none tracking-tight">SmartBilling</h1><p className="text-[10px] text-slate-400 font-bold uppercase tracking-[3px] mt-1.5">{pageSubtitle}</p></div>
                </div>
@@ -1540,7 +3288,7 @@ const App: React.FC = () => {
                   {view === 'billing' ? (
                      <div className="relative" ref={exportRef}>
                         <button onClick={() => setIsExportOpen(!isExportOpen)} className="bg-slate-900 hover:bg-black text-white px-6 py-3 rounded-2xl font-black text-xs flex items-center transition-all shadow-lg shadow-slate-200 active:scale-95"><ArrowDownTrayIcon className="h-4 w-4 mr-2" />Export</button>
-                        {isExportOpen && (<div className="absolute right-0 mt-2 w-56 bg-white rounded-2xl shadow-2xl border border-slate-100 py-2 z-50 animate-in fade-in slide-in-from-top-2"><button onClick={handleExportExcel} className="w-full px-6 py-3.5 text-left text-xs font-black text-slate-700 hover:bg-slate-50 hover:text-emerald-600 flex items-center transition-colors"><DocumentTextIcon className="h-4 w-4 mr-3 text-emerald-500" />Excel (CSV)</button><button onClick={handleExportJson} className="w-full px-6 py-3.5 text-left text-xs font-black text-slate-700 hover:bg-slate-50 hover:text-indigo-600 flex items-center transition-colors"><CodeBracketIcon className="h-4 w-4 mr-3 text-indigo-500" />JSON</button><button onClick={handleExportPdf} className="w-full px-6 py-3.5 text-left text-xs font-black text-slate-700 hover:bg-slate-50 hover:text-red-600 flex items-center transition-colors"><DocumentIcon className="h-4 w-4 mr-3 text-red-500" />PDF</button></div>)}
+                        {isExportOpen && (<div className="absolute right-0 mt-2 w-56 bg-white rounded-2xl shadow-2xl border border-slate-100 py-2 z-50 animate-in fade-in slide-in-from-top-2"><button onClick={handleExportExcel} className="w-full px-6 py-3.5 text-left text-xs font-black text-slate-700 hover:bg-slate-50 hover:text-emerald-600 flex items-center transition-colors"><TableCellsIcon className="h-4 w-4 mr-3 text-emerald-500" />Excel (XLSX)</button><button onClick={handleExportJson} className="w-full px-6 py-3.5 text-left text-xs font-black text-slate-700 hover:bg-slate-50 hover:text-indigo-600 flex items-center transition-colors"><CodeBracketIcon className="h-4 w-4 mr-3 text-indigo-500" />JSON</button><button onClick={handleExportPdf} className="w-full px-6 py-3.5 text-left text-xs font-black text-slate-700 hover:bg-slate-50 hover:text-red-600 flex items-center transition-colors"><DocumentIcon className="h-4 w-4 mr-3 text-red-500" />PDF Invoice</button></div>)}
                      </div>
                   ) : (
                      <div className="flex items-center gap-3">
@@ -1596,26 +3344,36 @@ const App: React.FC = () => {
                                        </span>
                                     </div>
                                  </div>
-                                 {!chunkSession.isProcessing && chunkSession.pendingChunks.length > 0 && (
-                                    <button
-                                       onClick={() => { setIsGlobalSettingsOpen(false); setIsChunkSessionOpen(true); }}
-                                       className="px-4 py-2 bg-indigo-600 text-white text-xs font-black rounded-xl hover:bg-indigo-700 shadow-lg shadow-indigo-200 transition-all"
-                                    >
-                                       Resume
-                                    </button>
-                                 )}
+                                 <div className="flex gap-2">
+                                    {chunkSession.processedCount > 0 && (
+                                       <button
+                                          onClick={() => { setIsGlobalSettingsOpen(false); setIsChunkReviewOpen(true); setIsChunkSessionOpen(true); }}
+                                          className="px-4 py-2 bg-white text-slate-700 text-xs font-black rounded-xl border border-slate-200 hover:bg-slate-50 transition-all"
+                                       >
+                                          Review
+                                       </button>
+                                    )}
+                                    {!chunkSession.isProcessing && chunkSession.jobs.some(job => job.state !== 'done') && (
+                                       <button
+                                          onClick={() => { setIsGlobalSettingsOpen(false); setIsChunkReviewOpen(false); setIsChunkSessionOpen(true); }}
+                                          className="px-4 py-2 bg-indigo-600 text-white text-xs font-black rounded-xl hover:bg-indigo-700 shadow-lg shadow-indigo-200 transition-all"
+                                       >
+                                          Resume
+                                       </button>
+                                    )}
+                                 </div>
                               </div>
 
                               {/* Progress Bar */}
                               <div className="space-y-1.5">
                                  <div className="flex justify-between text-[10px] font-bold text-slate-400">
                                     <span>Progress</span>
-                                    <span>{Math.round((chunkSession.processedCount / (chunkSession.processedCount + chunkSession.pendingChunks.length || 1)) * 100)}%</span>
+                                    <span>{chunkProgress(chunkSession)}%</span>
                                  </div>
                                  <div className="h-2.5 bg-slate-100 rounded-full overflow-hidden border border-slate-200/50">
                                     <div
                                        className={`h-full transition-all duration-500 rounded-full ${chunkSession.isProcessing ? 'bg-indigo-500' : 'bg-slate-300'}`}
-                                       style={{ width: `${(chunkSession.processedCount / (chunkSession.processedCount + chunkSession.pendingChunks.length || 1)) * 100}%` }}
+                                       style={{ width: `${chunkProgress(chunkSession)}%` }}
                                     ></div>
                                  </div>
                               </div>
@@ -1627,12 +3385,12 @@ const App: React.FC = () => {
                                     <div className="text-[9px] text-slate-400 uppercase font-bold mt-1">Completed</div>
                                  </div>
                                  <div className="bg-slate-50 p-3 rounded-xl text-center border border-slate-100">
-                                    <div className="text-xl font-black text-amber-600">{chunkSession.pendingChunks.length}</div>
+                                    <div className="text-xl font-black text-amber-600">{countChunkJobs(chunkSession).pending + countChunkJobs(chunkSession).running}</div>
                                     <div className="text-[9px] text-slate-400 uppercase font-bold mt-1">Pending</div>
                                  </div>
                                  <div className="bg-slate-50 p-3 rounded-xl text-center border border-slate-100">
-                                    <div className="text-xl font-black text-slate-800">{chunkSession.processedCount + chunkSession.pendingChunks.length}</div>
-                                    <div className="text-[9px] text-slate-400 uppercase font-bold mt-1">Total</div>
+                                    <div className="text-xl font-black text-rose-600">{countChunkJobs(chunkSession).failed}</div>
+                                    <div className="text-[9px] text-slate-400 uppercase font-bold mt-1">Failed</div>
                                  </div>
                               </div>
 
@@ -1689,24 +3447,107 @@ const App: React.FC = () => {
                         <p className="text-[10px] text-slate-400 font-medium">These rates will apply to all new imports automatically.</p>
 
                         <div className="bg-white p-5 rounded-2xl border border-slate-200 shadow-sm space-y-4">
+                           {renderSlabEditor(globalConfig, setGlobalConfig)}
                            <div className="grid grid-cols-2 gap-4">
-                              <div className="col-span-2">
-                                 <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider block mb-1.5 ml-1">Slab 1 (0-10kg)</label>
-                                 <div className="relative"><span className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400 font-bold">₹</span><input type="number" className="w-full pl-8 pr-4 py-2.5 bg-slate-50 border border-slate-200 rounded-xl font-bold text-slate-900 focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none transition-all" value={globalConfig.parcelSlab1Rate} onChange={(e) => setGlobalConfig({ ...globalConfig, parcelSlab1Rate: parseFloat(e.target.value) || 0 })} /></div>
-                              </div>
-                              <div>
-                                 <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider block mb-1.5 ml-1">Slab 2 (10-100kg)</label>
-                                 <div className="relative"><span className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400 font-bold">₹</span><input type="number" className="w-full pl-8 pr-4 py-2.5 bg-slate-50 border border-slate-200 rounded-xl font-bold text-slate-900 focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none transition-all" value={globalConfig.parcelSlab2Rate} onChange={(e) => setGlobalConfig({ ...globalConfig, parcelSlab2Rate: parseFloat(e.target.value) || 0 })} /></div>
-                              </div>
-                              <div>
-                                 <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider block mb-1.5 ml-1">Slab 3 (&gt;100kg)</label>
-                                 <div className="relative"><span className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400 font-bold">₹</span><input type="number" className="w-full pl-8 pr-4 py-2.5 bg-slate-50 border border-slate-200 rounded-xl font-bold text-slate-900 focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none transition-all" value={globalConfig.parcelSlab3Rate} onChange={(e) => setGlobalConfig({ ...globalConfig, parcelSlab3Rate: parseFloat(e.target.value) || 0 })} /></div>
-                              </div>
                               <div className="col-span-2 pt-2 border-t border-slate-100 mt-2">
                                  <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider block mb-1.5 ml-1">Document Flat Rate</label>
                                  <div className="relative"><span className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400 font-bold">₹</span><input type="number" className="w-full pl-8 pr-4 py-2.5 bg-slate-50 border border-slate-200 rounded-xl font-bold text-slate-900 focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 outline-none transition-all" value={globalConfig.documentRate} onChange={(e) => setGlobalConfig({ ...globalConfig, documentRate: parseFloat(e.target.value) || 0 })} /></div>
                               </div>
                            </div>
+                           <div className="pt-4 border-t border-slate-100">
+                              {renderSurchargeEditor(globalConfig, setGlobalConfig)}
+                           </div>
+                           <div className="pt-4 border-t border-slate-100">
+                              {renderTaxEditor(globalConfig, setGlobalConfig)}
+                           </div>
+                        </div>
+                     </div>
+
+                     {/* Rate Cards Section */}
+                     <div className="space-y-4">
+                        <div className="flex items-center gap-2 text-slate-900 border-b border-slate-200 pb-2">
+                           <div className="p-1 bg-amber-100 rounded-lg text-amber-600"><CalendarDaysIcon className="h-4 w-4" /></div>
+                           <span className="font-black text-xs uppercase tracking-wider">Client Rate Cards</span>
+                        </div>
+                        <p className="text-[10px] text-slate-400 font-medium">Imports use the card of the folder's client valid on the manifest date. The defaults above apply when no card matches.</p>
+                        <button onClick={() => setIsRateCardsOpen(true)} className="w-full flex items-center justify-between bg-white p-4 rounded-2xl border border-slate-200 shadow-sm hover:border-indigo-300 transition-all">
+                           <span className="text-sm font-bold text-slate-700">Manage Rate Cards</span>
+                           <span className="flex items-center gap-2 text-[10px] font-black bg-slate-100 text-slate-500 px-2 py-1 rounded-full">{rateCards.length} Cards <ChevronRightIcon className="h-3 w-3" /></span>
+                        </button>
+                     </div>
+
+                     {/* Extraction Provider Section */}
+                     <div className="space-y-4">
+                        <div className="flex items-center gap-2 text-slate-900 border-b border-slate-200 pb-2">
+                           <div className="p-1 bg-violet-100 rounded-lg text-violet-600"><SparklesIcon className="h-4 w-4" /></div>
+                           <span className="font-black text-xs uppercase tracking-wider">AI Extraction</span>
+                        </div>
+                        <div className="grid grid-cols-2 gap-2 bg-slate-100 p-1 rounded-xl">
+                           <button onClick={() => setExtractionProviderId('gemini')} className={`py-2 rounded-lg text-[10px] font-black uppercase tracking-wider transition-all ${extractionProviderId === 'gemini' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400'}`}>Gemini (Online)</button>
+                           <button onClick={() => setExtractionProviderId('replay')} className={`py-2 rounded-lg text-[10px] font-black uppercase tracking-wider transition-all ${extractionProviderId === 'replay' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400'}`}>Offline Replay</button>
+                        </div>
+                        <p className="text-[10px] text-slate-400 font-medium">Offline Replay answers imports from recorded Gemini responses, without network access. {replayRecordings.length} recordings loaded.</p>
+                        <label className="flex items-center justify-between cursor-pointer">
+                           <span className="text-xs font-bold text-slate-600">Fall back to on-device OCR when Gemini fails (images only)</span>
+                           <input type="checkbox" checked={ocrFallbackEnabled} onChange={(e) => setOcrFallbackEnabled(e.target.checked)} className="h-4 w-4 accent-indigo-600" />
+                        </label>
+                        <div className="bg-white p-4 rounded-2xl border border-slate-200 shadow-sm space-y-3">
+                           <div className="flex items-center justify-between gap-3">
+                              <span className="text-xs font-bold text-slate-600">Cache results of files already read</span>
+                              <label className="flex items-center gap-2 text-[10px] font-bold text-slate-400">
+                                 Keep
+                                 <input type="number" min={0} value={extractionCacheLimit} onChange={(e) => setExtractionCacheLimitPref(Math.max(0, parseInt(e.target.value) || 0))} className="w-16 px-2 py-1 bg-slate-50 border border-slate-200 rounded-lg text-xs font-bold text-slate-700 text-right outline-none focus:border-indigo-300" />
+                                 results
+                              </label>
+                           </div>
+                           {cacheStats && (
+                              <div className="grid grid-cols-3 gap-2 text-center">
+                                 <div className="bg-slate-50 rounded-xl py-2"><div className="text-sm font-black text-slate-800">{cacheStats.entries}</div><div className="text-[9px] font-bold text-slate-400 uppercase tracking-wider">Cached</div></div>
+                                 <div className="bg-emerald-50 rounded-xl py-2"><div className="text-sm font-black text-emerald-700">{cacheStats.hits}</div><div className="text-[9px] font-bold text-emerald-500 uppercase tracking-wider">Hits</div></div>
+                                 <div className="bg-slate-50 rounded-xl py-2"><div className="text-sm font-black text-slate-800">{cacheStats.misses}</div><div className="text-[9px] font-bold text-slate-400 uppercase tracking-wider">Misses</div></div>
+                              </div>
+                           )}
+                           <div className="flex items-center justify-between">
+                              <p className="text-[10px] text-slate-400 font-medium">{cacheStats && cacheStats.hits + cacheStats.misses > 0 ? `${Math.round(cacheStats.hits / (cacheStats.hits + cacheStats.misses) * 100)}% of imports answered from cache.` : 'Set to 0 to turn the cache off.'}</p>
+                              <button onClick={handleClearExtractionCache} className="flex items-center gap-1 text-[10px] font-black text-rose-500 hover:text-rose-600 uppercase tracking-wider"><TrashIcon className="h-3 w-3" /> Clear</button>
+                           </div>
+                        </div>
+                        <div className="grid grid-cols-2 gap-3">
+                           <label className="flex items-center justify-center gap-2 bg-white p-3 rounded-2xl border border-slate-200 shadow-sm hover:border-violet-300 text-xs font-bold text-slate-700 transition-all cursor-pointer"><ArrowUpTrayIcon className="h-4 w-4 text-violet-500" /> Load Recordings<input type="file" accept=".json" className="hidden" onChange={handleRecordingsFile} /></label>
+                           <button onClick={handleDownloadRecordings} className="flex items-center justify-center gap-2 bg-white p-3 rounded-2xl border border-slate-200 shadow-sm hover:border-violet-300 text-xs font-bold text-slate-700 transition-all"><ArrowDownTrayIcon className="h-4 w-4 text-violet-500" /> Save Session</button>
+                        </div>
+                     </div>
+
+                     {/* Validation Rules Section */}
+                     <div className="space-y-4">
+                        <div className="flex items-center gap-2 text-slate-900 border-b border-slate-200 pb-2">
+                           <div className="p-1 bg-rose-100 rounded-lg text-rose-600"><ShieldCheckIcon className="h-4 w-4" /></div>
+                           <span className="font-black text-xs uppercase tracking-wider">Validation Rules</span>
+                        </div>
+                        <p className="text-[10px] text-slate-400 font-medium">Checked on every edit of an open manifest. Findings are highlighted in the table; they do not block saving.</p>
+                        {renderValidationRulesEditor()}
+                     </div>
+
+                     {/* Invoice Layout Section */}
+                     <div className="space-y-4">
+                        <div className="flex items-center gap-2 text-slate-900 border-b border-slate-200 pb-2">
+                           <div className="p-1 bg-red-100 rounded-lg text-red-600"><DocumentIcon className="h-4 w-4" /></div>
+                           <span className="font-black text-xs uppercase tracking-wider">Invoice Layout</span>
+                        </div>
+                        <p className="text-[10px] text-slate-400 font-medium">Letterhead, bank details and signatory printed on the PDF export. The client and billing address come from the manifest's folder.</p>
+                        {renderInvoiceSettingsEditor()}
+                     </div>
+
+                     {/* Workspace Backup Section */}
+                     <div className="space-y-4">
+                        <div className="flex items-center gap-2 text-slate-900 border-b border-slate-200 pb-2">
+                           <div className="p-1 bg-emerald-100 rounded-lg text-emerald-600"><ArchiveBoxIcon className="h-4 w-4" /></div>
+                           <span className="font-black text-xs uppercase tracking-wider">Workspace Backup</span>
+                        </div>
+                        <p className="text-[10px] text-slate-400 font-medium">One ZIP with every folder, manifest, recycle-bin entry, rate card and setting, verified by checksums on restore.</p>
+                        <div className="grid grid-cols-2 gap-3">
+                           <button onClick={handleDownloadBackup} className="flex items-center justify-center gap-2 bg-white p-4 rounded-2xl border border-slate-200 shadow-sm hover:border-emerald-300 text-sm font-bold text-slate-700 transition-all"><ArrowDownTrayIcon className="h-4 w-4 text-emerald-500" /> Download</button>
+                           <label className="flex items-center justify-center gap-2 bg-white p-4 rounded-2xl border border-slate-200 shadow-sm hover:border-indigo-300 text-sm font-bold text-slate-700 transition-all cursor-pointer"><ArrowUpTrayIcon className="h-4 w-4 text-indigo-500" /> Restore<input type="file" accept=".zip" className="hidden" onChange={handleBackupFile} /></label>
                         </div>
                      </div>
 
@@ -1719,6 +3560,88 @@ const App: React.FC = () => {
             </div>
          )}
 
+         {/* Rate Card Manager Modal */}
+         {isRateCardsOpen && (
+            <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/60 backdrop-blur-md p-4 animate-in fade-in duration-300 no-print">
+               <div className="bg-white rounded-[2.5rem] shadow-2xl max-w-2xl w-full overflow-hidden border border-white/20 flex flex-col max-h-[90vh]">
+                  <div className="px-8 py-6 bg-slate-900 flex justify-between items-center text-white flex-shrink-0">
+                     <div>
+                        <h2 className="text-xl font-black tracking-tight">{editingRateCard ? (rateCards.some(c => c.id === editingRateCard.id) ? 'Edit Rate Card' : 'New Rate Card') : 'Rate Cards'}</h2>
+                        <p className="text-slate-400 text-xs font-medium uppercase tracking-widest mt-1">Client tariffs by effective date</p>
+                     </div>
+                     <button onClick={() => { setIsRateCardsOpen(false); setEditingRateCard(null); }} className="p-2 bg-white/10 hover:bg-white/20 rounded-xl transition-all text-white"><XMarkIcon className="h-5 w-5" /></button>
+                  </div>
+
+                  <div className="p-8 space-y-6 bg-slate-50 overflow-y-auto flex-1">
+                     {editingRateCard ? (
+                        <div className="space-y-4">
+                           <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                              <div>
+                                 <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider block mb-1.5 ml-1">Card Name</label>
+                                 <input className="w-full px-4 py-2.5 bg-white border border-slate-200 rounded-xl font-bold text-slate-900 focus:border-indigo-500 outline-none" placeholder="e.g. FY25 Tariff" value={editingRateCard.name} onChange={(e) => setEditingRateCard({ ...editingRateCard, name: e.target.value })} />
+                              </div>
+                              <div>
+                                 <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider block mb-1.5 ml-1">Client</label>
+                                 <input list="rate-card-clients" className="w-full px-4 py-2.5 bg-white border border-slate-200 rounded-xl font-bold text-slate-900 focus:border-indigo-500 outline-none" placeholder="All clients" value={editingRateCard.clientName} onChange={(e) => setEditingRateCard({ ...editingRateCard, clientName: e.target.value })} />
+                                 <datalist id="rate-card-clients">{knownClients.map(c => <option key={c} value={c} />)}</datalist>
+                              </div>
+                              <div>
+                                 <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider block mb-1.5 ml-1">Effective From</label>
+                                 <input type="date" className="w-full px-4 py-2.5 bg-white border border-slate-200 rounded-xl font-bold text-slate-900 focus:border-indigo-500 outline-none" value={editingRateCard.effectiveFrom} onChange={(e) => setEditingRateCard({ ...editingRateCard, effectiveFrom: e.target.value })} />
+                              </div>
+                           </div>
+                           <div className="bg-white p-5 rounded-2xl border border-slate-200 shadow-sm space-y-4">
+                              {renderSlabEditor(editingRateCard.config, (next) => setEditingRateCard({ ...editingRateCard, config: next }))}
+                              <div className="pt-2 border-t border-slate-100">
+                                 <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider block mb-1.5 ml-1">Document Flat Rate</label>
+                                 <div className="relative"><span className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400 font-bold">₹</span><input type="number" className="w-full pl-8 pr-4 py-2.5 bg-slate-50 border border-slate-200 rounded-xl font-bold text-slate-900 focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 outline-none transition-all" value={editingRateCard.config.documentRate} onChange={(e) => setEditingRateCard({ ...editingRateCard, config: { ...editingRateCard.config, documentRate: parseFloat(e.target.value) || 0 } })} /></div>
+                              </div>
+                              <div className="pt-4 border-t border-slate-100">
+                                 {renderSurchargeEditor(editingRateCard.config, (next) => setEditingRateCard({ ...editingRateCard, config: next }))}
+                              </div>
+                              <div className="pt-4 border-t border-slate-100">
+                                 {renderTaxEditor(editingRateCard.config, (next) => setEditingRateCard({ ...editingRateCard, config: next }))}
+                              </div>
+                           </div>
+                           <div className="flex gap-3">
+                              <button onClick={() => setEditingRateCard(null)} className="flex-1 py-3.5 font-bold text-slate-400 hover:text-slate-600 transition-colors">Cancel</button>
+                              <button onClick={saveEditingRateCard} className="flex-1 py-3.5 bg-indigo-600 text-white font-black rounded-2xl hover:bg-indigo-700 shadow-lg shadow-indigo-200 transition-all flex items-center justify-center gap-2"><CheckCircleIcon className="h-5 w-5" /> Save Card</button>
+                           </div>
+                        </div>
+                     ) : (
+                        <div className="space-y-3">
+                           {[...rateCards].sort((a, b) => a.clientName.localeCompare(b.clientName) || b.effectiveFrom.localeCompare(a.effectiveFrom)).map(card => (
+                              <div key={card.id} className="bg-white p-4 rounded-2xl border border-slate-200 shadow-sm flex items-center justify-between group">
+                                 <div>
+                                    <div className="font-bold text-slate-900">{card.name}</div>
+                                    <div className="text-xs font-medium text-slate-500 mt-0.5 flex items-center gap-2">
+                                       <span className="bg-slate-100 px-2 py-0.5 rounded text-slate-600">{card.clientName || 'All clients'}</span>
+                                       <span>•</span>
+                                       <span>From {card.effectiveFrom}</span>
+                                       <span>•</span>
+                                       <span>{card.config.parcelSlabs.length} tiers</span>
+                                    </div>
+                                 </div>
+                                 <div className="flex items-center gap-1">
+                                    <button onClick={() => setEditingRateCard(card)} className="p-2 hover:bg-slate-100 text-slate-400 hover:text-indigo-600 rounded-xl transition-colors"><PencilIcon className="h-4 w-4" /></button>
+                                    <button onClick={() => setEditingRateCard({ ...card, id: crypto.randomUUID(), name: `${card.name} (copy)`, effectiveFrom: toIsoDate(new Date()), createdAt: Date.now() })} className="p-2 hover:bg-slate-100 text-slate-400 hover:text-indigo-600 rounded-xl transition-colors" title="New version"><DocumentDuplicateIcon className="h-4 w-4" /></button>
+                                    <button onClick={() => deleteRateCard(card.id)} className="p-2 hover:bg-red-50 text-slate-400 hover:text-red-500 rounded-xl transition-colors"><TrashIcon className="h-4 w-4" /></button>
+                                 </div>
+                              </div>
+                           ))}
+                           {rateCards.length === 0 && (
+                              <div className="p-6 bg-white rounded-2xl text-center border border-dashed border-slate-200">
+                                 <p className="text-slate-400 text-xs font-bold">No rate cards yet. All imports use the default slab rates.</p>
+                              </div>
+                           )}
+                           <button onClick={createRateCard} className="w-full py-3 text-xs font-black uppercase tracking-widest text-indigo-600 border-2 border-dashed border-indigo-200 hover:border-indigo-400 hover:bg-indigo-50/50 rounded-2xl transition-all">+ New Rate Card</button>
+                        </div>
+                     )}
+                  </div>
+               </div>
+            </div>
+         )}
+
          {/* Recycle Bin Modal */}
          {isRecycleBinOpen && (
             <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/60 backdrop-blur-md p-4 animate-in fade-in duration-300">
@@ -1779,21 +3702,20 @@ const App: React.FC = () => {
                   <div className="px-8 py-6 bg-gradient-to-r from-blue-600 to-indigo-600 flex justify-between items-center text-white">
                      <div>
                         <h2 className="text-xl font-black tracking-tight">Export Folder</h2>
-                        <p className="text-indigo-100 text-xs font-medium uppercase tracking-widest mt-1">Create Backup Package (ZIP)</p>
+                        <p className="text-indigo-100 text-xs font-medium uppercase tracking-widest mt-1">ZIP Backup or Excel Workbook</p>
                      </div>
                      <button onClick={() => setIsFolderExportOpen(false)} className="p-2 bg-white/10 hover:bg-white/20 rounded-xl transition-all text-white"><XMarkIcon className="h-5 w-5" /></button>
                   </div>
 
                   <div className="p-8 space-y-6 bg-slate-50 max-h-[70vh] overflow-y-auto">
-                     <p className="text-sm text-slate-500 font-medium">Select a folder to export all its manifests as a single ZIP file.</p>
+                     <p className="text-sm text-slate-500 font-medium">Export all manifests of a folder as a ZIP backup, or as one Excel workbook with per-manifest totals.</p>
 
                      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
                         {folders.map(folder => {
                            const count = history.filter(h => h.folderId === folder.id).length;
                            return (
-                              <button
+                              <div
                                  key={folder.id}
-                                 onClick={() => exportFolderToZip(folder.id)}
                                  className="group flex flex-col p-4 bg-white border border-slate-200 rounded-2xl hover:border-indigo-500 hover:shadow-lg transition-all text-left"
                               >
                                  <div className="flex items-center justify-between mb-2">
@@ -1801,7 +3723,11 @@ const App: React.FC = () => {
                                     <span className="text-[10px] font-black bg-slate-100 text-slate-500 px-2 py-1 rounded-full">{count} Items</span>
                                  </div>
                                  <span className="font-bold text-slate-900 group-hover:text-indigo-900 truncate w-full">{folder.name}</span>
-                              </button>
+                                 <div className="flex gap-2 mt-3">
+                                    <button onClick={() => exportFolderToZip(folder.id)} className="flex-1 flex items-center justify-center gap-1.5 py-2 rounded-xl bg-indigo-50 text-indigo-600 hover:bg-indigo-600 hover:text-white text-[10px] font-black uppercase tracking-wider transition-colors"><ArchiveBoxIcon className="h-3.5 w-3.5" /> ZIP</button>
+                                    <button onClick={() => exportFolderToExcel(folder.id)} className="flex-1 flex items-center justify-center gap-1.5 py-2 rounded-xl bg-emerald-50 text-emerald-600 hover:bg-emerald-600 hover:text-white text-[10px] font-black uppercase tracking-wider transition-colors"><TableCellsIcon className="h-3.5 w-3.5" /> Excel</button>
+                                 </div>
+                              </div>
                            )
                         })}
                      </div>
@@ -1913,7 +3839,20 @@ const App: React.FC = () => {
                      <button onClick={() => setIsConfigOpen(false)} className="p-2 bg-white/10 hover:bg-white/20 rounded-xl transition-all text-white"><XMarkIcon className="h-5 w-5" /></button>
                   </div>
 
-                  <div className="p-8 space-y-6 bg-slate-50">
+                  <div className="p-8 space-y-6 bg-slate-50 max-h-[75vh] overflow-y-auto">
+                     {/* Rate Card Section */}
+                     <div className="bg-white p-5 rounded-2xl border border-slate-200 shadow-sm">
+                        <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider block mb-1.5 ml-1">Apply Rate Card</label>
+                        <div className="relative">
+                           <select className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 text-sm font-bold text-slate-700 outline-none focus:ring-2 focus:ring-indigo-500/20 appearance-none" value={appliedRateCard?.id || ''} onChange={(e) => applyRateCardToManifest(e.target.value)}>
+                              <option value="">Global Defaults</option>
+                              {appliedRateCard && !rateCards.some(c => c.id === appliedRateCard.id) && <option value={appliedRateCard.id}>{appliedRateCard.name} (deleted)</option>}
+                              {rateCards.map(c => <option key={c.id} value={c.id}>{c.name}{c.clientName ? ` • ${c.clientName}` : ''} • from {c.effectiveFrom}</option>)}
+                           </select>
+                           <ChevronDownIcon className="absolute right-4 top-3.5 h-4 w-4 text-slate-400 pointer-events-none" />
+                        </div>
+                     </div>
+
                      {/* Parcel Section */}
                      <div className="space-y-4">
                         <div className="flex items-center gap-2 text-indigo-900 mb-2">
@@ -1922,29 +3861,7 @@ const App: React.FC = () => {
                         </div>
 
                         <div className="bg-white p-5 rounded-2xl border border-slate-200 shadow-sm space-y-4">
-                           <div className="grid grid-cols-2 gap-4">
-                              <div className="col-span-2">
-                                 <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider block mb-1.5 ml-1">Slab 1 (0-10kg)</label>
-                                 <div className="relative">
-                                    <span className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400 font-bold">₹</span>
-                                    <input type="number" className="w-full pl-8 pr-4 py-3 bg-slate-50 border border-slate-200 rounded-xl font-black text-slate-900 focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 transition-all outline-none" value={config.parcelSlab1Rate} onChange={(e) => setConfig({ ...config, parcelSlab1Rate: parseFloat(e.target.value) || 0 })} />
-                                 </div>
-                              </div>
-                              <div>
-                                 <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider block mb-1.5 ml-1">Slab 2 (10-100kg)</label>
-                                 <div className="relative">
-                                    <span className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400 font-bold">₹</span>
-                                    <input type="number" className="w-full pl-8 pr-4 py-3 bg-slate-50 border border-slate-200 rounded-xl font-black text-slate-900 focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 transition-all outline-none" value={config.parcelSlab2Rate} onChange={(e) => setConfig({ ...config, parcelSlab2Rate: parseFloat(e.target.value) || 0 })} />
-                                 </div>
-                              </div>
-                              <div>
-                                 <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider block mb-1.5 ml-1">Slab 3 (&gt;100kg)</label>
-                                 <div className="relative">
-                                    <span className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400 font-bold">₹</span>
-                                    <input type="number" className="w-full pl-8 pr-4 py-3 bg-slate-50 border border-slate-200 rounded-xl font-black text-slate-900 focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 transition-all outline-none" value={config.parcelSlab3Rate} onChange={(e) => setConfig({ ...config, parcelSlab3Rate: parseFloat(e.target.value) || 0 })} />
-                                 </div>
-                              </div>
-                           </div>
+                           {renderSlabEditor(config, setConfig)}
                         </div>
                      </div>
 
@@ -1963,7 +3880,29 @@ const App: React.FC = () => {
                         </div>
                      </div>
 
-                     <button onClick={() => setIsConfigOpen(false)} className="w-full py-4 bg-indigo-900 text-white font-black rounded-2xl hover:bg-black transition-all shadow-xl shadow-indigo-200 active:scale-95 flex items-center justify-center gap-2">
+                     {/* Surcharges Section */}
+                     <div className="space-y-4">
+                        <div className="flex items-center gap-2 text-indigo-900 mb-2">
+                           <div className="p-1 bg-rose-100 rounded-lg text-rose-600"><CalculatorIcon className="h-4 w-4" /></div>
+                           <span className="font-black text-xs uppercase tracking-wider">Surcharges</span>
+                        </div>
+                        <div className="bg-white p-5 rounded-2xl border border-slate-200 shadow-sm">
+                           {renderSurchargeEditor(config, setConfig)}
+                        </div>
+                     </div>
+
+                     {/* Tax Section */}
+                     <div className="space-y-4">
+                        <div className="flex items-center gap-2 text-indigo-900 mb-2">
+                           <div className="p-1 bg-amber-100 rounded-lg text-amber-600"><CalculatorIcon className="h-4 w-4" /></div>
+                           <span className="font-black text-xs uppercase tracking-wider">GST</span>
+                        </div>
+                        <div className="bg-white p-5 rounded-2xl border border-slate-200 shadow-sm">
+                           {renderTaxEditor(config, setConfig)}
+                        </div>
+                     </div>
+
+                     <button onClick={() => { setConfig(normalizeConfig(config)); setIsConfigOpen(false); }} className="w-full py-4 bg-indigo-900 text-white font-black rounded-2xl hover:bg-black transition-all shadow-xl shadow-indigo-200 active:scale-95 flex items-center justify-center gap-2">
                         <CheckCircleIcon className="h-5 w-5 text-indigo-400" />
                         Save Configuration
                      </button>
@@ -1972,6 +3911,37 @@ const App: React.FC = () => {
             </div>
          )}
 
+         {/* Restore Mode Modal */}
+         {pendingRestore && (
+            <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/60 backdrop-blur-md p-4 animate-in fade-in duration-300 no-print">
+               <div className="bg-white rounded-[2.5rem] shadow-2xl max-w-lg w-full overflow-hidden border border-white/20 p-8">
+                  <h2 className="text-2xl font-black text-slate-900 mb-1">Restore Backup</h2>
+                  <p className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-6">{pendingRestore.fileName} · {new Date(pendingRestore.manifest.createdAt).toLocaleString()}</p>
+                  <div className="grid grid-cols-2 gap-3 mb-6 text-sm">
+                     {[
+                        ['Manifests', pendingRestore.snapshot.history.length],
+                        ['Folders', pendingRestore.snapshot.folders.length],
+                        ['Rate Cards', pendingRestore.snapshot.rateCards.length],
+                        ['Recycle Bin', pendingRestore.snapshot.recycleBin.length]
+                     ].map(([label, count]) => (
+                        <div key={label} className="bg-slate-50 rounded-2xl px-4 py-3 border border-slate-100"><div className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">{label}</div><div className="text-lg font-black text-slate-900">{count}</div></div>
+                     ))}
+                  </div>
+                  {pendingRestore.skipped.length > 0 && (
+                     <div className="mb-6 p-4 bg-amber-50 border border-amber-100 rounded-2xl text-xs text-amber-800 font-medium max-h-32 overflow-y-auto">
+                        <div className="font-black mb-1">{pendingRestore.skipped.length} invalid manifests will be skipped</div>
+                        {pendingRestore.skipped.map(line => <div key={line}>{line}</div>)}
+                     </div>
+                  )}
+                  <div className="space-y-3">
+                     <button onClick={() => restoreWorkspace('merge')} className="w-full py-4 bg-indigo-600 text-white font-black rounded-2xl hover:bg-indigo-700 shadow-lg shadow-indigo-200 transition-all">Merge <span className="font-medium opacity-70">- add missing, review duplicates</span></button>
+                     <button onClick={() => restoreWorkspace('replace')} className="w-full py-4 bg-white border border-red-200 text-red-600 font-black rounded-2xl hover:bg-red-50 transition-all">Replace Everything</button>
+                     <button onClick={() => setPendingRestore(null)} className="w-full py-3 font-bold text-slate-400 hover:text-slate-600 transition-colors">Cancel</button>
+                  </div>
+               </div>
+            </div>
+         )}
+
          {/* Import Conflict Modal */}
          {importConflict && (
             <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/60 backdrop-blur-md p-4 animate-in fade-in duration-300">
@@ -1979,7 +3949,7 @@ const App: React.FC = () => {
                   <div className="px-6 md:px-8 py-6 border-b border-slate-100 flex justify-between items-center bg-slate-50/50 sticky top-0 z-10 backdrop-blur-md">
                      <div className="flex items-center gap-3">
                         <div className="p-2.5 bg-amber-100 text-amber-600 rounded-xl shadow-sm"><ExclamationTriangleIcon className="h-6 w-6" /></div>
-                        <div><h2 className="text-lg md:text-xl font-black text-slate-900">Duplicate Manifest Found</h2><p className="text-[10px] md:text-xs text-slate-400 font-bold uppercase tracking-widest">Manifest <span className="text-indigo-600">{importConflict.newCandidate.manifestNo}</span> exists.</p></div>
+                        <div><h2 className="text-lg md:text-xl font-black text-slate-900">Duplicate Manifest Found</h2><p className="text-[10px] md:text-xs text-slate-400 font-bold uppercase tracking-widest">Manifest <span className="text-indigo-600">{importConflict.newCandidate.manifestNo}</span> exists.{conflictQueue.length > 0 && ` ${conflictQueue.length} more after this.`}</p></div>
                      </div>
                      <button onClick={() => resolveConflict('discard')} className="p-2.5 bg-white rounded-xl shadow-sm text-slate-400 hover:text-slate-900 transition-all"><XMarkIcon className="h-5 w-5" /></button>
                   </div>
@@ -2014,7 +3984,7 @@ const App: React.FC = () => {
                                  <div className="text-xl font-black text-indigo-700">₹{importConflict.newCandidate.totalAmount.toLocaleString()}</div>
                               </div>
                            </div>
-                           <div className="text-xs text-indigo-400/60 font-medium pt-3 border-t border-indigo-200 mt-2">Source: File Import</div>
+                           <div className="text-xs text-indigo-400/60 font-medium pt-3 border-t border-indigo-200 mt-2">Source: {importConflict.source === 'backup' ? 'Workspace Backup' : 'File Import'}</div>
                         </div>
                      </div>
                   </div>
@@ -2043,11 +4013,14 @@ const App: React.FC = () => {
                            <span className="text-[10px] text-white font-black uppercase">Hybrid Mode Active</span>
                         </div>
                      )}
+                     {extractionAbortRef.current && <button onClick={() => extractionAbortRef.current?.abort()} className="mt-6 px-6 py-2 border border-white/20 text-white/70 text-xs font-bold rounded-full hover:bg-white/10 hover:text-white transition-colors flex items-center gap-2">
+                        <XMarkIcon className="h-4 w-4" /> Cancel
+                     </button>}
                   </div>
                </div>
             </div>
          )}
-         {(isCreateFolderOpen || editingFolderId) && (<div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/60 backdrop-blur-md p-4 animate-in fade-in duration-300"><div className="bg-white rounded-[2.5rem] shadow-2xl max-w-lg w-full overflow-hidden border border-white/20 p-8 md:p-12"><h2 className="text-2xl md:text-3xl font-black text-slate-900 mb-2">{editingFolderId ? 'Rename Folder' : 'New Folder'}</h2><p className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-8">Organize your billing history</p><input autoFocus className="w-full px-6 py-4 md:px-8 md:py-5 bg-slate-50 border border-slate-200 rounded-[2rem] font-black text-lg md:text-xl mb-8 focus:ring-4 focus:ring-indigo-500/10 transition-all outline-none" placeholder="Folder Name..." value={newFolderName} onChange={(e) => setNewFolderName(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && (editingFolderId ? handleRenameFolder(editingFolderId, newFolderName) : handleCreateFolder())} /><div className="flex gap-4"><button onClick={() => { setIsCreateFolderOpen(false); setEditingFolderId(null); setNewFolderName(''); }} className="flex-1 py-3 md:py-4 font-black text-slate-400 bg-slate-50 rounded-[2rem] hover:bg-slate-100 transition-all">Cancel</button><button onClick={() => editingFolderId ? handleRenameFolder(editingFolderId, newFolderName) : handleCreateFolder()} className="flex-1 py-3 md:py-4 font-black text-white bg-indigo-600 rounded-[2rem] hover:bg-indigo-700 transition-all shadow-xl shadow-indigo-200">{editingFolderId ? 'Update' : 'Create'}</button></div></div></div>)}
+         {(isCreateFolderOpen || editingFolderId) && (<div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/60 backdrop-blur-md p-4 animate-in fade-in duration-300"><div className="bg-white rounded-[2.5rem] shadow-2xl max-w-lg w-full overflow-hidden border border-white/20 p-8 md:p-12"><h2 className="text-2xl md:text-3xl font-black text-slate-900 mb-2">{editingFolderId ? 'Rename Folder' : 'New Folder'}</h2><p className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-8">Organize your billing history</p><input autoFocus className="w-full px-6 py-4 md:px-8 md:py-5 bg-slate-50 border border-slate-200 rounded-[2rem] font-black text-lg md:text-xl mb-8 focus:ring-4 focus:ring-indigo-500/10 transition-all outline-none" placeholder="Folder Name..." value={newFolderName} onChange={(e) => setNewFolderName(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && (editingFolderId ? handleRenameFolder(editingFolderId, newFolderName) : handleCreateFolder())} /><label className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2 block ml-2">Client (for rate cards)</label><input list="folder-clients" className="w-full px-6 py-3 md:px-8 md:py-4 bg-slate-50 border border-slate-200 rounded-[2rem] font-bold text-base mb-8 focus:ring-4 focus:ring-indigo-500/10 transition-all outline-none" placeholder="Optional" value={newFolderClient} onChange={(e) => setNewFolderClient(e.target.value)} /><datalist id="folder-clients">{knownClients.map(c => <option key={c} value={c} />)}</datalist><label className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2 block ml-2">Billing Address (for invoices)</label><textarea rows={3} className="w-full px-6 py-3 md:px-8 md:py-4 bg-slate-50 border border-slate-200 rounded-[2rem] font-bold text-sm mb-8 focus:ring-4 focus:ring-indigo-500/10 transition-all outline-none resize-none" placeholder="Optional" value={newFolderAddress} onChange={(e) => setNewFolderAddress(e.target.value)} /><div className="flex gap-4"><button onClick={() => { setIsCreateFolderOpen(false); setEditingFolderId(null); setNewFolderName(''); setNewFolderClient(''); setNewFolderAddress(''); }} className="flex-1 py-3 md:py-4 font-black text-slate-400 bg-slate-50 rounded-[2rem] hover:bg-slate-100 transition-all">Cancel</button><button onClick={() => editingFolderId ? handleRenameFolder(editingFolderId, newFolderName) : handleCreateFolder()} className="flex-1 py-3 md:py-4 font-black text-white bg-indigo-600 rounded-[2rem] hover:bg-indigo-700 transition-all shadow-xl shadow-indigo-200">{editingFolderId ? 'Update' : 'Create'}</button></div></div></div>)}
          {/* Upload Modal */}
          {isUploadModalOpen && !importConflict && (
             <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/60 backdrop-blur-md p-4 animate-in fade-in duration-300">
@@ -2090,6 +4063,7 @@ const App: React.FC = () => {
                   <div className="flex flex-col sm:flex-row p-2 bg-slate-50/50 gap-2 px-6 md:px-8 mt-6">
                      <button onClick={() => setUploadTab('doc')} className={`flex-1 py-3 rounded-xl text-xs font-black uppercase tracking-widest transition-all ${uploadTab === 'doc' ? 'bg-white text-indigo-600 shadow-md ring-1 ring-slate-200' : 'text-slate-400 hover:bg-slate-100'}`}>Document (PDF)</button>
                      <button onClick={() => setUploadTab('img')} className={`flex-1 py-3 rounded-xl text-xs font-black uppercase tracking-widest transition-all ${uploadTab === 'img' ? 'bg-white text-indigo-600 shadow-md ring-1 ring-slate-200' : 'text-slate-400 hover:bg-slate-100'}`}>Images</button>
+                     <button onClick={() => setUploadTab('sheet')} className={`flex-1 py-3 rounded-xl text-xs font-black uppercase tracking-widest transition-all ${uploadTab === 'sheet' ? 'bg-white text-emerald-600 shadow-md ring-1 ring-slate-200' : 'text-slate-400 hover:bg-slate-100'}`}>Spreadsheet</button>
                      <button onClick={() => setUploadTab('json')} className={`flex-1 py-3 rounded-xl text-xs font-black uppercase tracking-widest transition-all ${uploadTab === 'json' ? 'bg-white text-emerald-600 shadow-md ring-1 ring-slate-200' : 'text-slate-400 hover:bg-slate-100'}`}>JSON Backup</button>
                   </div>
 
@@ -2120,6 +4094,19 @@ const App: React.FC = () => {
                         </div>
                      )}
 
+                     {uploadTab === 'sheet' && (
+                        <div className="space-y-6">
+                           <div className="border-2 border-dashed border-emerald-100 rounded-[2rem] p-8 text-center hover:bg-emerald-50/30 transition-colors relative cursor-pointer group">
+                              <input type="file" className="absolute inset-0 w-full h-full opacity-0 cursor-pointer" accept=".csv,.xlsx" onChange={(e) => e.target.files?.[0] && handleSpreadsheetFile(e.target.files[0])} />
+                              <div className="w-16 h-16 rounded-2xl bg-emerald-50 flex items-center justify-center mx-auto mb-4 text-emerald-300 group-hover:scale-110 transition-transform">
+                                 <TableCellsIcon className="h-8 w-8" />
+                              </div>
+                              <p className="text-emerald-900 font-bold">Select Excel (.xlsx) or CSV Runsheet</p>
+                              <p className="text-xs text-emerald-400 mt-2">Columns are mapped once per client, no AI processing</p>
+                           </div>
+                        </div>
+                     )}
+
                      {uploadTab === 'json' && (
                         <div className="space-y-6">
                            <div className="border-2 border-dashed border-emerald-100 rounded-[2rem] p-8 text-center hover:bg-emerald-50/30 transition-colors relative cursor-pointer group">
@@ -2136,6 +4123,19 @@ const App: React.FC = () => {
                </div>
             </div>
          )}
+
+         {sheetImport && renderSheetMapping()}
+
+         {/* Status Toast */}
+         {status && (
+            <div className="fixed bottom-6 right-6 z-[60] max-w-sm no-print animate-in slide-in-from-bottom-4 duration-200">
+               <div className={`flex items-start gap-3 px-5 py-4 rounded-2xl shadow-2xl border ${status.type === 'error' ? 'bg-red-50 border-red-200 text-red-800' : status.type === 'success' ? 'bg-emerald-50 border-emerald-200 text-emerald-800' : 'bg-white border-slate-200 text-slate-700'}`} role={status.type === 'error' ? 'alert' : 'status'}>
+                  {status.type === 'error' ? <ExclamationTriangleIcon className="h-5 w-5 flex-shrink-0 text-red-500" /> : <CheckCircleIcon className={`h-5 w-5 flex-shrink-0 ${status.type === 'success' ? 'text-emerald-500' : 'text-indigo-500'}`} />}
+                  <p className="text-sm font-bold flex-1">{status.message}</p>
+                  <button onClick={() => setStatus(null)} className="p-0.5 rounded-lg opacity-60 hover:opacity-100 transition-opacity" title="Dismiss"><XMarkIcon className="h-4 w-4" /></button>
+               </div>
+            </div>
+         )}
       </div>
    );
 };
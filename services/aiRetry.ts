@@ -0,0 +1,157 @@
+import type { StatusUpdateCallback } from './extractionService';
+
+export type AiErrorKind =
+  | 'rate-limit'    // 429 / quota exhausted
+  | 'timeout'       // No answer within the per-call limit
+  | 'server'        // 5xx and network failures
+  | 'invalid-json'  // Unparseable, truncated or schema-violating response
+  | 'safety'        // Prompt or response blocked by the model's filters
+  | 'auth'          // Missing or rejected API key
+  | 'bad-request'   // 400: the request itself was refused, e.g. an argument this model doesn't accept
+  | 'cancelled'     // Aborted by the caller
+  | 'unknown';
+
+const KIND_LABELS: Record<AiErrorKind, string> = {
+  'rate-limit': 'rate limited',
+  timeout: 'timed out',
+  server: 'service unavailable',
+  'invalid-json': 'invalid response',
+  safety: 'blocked by safety filters',
+  auth: 'API key rejected',
+  'bad-request': 'bad request',
+  cancelled: 'cancelled',
+  unknown: 'failed'
+};
+
+/**
+ * A failed AI call, classified so callers can decide whether to retry the same
+ * model, move to the next one or give up.
+ */
+export class AiCallError extends Error {
+  kind: AiErrorKind;
+  retryAfterMs?: number; // Delay the service asked for, if it gave one
+
+  constructor(kind: AiErrorKind, message: string, retryAfterMs?: number) {
+    super(message);
+    this.name = 'AiCallError';
+    this.kind = kind;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// Worth another attempt on the same model. A bad request is neither: the same
+// call would be refused again, but the next model may accept it.
+const RETRYABLE: AiErrorKind[] = ['rate-limit', 'timeout', 'server', 'invalid-json', 'unknown'];
+// Pointless on any model: the next one would fail the same way
+const FATAL: AiErrorKind[] = ['safety', 'auth', 'cancelled'];
+
+export const isRetryable = (err: AiCallError) => RETRYABLE.includes(err.kind);
+export const isFatal = (err: AiCallError) => FATAL.includes(err.kind);
+
+export const describeAiError = (err: AiCallError) => `${KIND_LABELS[err.kind]}: ${err.message}`;
+
+/**
+ * Reads "retryDelay": "36s" (google.rpc.RetryInfo) or "retry in 36.5s" from
+ * an error message, in milliseconds.
+ */
+export function parseRetryAfter(message: string): number | undefined {
+  const match = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/) || message.match(/retry (?:in|after) (\d+(?:\.\d+)?)\s*s/i);
+  return match ? Math.round(parseFloat(match[1]) * 1000) : undefined;
+}
+
+/**
+ * Maps anything thrown by the SDK (or our own parsing) onto an AiCallError.
+ */
+export function classifyAiError(error: unknown): AiCallError {
+  if (error instanceof AiCallError) return error;
+  const err = error as { name?: string, message?: string, status?: number };
+  const message = err?.message || String(error);
+  const status = typeof err?.status === 'number' ? err.status : Number(message.match(/\bstatus:?\s*(\d{3})\b/i)?.[1]) || 0;
+
+  if (err?.name === 'AbortError') return new AiCallError('cancelled', 'The request was cancelled');
+  if (err?.name === 'TimeoutError') return new AiCallError('timeout', message);
+  if (status === 429 || /RESOURCE_EXHAUSTED|rate limit|quota/i.test(message)) {
+    return new AiCallError('rate-limit', message, parseRetryAfter(message));
+  }
+  if (status === 408 || status === 504 || /DEADLINE_EXCEEDED|timed? ?out/i.test(message)) return new AiCallError('timeout', message);
+  if (status >= 500 || /UNAVAILABLE|failed to fetch|network/i.test(message)) return new AiCallError('server', message, parseRetryAfter(message));
+  if (status === 401 || status === 403 || /API key/i.test(message)) return new AiCallError('auth', message);
+  if (status === 400 || /INVALID_ARGUMENT/.test(message)) return new AiCallError('bad-request', message);
+  if (/SAFETY|blocked/i.test(message)) return new AiCallError('safety', message);
+  if (error instanceof SyntaxError) return new AiCallError('invalid-json', message);
+  return new AiCallError('unknown', message);
+}
+
+export interface RetryOptions {
+  attempts: number;    // Tries per model, including the first
+  baseDelayMs: number; // Doubled after each failure
+  maxDelayMs: number;  // Cap for backoff and for retry-after hints
+}
+
+export const DEFAULT_RETRY: RetryOptions = { attempts: 3, baseDelayMs: 1000, maxDelayMs: 30000 };
+
+/**
+ * Wait before retry `attempt` (1-based): the service's retry-after hint when
+ * given, else exponential backoff with equal jitter (half the backoff fixed,
+ * half random). Both are capped at `maxDelayMs`.
+ */
+export function retryDelay(attempt: number, err: AiCallError, options: RetryOptions = DEFAULT_RETRY, random = Math.random): number {
+  if (err.retryAfterMs !== undefined) return Math.min(options.maxDelayMs, err.retryAfterMs);
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(ceiling / 2 + random() * ceiling / 2);
+}
+
+// Resolves after `ms`, or rejects as soon as the signal aborts
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) { reject(new AiCallError('cancelled', 'The request was cancelled')); return; }
+  const onAbort = () => { clearTimeout(timer); reject(new AiCallError('cancelled', 'The request was cancelled')); };
+  const timer = setTimeout(() => { signal?.removeEventListener('abort', onAbort); resolve(); }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Runs `attempt` with a signal that aborts after `timeoutMs` or when the
+ * caller's signal does. A timeout surfaces as a 'timeout' error, a caller
+ * abort as 'cancelled'.
+ */
+export async function withTimeout<T>(attempt: (signal: AbortSignal) => Promise<T>, timeoutMs: number, signal?: AbortSignal): Promise<T> {
+  if (signal?.aborted) throw new AiCallError('cancelled', 'The request was cancelled');
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => { timedOut = true; controller.abort(); }, timeoutMs);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+  try {
+    return await attempt(controller.signal);
+  } catch (err) {
+    if (timedOut) throw new AiCallError('timeout', `No response after ${Math.round(timeoutMs / 1000)}s`);
+    if (signal?.aborted) throw new AiCallError('cancelled', 'The request was cancelled');
+    throw classifyAiError(err);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * Calls `attempt` until it succeeds, the error is not retryable or the tries
+ * run out. Every wait is reported through `onStatusUpdate`.
+ */
+export async function withRetry<T>(
+  label: string,
+  attempt: () => Promise<T>,
+  { signal, onStatusUpdate, options = DEFAULT_RETRY }: { signal?: AbortSignal, onStatusUpdate?: StatusUpdateCallback, options?: RetryOptions } = {}
+): Promise<T> {
+  for (let n = 1; ; n++) {
+    try {
+      return await attempt();
+    } catch (error) {
+      const err = classifyAiError(error);
+      if (!isRetryable(err) || n >= options.attempts) throw err;
+      const wait = retryDelay(n, err, options);
+      console.warn(`${label} attempt ${n} ${KIND_LABELS[err.kind]}, retrying in ${wait}ms`, err);
+      if (onStatusUpdate) onStatusUpdate(`${label} ${KIND_LABELS[err.kind]}. Retrying in ${Math.ceil(wait / 1000)}s (attempt ${n + 1} of ${options.attempts})...`);
+      await sleep(wait, signal);
+    }
+  }
+}
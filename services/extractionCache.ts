@@ -0,0 +1,70 @@
+import type { ExtractionResult } from './extractionService';
+import { workspaceStore } from './storageService';
+
+// A parsed result stored under the hash of the request that produced it
+export interface CachedExtraction {
+  key: string;
+  result: ExtractionResult;
+  storedAt: number;
+  lastUsedAt: number; // For least-recently-used eviction
+}
+
+export interface ExtractionCacheStats {
+  hits: number;
+  misses: number;
+}
+
+export const DEFAULT_CACHE_LIMIT = 100;
+
+let cacheLimit = DEFAULT_CACHE_LIMIT;
+let stats: ExtractionCacheStats = { hits: 0, misses: 0 };
+
+/**
+ * Number of results kept; 0 turns the cache off.
+ */
+export function setExtractionCacheLimit(limit: number) {
+  cacheLimit = Math.max(0, Math.floor(limit));
+}
+
+// Restores the counters saved by a previous session
+export function restoreExtractionCacheStats(saved?: Partial<ExtractionCacheStats>) {
+  stats = { hits: saved?.hits || 0, misses: saved?.misses || 0 };
+}
+
+const count = (outcome: keyof ExtractionCacheStats) => {
+  stats = { ...stats, [outcome]: stats[outcome] + 1 };
+  workspaceStore.save('extractionCacheStats', stats);
+};
+
+/**
+ * The cached result for `key`, or null on a miss. Hits and misses are counted
+ * and a hit is marked as recently used.
+ */
+export async function readCachedExtraction(key: string): Promise<CachedExtraction | null> {
+  if (cacheLimit === 0) return null;
+  const entry = await workspaceStore.getCachedExtraction(key);
+  if (!entry) {
+    count('misses');
+    return null;
+  }
+  count('hits');
+  workspaceStore.putCachedExtraction({ ...entry, lastUsedAt: Date.now() }, cacheLimit);
+  return entry;
+}
+
+export async function cacheExtraction(key: string, result: ExtractionResult): Promise<void> {
+  if (cacheLimit === 0) return;
+  const now = Date.now();
+  await workspaceStore.putCachedExtraction({ key, result, storedAt: now, lastUsedAt: now }, cacheLimit);
+}
+
+export async function getExtractionCacheStats(): Promise<ExtractionCacheStats & { entries: number, limit: number }> {
+  return { ...stats, entries: await workspaceStore.countCachedExtractions(), limit: cacheLimit };
+}
+
+// Empties the cache and resets the counters
+export async function clearExtractionCache(): Promise<boolean> {
+  stats = { hits: 0, misses: 0 };
+  workspaceStore.save('extractionCacheStats', stats);
+  return workspaceStore.clearExtractionCache();
+}
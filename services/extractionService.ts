@@ -0,0 +1,184 @@
+import { geminiProvider } from './geminiService';
+import { ocrProvider } from './ocrProvider';
+import { extractInBatches, splitIntoBatches } from './pageBatching';
+import { cacheExtraction, readCachedExtraction } from './extractionCache';
+import { ExtractionInfo, FieldConfidence, PrintedTotals, RowSource } from '../types';
+import type { ExtractionNote } from '../utils/reviewLogic';
+import type { AiCallError } from './aiRetry';
+
+export interface FileInput {
+  data: string;
+  mimeType: string;
+}
+
+export type StatusUpdateCallback = (message: string) => void;
+
+// Shape every provider returns (mirrors the Gemini response schema)
+export interface ExtractedItem {
+  slNo?: number;
+  serialNo: string;
+  description?: string;
+  type?: 'Parcel' | 'Document';
+  weight: number;
+  length?: number;
+  width?: number;
+  height?: number;
+  confidence?: FieldConfidence; // 0-1 per field
+  source?: RowSource;           // Page and region the item was read from, if known
+}
+
+export interface ExtractionResult {
+  manifestNo?: string;
+  manifestDate?: string;
+  items: ExtractedItem[];
+  errors?: ExtractionNote[];
+  printedTotals?: PrintedTotals; // Footer totals, for checking that no rows were missed
+  provider?: string;       // Label of the provider that produced the result
+  lowConfidence?: boolean; // Heuristic results that need row-by-row review
+  confidence?: number;     // 0-1, when the provider reports one
+  cachedAt?: number;       // Set when the result came from the extraction cache
+}
+
+export interface ExtractionRequest {
+  inputs: FileInput[];
+  instruction: string;
+  useHybridMode: boolean;
+  onStatusUpdate?: StatusUpdateCallback;
+  signal?: AbortSignal; // Aborts in-flight calls, e.g. when the user cancels or pauses
+}
+
+export interface ExtractionProvider {
+  id: string;
+  label: string;
+  extract(request: ExtractionRequest): Promise<ExtractionResult>;
+}
+
+// A provider response keyed by the exact inputs that produced it
+export interface ExtractionRecording {
+  fingerprint: string;
+  recordedAt: number;
+  pageCount: number;
+  result: ExtractionResult;
+}
+
+let activeProvider: ExtractionProvider = geminiProvider;
+let fallbackProvider: ExtractionProvider | null = ocrProvider;
+const sessionRecordings: ExtractionRecording[] = [];
+
+export function setExtractionProvider(provider: ExtractionProvider) {
+  activeProvider = provider;
+}
+
+export function getExtractionProvider(): ExtractionProvider {
+  return activeProvider;
+}
+
+/**
+ * Provider tried when a live provider fails, or null to surface the failure.
+ * Replay never falls back: its failures are setup problems, not outages.
+ */
+export function setFallbackProvider(provider: ExtractionProvider | null) {
+  fallbackProvider = provider;
+}
+
+/**
+ * Responses from live providers during this session, ready to save as
+ * fixtures for the replay provider.
+ */
+export function getSessionRecordings(): ExtractionRecording[] {
+  return [...sessionRecordings];
+}
+
+const sha256 = async (text: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * SHA-256 over the mime types and data of all pages, in order.
+ */
+export async function fingerprintInputs(inputs: FileInput[]): Promise<string> {
+  return sha256(inputs.map(input => `${input.mimeType}:${input.data}`).join('|'));
+}
+
+// The same pages read by another provider, mode or instruction are a different result
+const cacheKey = async (providerId: string, inputs: FileInput[], instruction: string, useHybridMode: boolean) =>
+  sha256(JSON.stringify([providerId, useHybridMode ? 'hybrid' : 'default', instruction, await fingerprintInputs(inputs)]));
+
+/**
+ * Extracts billing data with the active provider. Long documents go to live
+ * providers in page batches whose results are merged back into one. Live
+ * responses are kept as session recordings so the same imports can later be
+ * replayed offline, and cached so the same request is answered locally unless
+ * `useCache` is false. Fallback results are never cached. If the
+ * provider fails, the fallback provider is tried unless `allowFallback` is false
+ * (callers that retry in another mode first) or the call was cancelled. The
+ * final failure reason is reported through `onStatusUpdate` before throwing.
+ */
+export async function parseBillingDocument(
+  inputs: FileInput[],
+  processingInstruction: string,
+  useHybridMode: boolean,
+  onStatusUpdate?: StatusUpdateCallback,
+  options: { allowFallback?: boolean, signal?: AbortSignal, useCache?: boolean } = {}
+): Promise<ExtractionResult> {
+  const provider = activeProvider;
+  const request = { inputs, instruction: processingInstruction, useHybridMode, onStatusUpdate, signal: options.signal };
+
+  // Replay is already local; caching it would only shadow newly loaded recordings
+  const key = provider.id !== 'replay' && options.useCache !== false
+    ? await cacheKey(provider.id, inputs, processingInstruction, useHybridMode)
+    : null;
+  const cached = key ? await readCachedExtraction(key) : null;
+  if (cached) {
+    if (onStatusUpdate) onStatusUpdate(`Using cached result from ${new Date(cached.storedAt).toLocaleString()}...`);
+    return { ...cached.result, provider: cached.result.provider || provider.label, cachedAt: cached.storedAt };
+  }
+
+  let result: ExtractionResult;
+  try {
+    // Replay matches recordings of the whole document, so it is never split
+    const batches = provider.id === 'replay' ? [] : await splitIntoBatches(inputs);
+    result = batches.length > 1
+      ? await extractInBatches(provider, request, batches)
+      : await provider.extract(request);
+    if (!Array.isArray(result?.items)) throw new Error(`${provider.label} returned no items`);
+  } catch (err) {
+    const fallback = fallbackProvider;
+    const cancelled = options.signal?.aborted || (err as AiCallError)?.kind === 'cancelled';
+    if (cancelled || options.allowFallback === false || !fallback || provider.id === 'replay' || fallback.id === provider.id) throw err;
+    console.warn(`${provider.label} failed, falling back to ${fallback.label}`, err);
+    if (onStatusUpdate) onStatusUpdate(`${provider.label} unavailable (${(err as Error)?.message || err}). Falling back to ${fallback.label}...`);
+    try {
+      result = await fallback.extract(request);
+    } catch (fallbackErr) {
+      const reason = `${(err as Error)?.message || err}; ${fallback.label} also failed: ${(fallbackErr as Error)?.message || fallbackErr}`;
+      if (onStatusUpdate) onStatusUpdate(reason);
+      throw new Error(reason);
+    }
+    return { ...result, provider: fallback.label };
+  }
+
+  if (provider.id !== 'replay') {
+    sessionRecordings.push({
+      fingerprint: await fingerprintInputs(inputs),
+      recordedAt: Date.now(),
+      pageCount: inputs.length,
+      result
+    });
+  }
+  result = { ...result, provider: result.provider || provider.label };
+  if (key) await cacheExtraction(key, result);
+  return result;
+}
+
+/**
+ * What gets stored on a manifest about how it was extracted.
+ */
+export function toExtractionInfo(result: ExtractionResult): ExtractionInfo {
+  return {
+    provider: result.provider || activeProvider.label,
+    lowConfidence: !!result.lowConfidence,
+    ...(typeof result.confidence === 'number' ? { confidence: result.confidence } : {})
+  };
+}
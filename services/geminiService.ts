@@ -1,14 +1,20 @@
-import { GoogleGenAI, Type } from "@google/genai";
+import { FinishReason, GenerateContentResponse, GoogleGenAI, Type } from "@google/genai";
+import type { ExtractionProvider, ExtractionRequest, ExtractionResult, StatusUpdateCallback } from './extractionService';
+import { AiCallError, describeAiError, isFatal, withRetry, withTimeout } from './aiRetry';
+import { RowSource } from '../types';
+import { readPrintedTotals } from '../utils/totalsCheck';
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// Built on first use so the app (and offline providers) load without an API key
+let ai: GoogleGenAI | null = null;
 
-export interface FileInput {
-  data: string;
-  mimeType: string;
+function getClient(): GoogleGenAI {
+  if (!ai) {
+    if (!process.env.API_KEY) throw new Error('Gemini API key is not configured (set GEMINI_API_KEY)');
+    ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  }
+  return ai;
 }
 
-export type StatusUpdateCallback = (message: string) => void;
-
 // Define model tiers
 const MODELS = {
   FAST: 'gemini-3-flash-preview',
@@ -16,33 +22,56 @@ const MODELS = {
   FALLBACK: 'gemini-flash-latest' // gemini-flash (older stable)
 };
 
+// Large multi-page PDFs can take a while; anything longer is treated as hung
+const CALL_TIMEOUT_MS = 120000;
+
+const BLOCKED_FINISH_REASONS: string[] = [
+  FinishReason.SAFETY, FinishReason.RECITATION, FinishReason.BLOCKLIST, FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII, FinishReason.IMAGE_SAFETY, FinishReason.IMAGE_PROHIBITED_CONTENT
+];
+
+// Turns a response into the parsed JSON, or throws a classified error
+function readResponse(response: GenerateContentResponse): any {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) throw new AiCallError('safety', `Document was blocked (${blockReason})`);
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason)) throw new AiCallError('safety', `Response was blocked (${finishReason})`);
+
+  const truncated = finishReason === FinishReason.MAX_TOKENS;
+  const text = (response.text || '').trim();
+  if (!text) throw new AiCallError('invalid-json', truncated ? 'Response was cut off before any data' : 'Empty response');
+  let result: any;
+  try {
+    result = JSON.parse(text);
+  } catch {
+    throw new AiCallError('invalid-json', truncated ? 'Response was cut off mid-JSON' : 'Response is not valid JSON');
+  }
+  if (!Array.isArray(result?.items)) throw new AiCallError('invalid-json', 'Response has no items list');
+  return result;
+}
+
+/**
+ * One model, with retries: each try is cut off after CALL_TIMEOUT_MS and
+ * aborted as soon as `signal` is.
+ */
 async function callModel(
-  modelName: string, 
-  parts: any[], 
-  config: any, 
-  onStatusUpdate?: StatusUpdateCallback
+  modelName: string,
+  parts: any[],
+  config: any,
+  onStatusUpdate?: StatusUpdateCallback,
+  signal?: AbortSignal
 ) {
-  if (onStatusUpdate) onStatusUpdate(`Sending data to AI Model (${modelName})...`);
-  
-  try {
-    const response = await ai.models.generateContent({
+  return withRetry(modelName, () => {
+    if (onStatusUpdate) onStatusUpdate(`Sending data to AI Model (${modelName})...`);
+    return withTimeout(async abortSignal => readResponse(await getClient().models.generateContent({
       model: modelName,
       contents: [{ parts: parts }],
-      config: config
-    });
-    return response;
-  } catch (error: any) {
-    console.warn(`Model ${modelName} failed:`, error);
-    throw error;
-  }
+      config: { ...config, abortSignal }
+    })), CALL_TIMEOUT_MS, signal);
+  }, { signal, onStatusUpdate });
 }
 
-export async function parseBillingDocument(
-  inputs: FileInput[], 
-  processingInstruction: string,
-  useHybridMode: boolean,
-  onStatusUpdate?: StatusUpdateCallback
-) {
+async function extractWithGemini({ inputs, instruction: processingInstruction, useHybridMode, onStatusUpdate, signal }: ExtractionRequest): Promise<ExtractionResult> {
   const prompt = `
     Analyze the provided document(s) (Images, PDF, Excel, or Word) and extract billing data into a structured format.
     ${processingInstruction ? `PROCESSING INSTRUCTION: ${processingInstruction}` : ''}
@@ -51,6 +80,7 @@ export async function parseBillingDocument(
     1. **SL NO (Serial Number)**: The sequential number in the table list.
     2. **AWB / DOCUMENT NO**: The unique identifier for the shipment. accurate extraction is vital.
     3. **WEIGHT**: The weight of the item. Look for 'kg', 'g', 'lb'. Default to 0 if not found.
+    4. **DIMENSIONS** (optional): If the manifest lists package dimensions (e.g. "30x20x15", "L/B/H"), extract them in centimetres as 'length', 'width', 'height'. Omit when not present.
 
     METADATA EXTRACTION:
     - Look for a "Manifest Number", "MF No", "Runsheet No", or similar unique document ID. Map to 'manifestNo'.
@@ -63,11 +93,23 @@ export async function parseBillingDocument(
     LOGIC RULES:
     - If multiple images are provided, treat them as sequential pages of ONE manifest.
     - Detect table structures even if grid lines are missing (OCR inference).
-    - Ignore footer totals when extracting line items.
+    - Never extract footer totals as line items.
+
+    PRINTED TOTALS:
+    - If the manifest prints totals in its footer, read them into 'printedTotals': 'pieceCount' (total pieces / shipments), 'totalWeight' (total weight in kg) and 'docCount' (number of documents).
+    - Use the grand total on the last page, not per-page subtotals. Omit any total that is not printed; never compute one yourself.
     
+    SOURCE LOCATION:
+    - For every item, set 'source.page' to the 1-based page (or image) it appears on, and 'source.box' to the bounding box of its table row as [ymin, xmin, ymax, xmax] normalized to 0-1000.
+
+    CONFIDENCE:
+    - For every item, give 'confidence' scores between 0 and 1 for 'serialNo', 'weight' and 'type'.
+    - Score below 0.8 when the value is blurred, handwritten, overwritten, cut off or guessed.
+
     ERROR DETECTION:
     - Flag missing AWB numbers.
     - Flag duplicate AWB numbers.
+    - Set 'slNo' and 'serialNo' on each error that concerns one item, and 'field' to the affected field.
     
     Return the data as a JSON object matching the provided schema.
   `;
@@ -86,6 +128,14 @@ export async function parseBillingDocument(
       properties: {
         manifestNo: { type: Type.STRING },
         manifestDate: { type: Type.STRING },
+        printedTotals: {
+          type: Type.OBJECT,
+          properties: {
+            pieceCount: { type: Type.NUMBER },
+            totalWeight: { type: Type.NUMBER },
+            docCount: { type: Type.NUMBER }
+          }
+        },
         items: {
           type: Type.ARRAY,
           items: {
@@ -95,7 +145,25 @@ export async function parseBillingDocument(
               serialNo: { type: Type.STRING },
               description: { type: Type.STRING },
               type: { type: Type.STRING, enum: ['Parcel', 'Document'] },
-              weight: { type: Type.NUMBER }
+              weight: { type: Type.NUMBER },
+              length: { type: Type.NUMBER },
+              width: { type: Type.NUMBER },
+              height: { type: Type.NUMBER },
+              source: {
+                type: Type.OBJECT,
+                properties: {
+                  page: { type: Type.NUMBER },
+                  box: { type: Type.ARRAY, items: { type: Type.NUMBER } }
+                }
+              },
+              confidence: {
+                type: Type.OBJECT,
+                properties: {
+                  serialNo: { type: Type.NUMBER },
+                  weight: { type: Type.NUMBER },
+                  type: { type: Type.NUMBER }
+                }
+              }
             },
             required: ['serialNo', 'weight']
           }
@@ -106,7 +174,10 @@ export async function parseBillingDocument(
             type: Type.OBJECT,
             properties: {
               type: { type: Type.STRING },
-              message: { type: Type.STRING }
+              message: { type: Type.STRING },
+              slNo: { type: Type.NUMBER },
+              serialNo: { type: Type.STRING },
+              field: { type: Type.STRING, enum: ['serialNo', 'weight', 'type'] }
             }
           }
         }
@@ -115,38 +186,56 @@ export async function parseBillingDocument(
     }
   };
 
-  let response;
-
   if (onStatusUpdate) onStatusUpdate("Initializing document analysis...");
 
-  // HYBRID MODE LOGIC
-  // Strategy: Try the Best Model (Pro) -> Fallback to Flash -> Fallback to Lite/Stable
-  if (useHybridMode) {
-    try {
-      if (onStatusUpdate) onStatusUpdate("Hybrid Mode: Performing high-accuracy OCR & Extraction...");
-      response = await callModel(MODELS.ACCURATE, parts, schemaConfig, onStatusUpdate);
-    } catch (e) {
-      if (onStatusUpdate) onStatusUpdate("Primary AI busy. Activating Fallback Protocol (Gemini Flash)...");
-      try {
-        response = await callModel(MODELS.FAST, parts, schemaConfig, onStatusUpdate);
-      } catch (e2) {
-        if (onStatusUpdate) onStatusUpdate("Secondary AI busy. Trying Final Backup Model...");
-        response = await callModel(MODELS.FALLBACK, parts, schemaConfig, onStatusUpdate);
-      }
-    }
-  } else {
-    // DEFAULT MODE LOGIC
-    // Strategy: Try Flash (Fast) -> Fallback to Stable
+  // HYBRID MODE: Pro -> Flash -> stable Flash. DEFAULT MODE: Flash -> stable Flash.
+  // A model is only skipped once its retries are spent; blocked or rejected
+  // requests stop the chain since every model would refuse them alike.
+  const chain = useHybridMode ? [MODELS.ACCURATE, MODELS.FAST, MODELS.FALLBACK] : [MODELS.FAST, MODELS.FALLBACK];
+  if (onStatusUpdate) onStatusUpdate(useHybridMode ? "Hybrid Mode: Performing high-accuracy OCR & Extraction..." : "Default Mode: Standard processing...");
+
+  let result: any;
+  let lastError: AiCallError | null = null;
+  for (let i = 0; i < chain.length && !result; i++) {
     try {
-      if (onStatusUpdate) onStatusUpdate("Default Mode: Standard processing...");
-      response = await callModel(MODELS.FAST, parts, schemaConfig, onStatusUpdate);
+      result = await callModel(chain[i], parts, schemaConfig, onStatusUpdate, signal);
     } catch (e) {
-      if (onStatusUpdate) onStatusUpdate("Rate limit detected. Switching to backup model...");
-      response = await callModel(MODELS.FALLBACK, parts, schemaConfig, onStatusUpdate);
+      lastError = e as AiCallError;
+      console.warn(`Model ${chain[i]} failed:`, lastError);
+      if (isFatal(lastError) || i === chain.length - 1) break;
+      if (onStatusUpdate) onStatusUpdate(`${chain[i]} ${describeAiError(lastError)}. Switching to ${chain[i + 1]}...`);
     }
   }
+  if (!result) {
+    const reason = `Gemini ${describeAiError(lastError)}`;
+    if (onStatusUpdate) onStatusUpdate(reason);
+    throw new AiCallError(lastError.kind, reason, lastError.retryAfterMs);
+  }
 
   if (onStatusUpdate) onStatusUpdate("Parsing structured data...");
-  const jsonStr = response.text.trim();
-  return JSON.parse(jsonStr);
-}
\ No newline at end of file
+  // Regions are only kept for image uploads: a PDF is shown in the browser's
+  // own viewer, where neither its pages nor their layout can be located
+  const imagePages = inputs.every(input => input.mimeType.startsWith('image/')) ? inputs.length : 0;
+  result.items.forEach((item: any) => { item.source = readSource(item.source, imagePages); });
+  result.printedTotals = readPrintedTotals(result.printedTotals);
+  return result;
+}
+
+// Gemini reports 1-based pages and [ymin, xmin, ymax, xmax] boxes on a 0-1000 grid
+function readSource(raw: any, pageCount: number): RowSource | undefined {
+  const page = Number(raw?.page);
+  if (!Number.isInteger(page) || page < 1 || page > pageCount) return undefined;
+  const box = Array.isArray(raw.box) && raw.box.length === 4 && raw.box.every((n: unknown) => typeof n === 'number')
+    ? raw.box.map((n: number) => Math.min(1, Math.max(0, n / 1000)))
+    : null;
+  return {
+    page: page - 1,
+    ...(box && box[2] > box[0] && box[3] > box[1] ? { box: { top: box[0], left: box[1], bottom: box[2], right: box[3] } } : {})
+  };
+}
+
+export const geminiProvider: ExtractionProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+  extract: extractWithGemini
+};
\ No newline at end of file
@@ -0,0 +1,95 @@
+import type { Worker } from 'tesseract.js';
+import type { ExtractionProvider } from './extractionService';
+import { OcrLine, parseOcrTable } from '../utils/ocrTableParser';
+
+// Pixel size of a page, used to turn OCR boxes into page fractions
+async function imageSize(dataUrl: string): Promise<{ width: number, height: number }> {
+  try {
+    const bitmap = await createImageBitmap(await (await fetch(dataUrl)).blob());
+    const size = { width: bitmap.width, height: bitmap.height };
+    bitmap.close();
+    return size;
+  } catch {
+    return { width: 0, height: 0 };
+  }
+}
+
+let workerPromise: Promise<Worker> | null = null;
+
+// Served by the tesseract-assets plugin in vite.config.ts. The worker runs from
+// a blob URL, so the paths have to be absolute.
+const assetUrl = (name: string) => new URL(`/tesseract/${name}`, location.href).href;
+
+// The OCR engine and its language data are only loaded the first time OCR runs
+function getWorker(): Promise<Worker> {
+  if (!workerPromise) {
+    workerPromise = import('tesseract.js')
+      .then(({ createWorker }) => createWorker('eng', undefined, {
+        workerPath: assetUrl('worker.min.js'),
+        corePath: assetUrl('core'),
+        langPath: assetUrl('lang')
+      }))
+      .catch(err => {
+        workerPromise = null;
+        throw new Error(`On-device OCR could not start: ${err?.message || err}`);
+      });
+  }
+  return workerPromise;
+}
+
+/**
+ * In-browser OCR with a table heuristic. Reads images only; results are always
+ * flagged low confidence so they go through review before saving.
+ */
+export const ocrProvider: ExtractionProvider = {
+  id: 'local-ocr',
+  label: 'On-device OCR',
+  extract: async ({ inputs, onStatusUpdate, signal }) => {
+    const images = inputs.filter(input => input.mimeType.startsWith('image/'));
+    if (images.length === 0) throw new Error('On-device OCR reads images only; PDFs and spreadsheets need the AI service');
+
+    if (onStatusUpdate) onStatusUpdate("On-device OCR: loading engine...");
+    const worker = await getWorker();
+
+    const lines: OcrLine[] = [];
+    const pageSizes: { width: number, height: number }[] = [];
+    for (let i = 0; i < images.length; i++) {
+      // A page in progress can't be interrupted; stop before the next one
+      if (signal?.aborted) throw new Error('On-device OCR was cancelled');
+      if (onStatusUpdate) onStatusUpdate(`On-device OCR: reading page ${i + 1} of ${images.length}...`);
+      const dataUrl = `data:${images[i].mimeType};base64,${images[i].data}`;
+      pageSizes.push(await imageSize(dataUrl));
+      const { data } = await worker.recognize(dataUrl, {}, { blocks: true });
+      (data.blocks || []).forEach(block =>
+        block.paragraphs.forEach(paragraph =>
+          paragraph.lines.forEach(line =>
+            lines.push({ page: i, words: line.words.map(w => ({ text: w.text, confidence: w.confidence, bbox: w.bbox })) }))));
+    }
+
+    const table = parseOcrTable(lines);
+    if (table.items.length === 0) throw new Error('On-device OCR found no AWB rows in the image');
+
+    const skipped = inputs.length - images.length;
+    const warnings = skipped ? [...table.warnings, `${skipped} non-image pages were skipped.`] : table.warnings;
+    return {
+      manifestNo: table.manifestNo,
+      manifestDate: table.manifestDate,
+      items: table.items.map(({ source, ...item }) => {
+        // Parser pages count images only; map back to the position among all inputs
+        const size = pageSizes[source.page];
+        return {
+          ...item,
+          source: {
+            page: inputs.indexOf(images[source.page]),
+            ...(size.width && size.height ? {
+              box: { top: source.box.y0 / size.height, left: source.box.x0 / size.width, bottom: source.box.y1 / size.height, right: source.box.x1 / size.width }
+            } : {})
+          }
+        };
+      }),
+      errors: warnings.map(message => ({ type: 'LOW_CONFIDENCE', message })),
+      lowConfidence: true,
+      confidence: table.confidence
+    };
+  }
+};
@@ -0,0 +1,126 @@
+import type { PDFDocument } from 'pdf-lib';
+import type { ExtractionProvider, ExtractionRequest, ExtractionResult, FileInput } from './extractionService';
+import { BatchResult, mergeBatchResults } from '../utils/extractionMerge';
+
+// Pages sent per request; long runsheets lose rows when sent whole
+export const PAGES_PER_BATCH = 5;
+// Batches in flight at once; more only trades rate limits for speed
+export const BATCH_CONCURRENCY = 2;
+
+export interface PageBatch {
+  inputs: FileInput[];
+  firstPage: number;      // 1-based, across all inputs
+  lastPage: number;
+  inputIndexes: number[]; // Batch input -> index of the original input
+}
+
+// One page of the document: a whole image, or one page of a PDF
+interface PageRef {
+  inputIndex: number;
+  pdfPage?: number;
+}
+
+const isPdf = (input: FileInput) => input.mimeType === 'application/pdf';
+
+const singleBatch = (inputs: FileInput[], pageCount: number): PageBatch[] =>
+  [{ inputs, firstPage: 1, lastPage: pageCount, inputIndexes: inputs.map((_, i) => i) }];
+
+/**
+ * Splits the inputs into batches of at most `pagesPerBatch` pages, in order.
+ * Each image counts as a page; consecutive pages of the same PDF are copied
+ * into one smaller PDF. Documents that fit in one batch, or PDFs that can't be
+ * read, come back as a single batch unchanged.
+ */
+export async function splitIntoBatches(inputs: FileInput[], pagesPerBatch = PAGES_PER_BATCH): Promise<PageBatch[]> {
+  if (!inputs.some(isPdf) && inputs.length <= pagesPerBatch) return singleBatch(inputs, inputs.length);
+
+  // pdf-lib is only loaded once a PDF needs splitting
+  const pdfLib = await import('pdf-lib');
+  let docs: (PDFDocument | null)[];
+  try {
+    docs = await Promise.all(inputs.map(input => isPdf(input) ? pdfLib.PDFDocument.load(input.data, { ignoreEncryption: true }) : null));
+  } catch (err) {
+    console.warn('Could not read PDF for page splitting; sending it whole', err);
+    return singleBatch(inputs, inputs.length);
+  }
+
+  const pages: PageRef[] = inputs.flatMap((_, inputIndex) =>
+    docs[inputIndex] ? docs[inputIndex].getPageIndices().map(pdfPage => ({ inputIndex, pdfPage })) : [{ inputIndex }]);
+  if (pages.length <= pagesPerBatch) return singleBatch(inputs, pages.length);
+
+  const batches: PageBatch[] = [];
+  for (let start = 0; start < pages.length; start += pagesPerBatch) {
+    const slice = pages.slice(start, start + pagesPerBatch);
+    const batch: PageBatch = { inputs: [], firstPage: start + 1, lastPage: start + slice.length, inputIndexes: [] };
+    // Group runs of pages that come from the same input
+    for (let i = 0; i < slice.length;) {
+      const { inputIndex } = slice[i];
+      let end = i + 1;
+      while (end < slice.length && slice[end].inputIndex === inputIndex) end++;
+      const source = docs[inputIndex];
+      if (source) {
+        const part = await pdfLib.PDFDocument.create();
+        const copied = await part.copyPages(source, slice.slice(i, end).map(page => page.pdfPage));
+        copied.forEach(page => part.addPage(page));
+        batch.inputs.push({ data: await part.saveAsBase64(), mimeType: 'application/pdf' });
+      } else {
+        batch.inputs.push(inputs[inputIndex]);
+      }
+      batch.inputIndexes.push(inputIndex);
+      i = end;
+    }
+    batches.push(batch);
+  }
+  return batches;
+}
+
+/**
+ * Runs the provider over each batch, `concurrency` at a time, and merges the
+ * results in page order. The first failing batch fails the whole run and
+ * aborts the others.
+ */
+export async function extractInBatches(
+  provider: ExtractionProvider,
+  request: ExtractionRequest,
+  batches: PageBatch[],
+  concurrency = BATCH_CONCURRENCY
+): Promise<ExtractionResult> {
+  const { onStatusUpdate } = request;
+  const controller = new AbortController();
+  const onAbort = () => controller.abort();
+  request.signal?.addEventListener('abort', onAbort, { once: true });
+  const totalPages = batches[batches.length - 1].lastPage;
+  const results: BatchResult[] = new Array(batches.length);
+  let next = 0;
+  let done = 0;
+
+  const worker = async () => {
+    while (next < batches.length && !controller.signal.aborted) {
+      const index = next++;
+      const batch = batches[index];
+      const pages = `Pages ${batch.firstPage}-${batch.lastPage} of ${totalPages}`;
+      const result = await provider.extract({
+        ...request,
+        inputs: batch.inputs,
+        signal: controller.signal,
+        onStatusUpdate: onStatusUpdate ? message => onStatusUpdate(`${pages}: ${message}`) : undefined
+      });
+      if (!Array.isArray(result?.items)) throw new Error(`${provider.label} returned no items for ${pages.toLowerCase()}`);
+      results[index] = { result, firstPage: batch.firstPage, lastPage: batch.lastPage, inputIndexes: batch.inputIndexes };
+      done++;
+      if (onStatusUpdate) onStatusUpdate(`Read ${done} of ${batches.length} page batches...`);
+    }
+  };
+
+  try {
+    await Promise.all(Array.from({ length: Math.min(concurrency, batches.length) }, () => worker().catch(err => {
+      controller.abort();
+      throw err;
+    })));
+  } finally {
+    request.signal?.removeEventListener('abort', onAbort);
+  }
+
+  if (onStatusUpdate) onStatusUpdate(`Merging ${batches.length} page batches...`);
+  return mergeBatchResults(results);
+}
@@ -0,0 +1,39 @@
+import { ExtractionProvider, ExtractionRecording, fingerprintInputs } from './extractionService';
+
+/**
+ * Offline provider that replays recorded responses. Only inputs whose
+ * fingerprint matches a recording are answered; anything else is an error
+ * rather than another document's rows.
+ */
+export function createReplayProvider(recordings: ExtractionRecording[]): ExtractionProvider {
+  return {
+    id: 'replay',
+    label: 'Offline Replay',
+    extract: async ({ inputs, onStatusUpdate }) => {
+      if (recordings.length === 0) throw new Error('Offline Replay has no recordings loaded');
+      if (onStatusUpdate) onStatusUpdate("Offline Replay: matching recorded response...");
+
+      const fingerprint = await fingerprintInputs(inputs);
+      const recording = recordings.find(r => r.fingerprint === fingerprint);
+      if (!recording) throw new Error('Offline Replay has no recording for this input');
+
+      // Deep copy so callers can't mutate the fixture
+      return JSON.parse(JSON.stringify(recording.result));
+    }
+  };
+}
+
+/**
+ * Reads a recordings file (as saved from a live session). Accepts either an
+ * array of recordings or { recordings: [...] }.
+ */
+export function parseRecordings(json: unknown): ExtractionRecording[] {
+  const list = Array.isArray(json) ? json : (json as { recordings?: unknown })?.recordings;
+  if (!Array.isArray(list)) throw new Error('Expected a list of recordings');
+  return list.map((r, i) => {
+    if (!r || typeof r.fingerprint !== 'string' || !Array.isArray(r.result?.items)) {
+      throw new Error(`Recording #${i + 1} needs a fingerprint and result.items`);
+    }
+    return { fingerprint: r.fingerprint, recordedAt: r.recordedAt || 0, pageCount: r.pageCount || 0, result: r.result };
+  });
+}
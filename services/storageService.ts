@@ -0,0 +1,309 @@
+import { BillingConfig, ChunkSession, ColumnMapping, FinalBillState, Folder, InvoiceSettings, ManifestHistory, RateCard, ValidationRules } from '../types';
+import type { ExtractionRecording, FileInput } from './extractionService';
+import type { CachedExtraction, ExtractionCacheStats } from './extractionCache';
+import { safeLocalStorage } from '../utils/storageHelper';
+import { withSchemaVersion } from '../utils/schema';
+
+const DB_NAME = 'smart_billing';
+const DB_VERSION = 3;
+const RECORDS_STORE = 'records';
+const SOURCE_PAGES_STORE = 'sourcePages'; // Scanned pages, keyed by ManifestHistory.sourcePagesId
+const EXTRACTION_CACHE_STORE = 'extractionCache'; // Parsed results, keyed by input hash
+const MIGRATION_FLAG = 'migratedFromLocalStorage';
+
+export interface UserPrefs {
+  theme: string;
+  scale: number;
+  extractionProvider?: 'gemini' | 'replay'; // Absent = Gemini
+  ocrFallback?: boolean; // Absent = enabled
+  extractionCacheLimit?: number; // Absent = DEFAULT_CACHE_LIMIT
+}
+
+// Everything the app persists, one entry per key of the records store
+export interface StoredRecords {
+  history: ManifestHistory[];
+  recycleBin: ManifestHistory[];
+  folders: Folder[];
+  globalConfig: BillingConfig;
+  rateCards: RateCard[];
+  prefs: UserPrefs;
+  chunkSession: ChunkSession;
+  finalBill: FinalBillState;
+  extractionRecordings: ExtractionRecording[]; // Fixtures for the offline replay provider
+  validationRules: ValidationRules;
+  extractionCacheStats: ExtractionCacheStats;
+  columnMappings: ColumnMapping[]; // Spreadsheet import mappings, one per client
+  invoiceSettings: InvoiceSettings;
+}
+
+export type RecordKey = keyof StoredRecords;
+
+// localStorage keys used before IndexedDB; copied over once, then removed
+const LEGACY_KEYS: Partial<Record<RecordKey, string>> = {
+  history: 'smart_billing_manifest_history_v2',
+  recycleBin: 'smart_billing_recycle_bin_v2',
+  folders: 'smart_billing_folders_v2',
+  globalConfig: 'smart_billing_global_config',
+  rateCards: 'smart_billing_rate_cards',
+  prefs: 'smart_billing_user_prefs',
+  chunkSession: 'smart_billing_chunk_session',
+  finalBill: 'smart_billing_final_bill'
+};
+
+const RECORD_LABELS: Record<RecordKey, string> = {
+  history: 'manifest history',
+  recycleBin: 'recycle bin',
+  folders: 'folders',
+  globalConfig: 'billing settings',
+  rateCards: 'rate cards',
+  prefs: 'display preferences',
+  chunkSession: 'monthly session queue',
+  finalBill: 'final bill',
+  extractionRecordings: 'extraction recordings',
+  validationRules: 'validation rules',
+  extractionCacheStats: 'extraction cache statistics',
+  columnMappings: 'spreadsheet column mappings',
+  invoiceSettings: 'invoice layout'
+};
+
+const RECORD_KEYS = Object.keys(RECORD_LABELS) as RecordKey[];
+
+export interface StorageFailure {
+  key: RecordKey | typeof SOURCE_PAGES_STORE | typeof EXTRACTION_CACHE_STORE | null; // null = the database itself could not be opened
+  message: string;       // Ready to show to the user
+}
+
+type FailureListener = (failure: StorageFailure) => void;
+const listeners = new Set<FailureListener>();
+
+const report = (key: StorageFailure['key'], action: string, error: unknown) => {
+  const reason = error instanceof DOMException && error.name === 'QuotaExceededError'
+    ? 'browser storage is full'
+    : (error as Error)?.message || 'unknown error';
+  const label = key === SOURCE_PAGES_STORE ? 'source pages'
+    : key === EXTRACTION_CACHE_STORE ? 'extraction cache'
+    : key ? RECORD_LABELS[key] : 'local database';
+  const message = `Could not ${action} ${label}: ${reason}.`;
+  console.error(message, error);
+  listeners.forEach(listener => listener({ key, message }));
+};
+
+const promisify = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const completion = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error || new Error('Transaction aborted'));
+});
+
+// Manifest collections are stamped with the schema version they were written in
+const prepare = <K extends RecordKey>(key: K, value: StoredRecords[K]): StoredRecords[K] =>
+  key === 'history' || key === 'recycleBin'
+    ? (value as ManifestHistory[]).map(withSchemaVersion) as StoredRecords[K]
+    : value;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(RECORDS_STORE)) db.createObjectStore(RECORDS_STORE);
+        if (!db.objectStoreNames.contains(SOURCE_PAGES_STORE)) db.createObjectStore(SOURCE_PAGES_STORE);
+        if (!db.objectStoreNames.contains(EXTRACTION_CACHE_STORE)) db.createObjectStore(EXTRACTION_CACHE_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => reject(new Error('Database is locked by another open tab'));
+    }).then(migrateLegacyStorage);
+    // Allow a retry on the next call instead of caching the failure
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+/**
+ * One-time copy of the old localStorage keys into IndexedDB. Legacy keys are
+ * only removed after the transaction commits; unparseable values are left in
+ * place untouched.
+ */
+const migrateLegacyStorage = async (db: IDBDatabase): Promise<IDBDatabase> => {
+  const tx = db.transaction(RECORDS_STORE, 'readwrite');
+  const store = tx.objectStore(RECORDS_STORE);
+  const migrated = await promisify(store.get(MIGRATION_FLAG));
+  if (migrated) return db;
+
+  const copied: string[] = [];
+  (Object.keys(LEGACY_KEYS) as RecordKey[]).forEach(key => {
+    const raw = safeLocalStorage.getItem(LEGACY_KEYS[key]);
+    if (raw === null) return;
+    try {
+      store.put(JSON.parse(raw), key);
+      copied.push(LEGACY_KEYS[key]);
+    } catch (e) {
+      console.error(`Skipped migrating ${LEGACY_KEYS[key]}: invalid JSON`, e);
+    }
+  });
+  store.put(Date.now(), MIGRATION_FLAG);
+  await completion(tx);
+
+  copied.forEach(legacyKey => safeLocalStorage.removeItem(legacyKey));
+  return db;
+};
+
+/**
+ * Repository for all persisted app data, backed by IndexedDB.
+ * Writes never throw: failures are logged and reported to `onError` listeners
+ * so the UI can warn that data was not saved.
+ */
+export const workspaceStore = {
+  load: async (): Promise<Partial<StoredRecords>> => {
+    try {
+      const db = await openDatabase();
+      const store = db.transaction(RECORDS_STORE, 'readonly').objectStore(RECORDS_STORE);
+      const values = await Promise.all(RECORD_KEYS.map(key => promisify(store.get(key))));
+      const records: Partial<StoredRecords> = {};
+      RECORD_KEYS.forEach((key, i) => {
+        if (values[i] !== undefined) (records as Record<RecordKey, unknown>)[key] = values[i];
+      });
+      return records;
+    } catch (e) {
+      report(null, 'open', e);
+      return {};
+    }
+  },
+
+  save: async <K extends RecordKey>(key: K, value: StoredRecords[K]): Promise<boolean> => {
+    try {
+      const db = await openDatabase();
+      const tx = db.transaction(RECORDS_STORE, 'readwrite');
+      tx.objectStore(RECORDS_STORE).put(prepare(key, value), key);
+      await completion(tx);
+      return true;
+    } catch (e) {
+      report(key, 'save', e);
+      return false;
+    }
+  },
+
+  remove: async (key: RecordKey): Promise<boolean> => {
+    try {
+      const db = await openDatabase();
+      const tx = db.transaction(RECORDS_STORE, 'readwrite');
+      tx.objectStore(RECORDS_STORE).delete(key);
+      await completion(tx);
+      return true;
+    } catch (e) {
+      report(key, 'clear', e);
+      return false;
+    }
+  },
+
+  // Source pages live in their own store so the history record stays small
+  loadSourcePages: async (id: string): Promise<FileInput[] | null> => {
+    try {
+      const db = await openDatabase();
+      const pages = await promisify(db.transaction(SOURCE_PAGES_STORE, 'readonly').objectStore(SOURCE_PAGES_STORE).get(id));
+      return Array.isArray(pages) ? pages : null;
+    } catch (e) {
+      report(SOURCE_PAGES_STORE, 'load', e);
+      return null;
+    }
+  },
+
+  saveSourcePages: async (id: string, pages: FileInput[]): Promise<boolean> => {
+    try {
+      const db = await openDatabase();
+      const tx = db.transaction(SOURCE_PAGES_STORE, 'readwrite');
+      tx.objectStore(SOURCE_PAGES_STORE).put(pages, id);
+      await completion(tx);
+      return true;
+    } catch (e) {
+      report(SOURCE_PAGES_STORE, 'save', e);
+      return false;
+    }
+  },
+
+  // Deletes every page set not in `keepIds`, e.g. after manifests are purged
+  pruneSourcePages: async (keepIds: Set<string>): Promise<void> => {
+    try {
+      const db = await openDatabase();
+      const tx = db.transaction(SOURCE_PAGES_STORE, 'readwrite');
+      const store = tx.objectStore(SOURCE_PAGES_STORE);
+      const ids = await promisify(store.getAllKeys());
+      ids.forEach(id => { if (!keepIds.has(String(id))) store.delete(id); });
+      await completion(tx);
+    } catch (e) {
+      report(SOURCE_PAGES_STORE, 'clear', e);
+    }
+  },
+
+  getCachedExtraction: async (key: string): Promise<CachedExtraction | null> => {
+    try {
+      const db = await openDatabase();
+      const entry = await promisify(db.transaction(EXTRACTION_CACHE_STORE, 'readonly').objectStore(EXTRACTION_CACHE_STORE).get(key));
+      return entry || null;
+    } catch (e) {
+      report(EXTRACTION_CACHE_STORE, 'load', e);
+      return null;
+    }
+  },
+
+  // Stores the entry, then drops the least recently used entries beyond `limit`
+  putCachedExtraction: async (entry: CachedExtraction, limit: number): Promise<boolean> => {
+    try {
+      const db = await openDatabase();
+      const tx = db.transaction(EXTRACTION_CACHE_STORE, 'readwrite');
+      const store = tx.objectStore(EXTRACTION_CACHE_STORE);
+      store.put(entry, entry.key);
+      const entries: CachedExtraction[] = await promisify(store.getAll());
+      entries
+        .sort((a, b) => b.lastUsedAt - a.lastUsedAt)
+        .slice(Math.max(0, limit))
+        .forEach(old => store.delete(old.key));
+      await completion(tx);
+      return true;
+    } catch (e) {
+      report(EXTRACTION_CACHE_STORE, 'save', e);
+      return false;
+    }
+  },
+
+  countCachedExtractions: async (): Promise<number> => {
+    try {
+      const db = await openDatabase();
+      return await promisify(db.transaction(EXTRACTION_CACHE_STORE, 'readonly').objectStore(EXTRACTION_CACHE_STORE).count());
+    } catch (e) {
+      report(EXTRACTION_CACHE_STORE, 'load', e);
+      return 0;
+    }
+  },
+
+  clearExtractionCache: async (): Promise<boolean> => {
+    try {
+      const db = await openDatabase();
+      const tx = db.transaction(EXTRACTION_CACHE_STORE, 'readwrite');
+      tx.objectStore(EXTRACTION_CACHE_STORE).clear();
+      await completion(tx);
+      return true;
+    } catch (e) {
+      report(EXTRACTION_CACHE_STORE, 'clear', e);
+      return false;
+    }
+  },
+
+  // Returns an unsubscribe function
+  onError: (listener: FailureListener): (() => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+  }
+};
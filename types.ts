@@ -9,37 +9,155 @@ export interface BillingRow {
   serialNo: string;  // Maps to AWB No, Doc No, etc.
   description: string;
   type: ItemType;
-  weight: number;
+  weight: number;    // Actual weight (kg)
+  length?: number;   // Dimensions in cm, used for volumetric weight
+  width?: number;
+  height?: number;
   rate: number; 
   isManualRate: boolean;
-  amount: number;    // calculated
+  isCod?: boolean;   // Cash-on-delivery consignment, attracts the COD fee
+  isOda?: boolean;   // Out-of-delivery-area consignment, attracts the ODA surcharge
+  amount: number;    // calculated: freight + charges
   breakdown: string; // "10kg @ 3 + 5kg @ 2"
+  charges?: RowCharges; // calculated; absent on rows saved before surcharges existed
+  confidence?: FieldConfidence; // Reported by the extraction provider; absent on manual rows
+  flags?: RowFlag[];            // Open review issues, removed when the cell is edited or accepted
+  source?: RowSource;           // Where on the scanned pages the row was read
+}
+
+// Region of a source page, as fractions (0-1) of its width and height
+export interface PageBox {
+  top: number;
+  left: number;
+  bottom: number;
+  right: number;
+}
+
+export interface RowSource {
+  page: number; // 0-based index into the manifest's source pages
+  box?: PageBox;
+}
+
+// Row fields whose extraction is scored and reviewed
+export type ReviewField = 'serialNo' | 'weight' | 'type';
+
+export type FieldConfidence = Partial<Record<ReviewField, number>>; // 0-1 per field
+
+export interface RowFlag {
+  field: ReviewField;
+  message: string;
+}
+
+// Per-row split of the amount into freight and each surcharge component
+export interface RowCharges {
+  freight: number;      // Weight x slab rate, flat document rate or manual rate
+  minimumTopUp: number; // Added to bring parcel freight up to the minimum charge
+  fuel: number;
+  cod: number;
+  handling: number;
+  oda: number;
+  manifestFee?: number; // Flat per-manifest charge; only set on manifest totals, never on rows
+}
+
+export interface ParcelSlab {
+  upTo: number | null; // Cumulative upper bound in kg; null = open-ended last tier
+  rate: number;        // Rate per kg within this tier
+}
+
+export interface WeightRoundingRule {
+  step: number;                       // Billing increment in kg: 1 = whole kg, 0.5 = half kg, 0.001 = grams
+  mode: 'ceil' | 'nearest' | 'floor';
+  tolerance: number;                  // ceil only: excess (kg) over a step still billed at that step, e.g. 0.05
+}
+
+export interface SurchargeConfig {
+  minimumCharge: number;  // Minimum freight per parcel consignment (₹)
+  fuelPercent: number;    // Fuel surcharge, % of freight (after the minimum)
+  codFee: number;         // Per AWB marked COD (₹)
+  handlingFee: number;    // Per parcel (₹)
+  odaCharge: number;      // Per AWB marked ODA (₹)
+  manifestFee?: number;   // Flat charge per manifest (₹), added once to the manifest total
+}
+
+export interface TaxConfig {
+  enabled: boolean;
+  mode: 'intra' | 'inter'; // intra-state: CGST + SGST, inter-state: IGST
+  cgstRate: number;        // %
+  sgstRate: number;        // %
+  igstRate: number;        // %
+  sacCode: string;         // Service Accounting Code printed on the invoice
 }
 
 export interface BillingConfig {
-  parcelSlab1Rate: number; // <= 10kg
-  parcelSlab2Rate: number; // 10-100kg
-  parcelSlab3Rate: number; // > 100kg
+  parcelSlabs: ParcelSlab[]; // Ordered tiers, lowest bound first
   documentRate: number; // Flat rate for documents
+  volumetricDivisor?: number; // L×W×H (cm) / divisor = volumetric kg; 0 or absent = bill actual weight
+  weightRounding?: WeightRoundingRule; // Parcels only (documents bill flat documentRate); absent = round up to the next whole kg
+  surcharges?: SurchargeConfig; // Absent = freight only
+  tax?: TaxConfig;      // Absent = no tax (configs saved before GST support)
+}
+
+// Shape of configs saved before slab tiers became configurable
+export interface LegacyBillingConfig {
+  parcelSlab1Rate: number; // <= 10kg
+  parcelSlab2Rate: number; // 10-110kg
+  parcelSlab3Rate: number; // > 110kg
+  documentRate: number;
 }
 
 export interface ParsingError {
-  type: 'missing' | 'duplicate' | 'invalid';
+  type: 'missing' | 'duplicate' | 'invalid' | 'sequence';
   message: string;
   rowId?: string;
+  rule?: ValidationRuleId;              // Set on findings of the local validation rules
+  field?: 'slNo' | 'serialNo' | 'weight'; // Cell the finding points at
+  relatedManifestId?: string;            // Other manifest involved, e.g. where a duplicate AWB was billed
+}
+
+// Local checks run on every row change (see utils/validationRules.ts)
+export type ValidationRuleId = 'awbFormat' | 'duplicateInManifest' | 'duplicateInHistory' | 'zeroWeight' | 'implausibleWeight' | 'slNoSequence';
+
+export type AwbCheckDigit = 'none' | 'mod7' | 'luhn' | 's10';
+
+// One accepted AWB format; an AWB passes if any enabled format accepts it
+export interface AwbFormat {
+  id: string;
+  name: string;       // Carrier, e.g. "Blue Dart"
+  prefix: string;     // Required leading characters; empty = any
+  minLength: number;
+  maxLength: number;
+  charset: 'digits' | 'alphanumeric';
+  checkDigit: AwbCheckDigit;
+}
+
+export interface ValidationRules {
+  enabled: Record<ValidationRuleId, boolean>;
+  maxDocumentWeight: number; // kg; heavier documents are flagged
+  maxParcelWeight: number;   // kg
+  awbFormats: AwbFormat[];
 }
 
 export interface SlabSummary {
-  slab1Weight: number;
-  slab2Weight: number;
-  slab3Weight: number;
+  slabWeights: number[];      // Billable weight falling in each tier of BillingConfig.parcelSlabs
   parcelCount: number;
-  parcelCountS1: number;      // Count of parcels <= 10kg
-  parcelCountS2Plus: number;  // Count of parcels > 10kg
+  parcelCountS1: number;      // Count of parcels within the first tier
+  parcelCountS2Plus: number;  // Count of parcels beyond the first tier
   docCount: number;
   docTotal: number;
-  heavyParcelWeightsList: number[]; // Weights for p > 10kg
-  lightParcelsTotalWeight: number;  // Combined weight for p <= 10kg
+  heavyParcelWeightsList: number[]; // Weights for parcels beyond the first tier
+  lightParcelsTotalWeight: number;  // Combined weight for parcels within the first tier
+  heavyParcelsTotalWeight: number;
+  totalBillableWeight: number;
+}
+
+export interface TaxBreakdown {
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  totalTax: number;
+  roundOff: number;   // Added to reach the rounded grand total
+  grandTotal: number;
 }
 
 export interface ManifestMetadata {
@@ -51,14 +169,166 @@ export interface Folder {
   id: string;
   name: string;
   createdAt: number;
+  clientName?: string; // Client/agency billed for this folder; drives rate card selection
+  billingAddress?: string; // Printed under "Bill To" on invoices; may span several lines
+}
+
+// A named tariff version for a client, valid from a given date
+export interface RateCard {
+  id: string;
+  name: string;
+  clientName: string;     // Empty string = default card for any client
+  effectiveFrom: string;  // YYYY-MM-DD
+  config: BillingConfig;
+  createdAt: number;
+}
+
+// Letterhead, bank details and layout of the invoice PDF
+export interface InvoiceSettings {
+  companyName: string;
+  companyAddress: string; // May span several lines
+  gstin: string;
+  phone: string;
+  email: string;
+  logo?: { data: string, mimeType: string }; // Base64 PNG or JPEG
+  accentColor: string;    // #rrggbb, used for the company name and table headings
+  invoicePrefix: string;  // Invoice number = prefix + manifest number
+  bankName: string;
+  accountName: string;
+  accountNumber: string;
+  ifsc: string;
+  branch: string;
+  signatory: string;      // Name printed under the signature line
+  terms: string;
+  showBreakdown: boolean;   // Rate breakdown column in the line table
+  showSlabSummary: boolean;
+}
+
+// Manifest fields a spreadsheet column can be read into
+export type SheetField = 'slNo' | 'serialNo' | 'description' | 'type' | 'weight';
+
+// How a client's spreadsheets map onto manifest fields, remembered between imports
+export interface ColumnMapping {
+  clientName: string;                         // Empty string = folders without a client
+  columns: Partial<Record<SheetField, string>>; // Heading text of the column each field is read from
+  updatedAt: number;
+}
+
+// Final manifests have no open row flags
+export type ManifestStatus = 'draft' | 'final';
+
+// Which provider read a manifest; low-confidence results need row-by-row review
+export interface ExtractionInfo {
+  provider: string;
+  lowConfidence: boolean;
+  confidence?: number; // 0-1, when the provider reports one
+}
+
+// Totals printed in the manifest's footer, as read by the extractor
+export interface PrintedTotals {
+  pieceCount?: number;
+  totalWeight?: number; // kg, actual (not billable) weight
+  docCount?: number;
+}
+
+export type TotalsField = keyof PrintedTotals;
+
+export interface TotalsMismatch {
+  field: TotalsField;
+  printed: number;
+  extracted: number;
+}
+
+// Printed totals compared with the rows; recomputed on every save
+export interface TotalsCheck {
+  matched: boolean;
+  mismatches: TotalsMismatch[];
 }
 
 export interface ManifestHistory extends ManifestMetadata {
   id: string;
+  schemaVersion?: number; // See utils/schema.ts; absent on records saved before versioning
+
   rows: BillingRow[];
   config: BillingConfig;
-  totalAmount: number;
+  totalAmount: number; // Taxable value: freight plus surcharges
   itemCount: number;
+  charges?: RowCharges; // Split of totalAmount by component
+  tax?: TaxBreakdown;  // Computed from config.tax when the manifest is saved
   createdAt: number;
   folderId?: string; // Optional reference to a folder
-}
\ No newline at end of file
+  rateCardId?: string;   // Rate card the config was taken from, if any
+  rateCardName?: string; // Kept for display if the card is later deleted
+  extraction?: ExtractionInfo; // How the rows were extracted; absent for manual entry
+  status?: ManifestStatus;     // Absent = draft
+  sourcePagesId?: string;      // Key of the scanned pages in storage; shared by copies of the manifest
+  sourcePageCount?: number;
+  printedTotals?: PrintedTotals; // Absent when the footer had none or the manifest was keyed in
+  totalsCheck?: TotalsCheck;
+}
+
+// Expanded overrides for full editing capability (Final Bill statement cells)
+export interface ManifestOverride {
+  date?: string;
+  no?: string;
+  pCount?: number;
+  PCount?: number;
+  dCount?: number;
+  pWeight?: number;
+  PDetail?: string; // Stores the string like "12+15+30"
+}
+
+export interface FinalBillReportMeta {
+  month: string;
+  agency: string;
+  area: string;
+}
+
+export interface FinalBillFontSizes {
+  date: number;
+  units: number;
+  weight: number;
+  amount: number;
+}
+
+// Persisted state of the consolidated statement (Final Bill tab)
+export interface FinalBillState {
+  selectedFolderIds: string[];
+  reportMeta: FinalBillReportMeta;
+  overrides: Record<string, ManifestOverride>; // keyed by ManifestHistory.id
+  fontSizes: FinalBillFontSizes;
+}
+
+export type ChunkJobState = 'pending' | 'running' | 'failed' | 'done';
+
+// One captured manifest waiting for (or done with) extraction
+export interface ChunkJob {
+  id: string;
+  seq: number; // Capture order, 1-based, for display
+  images: { data: string, mimeType: string }[]; // Emptied once done; the manifest keeps its own copy
+  state: ChunkJobState;
+  attempts: number;
+  error?: string;      // Reason of the last failure
+  manifestId?: string; // Reserved when the job starts, so a resumed job can tell it already finished
+  manifestNo?: string;
+  finishedAt?: number;
+  approved?: boolean;          // Checked on the session review screen
+  mode?: 'default' | 'hybrid'; // Overrides the session's AI mode, e.g. a re-run in Hybrid
+  replacesManifestId?: string; // A re-run swaps this manifest for its new result
+  sourcePagesId?: string;      // Pages already stored, reused instead of saving a copy
+}
+
+// Monthly (chunked) capture session, persisted so it can resume after a reload
+export interface ChunkSession {
+  id: string;
+  folderId: string;
+  folderName: string;
+  aiMode: 'default' | 'hybrid' | 'auto';
+  jobs: ChunkJob[];
+  concurrency: number; // Jobs extracted at once
+  currentChunk: { data: string, mimeType: string }[];
+  totalManifestsCaptured: number;
+  processedCount: number;
+  isProcessing: boolean; // The queue is running; resumed on load
+  statusLog: string;
+}
@@ -0,0 +1,77 @@
+import { ManifestHistory } from '../types';
+
+// One billed row carrying a given AWB
+export interface AwbOccurrence {
+  manifestId: string;
+  manifestNo: string;
+  manifestDate: string;
+  folderId?: string;
+  rowId: string;
+  weight: number;
+  amount: number;
+}
+
+// Normalized AWB -> every row it was billed on, in history order
+export type AwbIndex = Map<string, AwbOccurrence[]>;
+
+export interface DuplicateAwb {
+  awb: string;
+  occurrences: AwbOccurrence[];
+}
+
+export const normalizeAwb = (awb: string) => (awb || '').trim().toUpperCase();
+
+export function buildAwbIndex(manifests: ManifestHistory[]): AwbIndex {
+  const index: AwbIndex = new Map();
+  manifests.forEach(manifest => addToAwbIndex(index, manifest));
+  return index;
+}
+
+/**
+ * Adds a manifest's rows to an index in place, so a batch import can check
+ * each manifest against the ones accepted before it.
+ */
+export function addToAwbIndex(index: AwbIndex, manifest: ManifestHistory) {
+  manifest.rows.forEach(row => {
+    const awb = normalizeAwb(row.serialNo);
+    if (!awb) return;
+    const occurrence: AwbOccurrence = {
+      manifestId: manifest.id,
+      manifestNo: manifest.manifestNo,
+      manifestDate: manifest.manifestDate,
+      folderId: manifest.folderId,
+      rowId: row.id,
+      weight: row.weight,
+      amount: row.amount
+    };
+    const list = index.get(awb);
+    if (list) list.push(occurrence);
+    else index.set(awb, [occurrence]);
+  });
+}
+
+/**
+ * Rows on other manifests that carry the same AWB.
+ */
+export function findOtherOccurrences(index: AwbIndex, awb: string, manifestId?: string | null): AwbOccurrence[] {
+  return (index.get(normalizeAwb(awb)) || []).filter(o => o.manifestId !== manifestId);
+}
+
+/**
+ * Number of rows whose AWB is already billed on another manifest; used to warn
+ * on import before the manifest is opened.
+ */
+export function countBilledElsewhere(rows: { serialNo: string }[], index: AwbIndex, manifestId?: string | null): number {
+  return rows.filter(row => findOtherOccurrences(index, row.serialNo, manifestId).length > 0).length;
+}
+
+/**
+ * AWBs that appear more than once across the given manifests (within one
+ * manifest or across several), sorted by AWB.
+ */
+export function findDuplicateAwbs(manifests: ManifestHistory[]): DuplicateAwb[] {
+  return Array.from(buildAwbIndex(manifests).entries())
+    .filter(([, occurrences]) => occurrences.length > 1)
+    .map(([awb, occurrences]) => ({ awb, occurrences }))
+    .sort((a, b) => a.awb.localeCompare(b.awb, undefined, { numeric: true }));
+}
@@ -1,4 +1,4 @@
-import { BillingConfig, ItemType, BillingRow } from '../types';
+import { BillingConfig, ItemType, BillingRow, LegacyBillingConfig, ParcelSlab, RowCharges, SlabSummary, SurchargeConfig, TaxBreakdown, TaxConfig, WeightRoundingRule } from '../types';
 
 /**
  * Simple BODMAS evaluator for math strings.
@@ -84,67 +84,162 @@ export function evaluateExpression(input: string): number {
 }
 
 
+/**
+ * Tier layout used before slabs became configurable:
+ * S1: First 10kg, S2: Next 100kg (up to 110kg), S3: Remainder (> 110kg)
+ */
+const LEGACY_SLAB_BOUNDS = [10, 110, null];
+
+/**
+ * Sorts slabs by upper bound and keeps exactly one open-ended tier at the end.
+ */
+export function normalizeSlabs(slabs: ParcelSlab[]): ParcelSlab[] {
+  const bounded = slabs
+    .filter(s => s.upTo !== null && s.upTo > 0)
+    .sort((a, b) => (a.upTo as number) - (b.upTo as number))
+    .filter((s, i, arr) => i === 0 || s.upTo !== arr[i - 1].upTo);
+  const openEnded = slabs.find(s => s.upTo === null);
+  return [...bounded, { upTo: null, rate: openEnded ? openEnded.rate : (bounded[bounded.length - 1]?.rate ?? 0) }];
+}
+
+/**
+ * Brings any saved config (including pre-slab-list ones) to the current shape.
+ * Legacy configs map onto the original 10 / 110 / open-ended tiers so they bill the same.
+ */
+export function normalizeConfig(config: unknown): BillingConfig {
+  const saved = (config && typeof config === 'object' ? config : {}) as Partial<BillingConfig & LegacyBillingConfig>;
+  if (Array.isArray(saved.parcelSlabs)) {
+    return { ...saved, parcelSlabs: normalizeSlabs(saved.parcelSlabs) } as BillingConfig;
+  }
+  const legacy: Partial<LegacyBillingConfig> = saved;
+  const rates = [legacy.parcelSlab1Rate, legacy.parcelSlab2Rate, legacy.parcelSlab3Rate];
+  const { parcelSlab1Rate, parcelSlab2Rate, parcelSlab3Rate, ...rest } = legacy;
+  return {
+    ...rest,
+    parcelSlabs: LEGACY_SLAB_BOUNDS.map((upTo, i) => ({ upTo, rate: rates[i] || 0 })),
+    documentRate: legacy.documentRate || 0
+  } as BillingConfig;
+}
+
+/**
+ * Upper bound of the first tier; parcels at or below it count as "light".
+ */
+export function getLightParcelLimit(config: BillingConfig): number {
+  return config.parcelSlabs[0]?.upTo ?? Infinity;
+}
+
+/**
+ * Human readable tier range, e.g. "0-10kg", "10-110kg", ">110kg".
+ */
+export function formatSlabLabel(slabs: ParcelSlab[], index: number): string {
+  const lower = index > 0 ? slabs[index - 1].upTo ?? 0 : 0;
+  const upper = slabs[index].upTo;
+  return upper === null ? `>${lower}kg` : `${lower}-${upper}kg`;
+}
+
+// Rule: any decimal, consider next rounding off number (e.g. 5.14 = 6)
+export const DEFAULT_WEIGHT_ROUNDING: WeightRoundingRule = { step: 1, mode: 'ceil', tolerance: 0 };
+
+// Guards against float noise such as 1.5 / 0.5 = 3.0000000000000004
+const EPSILON = 1e-9;
+
+/**
+ * Rounds a weight to the billable weight under the config's rounding policy.
+ * This is the single place weights are rounded, so row amounts, slab summaries
+ * and final-bill weights always agree. Any non-zero weight bills at least one step.
+ * Only parcels are rounded: documents bill the flat documentRate whatever they weigh.
+ */
+export function roundBillableWeight(weight: number, config: BillingConfig): number {
+  if (!(weight > 0)) return 0;
+  const rule = config.weightRounding || DEFAULT_WEIGHT_ROUNDING;
+  const step = rule.step > 0 ? rule.step : 1;
+  const units = weight / step;
+
+  let steps: number;
+  if (rule.mode === 'floor') {
+    steps = Math.floor(units + EPSILON);
+  } else if (rule.mode === 'nearest') {
+    steps = Math.round(units);
+  } else {
+    const whole = Math.floor(units + EPSILON);
+    const excess = weight - whole * step;
+    steps = excess <= (rule.tolerance || 0) + EPSILON ? whole : whole + 1;
+  }
+
+  return Math.round(Math.max(steps, 1) * step * 1000) / 1000;
+}
+
 /**
  * Calculates the amount for a parcel based on tiered slabs.
- * New Tier Logic based on 177kg example:
- * S1: First 10kg
- * S2: Next 100kg (Total up to 110kg)
- * S3: Remainder (> 110kg)
+ * Each tier covers the weight between the previous tier's bound and its own
+ * `upTo`; the last (open-ended) tier takes the remainder.
  */
 export function calculateParcelAmount(weight: number, config: BillingConfig): {
   total: number,
   breakdown: string,
-  s1w: number,
-  s2w: number,
-  s3w: number
+  slabWeights: number[]
 } {
-  // Rule: any decimal, consider next rounding off number (e.g. 5.14 = 6)
-  const roundedWeight = weight > 0 ? Math.ceil(weight) : 0;
+  const roundedWeight = roundBillableWeight(weight, config);
 
   let remaining = roundedWeight;
+  let lowerBound = 0;
   let total = 0;
-  let s1w = 0, s2w = 0, s3w = 0;
+  const slabWeights: number[] = [];
   const components: string[] = [];
 
-  // Slab 1: First 10kg
-  s1w = Math.min(remaining, 10);
-  if (s1w > 0) {
-    total += s1w * config.parcelSlab1Rate;
-    components.push(`${s1w}kg*${config.parcelSlab1Rate}`);
-    remaining -= s1w;
-  }
-
-  if (remaining > 0) {
-    // Slab 2: Next 100kg (User's new requirement based on 177kg example)
-    s2w = Math.min(remaining, 100);
-    total += s2w * config.parcelSlab2Rate;
-    components.push(`${s2w}kg*${config.parcelSlab2Rate}`);
-    remaining -= s2w;
-  }
-
-  if (remaining > 0) {
-    // Slab 3: Remainder above 110kg
-    s3w = remaining;
-    total += s3w * config.parcelSlab3Rate;
-    components.push(`${s3w}kg*${config.parcelSlab3Rate}`);
-  }
+  config.parcelSlabs.forEach(slab => {
+    const width = slab.upTo === null ? remaining : Math.max(slab.upTo - lowerBound, 0);
+    const inSlab = Math.round(Math.min(remaining, width) * 1000) / 1000;
+    slabWeights.push(inSlab);
+    if (inSlab > 0) {
+      total += inSlab * slab.rate;
+      components.push(`${inSlab}kg*${slab.rate}`);
+      remaining -= inSlab;
+    }
+    if (slab.upTo !== null) lowerBound = slab.upTo;
+  });
 
   return {
     total,
     breakdown: components.join(' + ') || '₹0.00',
-    s1w,
-    s2w,
-    s3w
+    slabWeights
   };
 }
 
+/**
+ * Chargeable weight is the greater of actual and volumetric weight
+ * (L×W×H / config.volumetricDivisor). Volumetric is 0 when dimensions
+ * or the divisor are missing.
+ */
+export function calculateChargeableWeight(
+  row: Pick<BillingRow, 'weight' | 'length' | 'width' | 'height'>,
+  config: BillingConfig
+): { actual: number, volumetric: number, chargeable: number, basis: 'actual' | 'volumetric' } {
+  const actual = row.weight > 0 ? row.weight : 0;
+  const divisor = config.volumetricDivisor || 0;
+  const { length = 0, width = 0, height = 0 } = row;
+  const volumetric = divisor > 0 && length > 0 && width > 0 && height > 0
+    ? Math.round((length * width * height / divisor) * 100) / 100
+    : 0;
+  return volumetric > actual
+    ? { actual, volumetric, chargeable: volumetric, basis: 'volumetric' }
+    : { actual, volumetric, chargeable: actual, basis: 'actual' };
+}
+
 export function calculateRow(row: Omit<BillingRow, 'rate' | 'amount' | 'breakdown'> & { rate?: number, isManualRate?: boolean }, config: BillingConfig): BillingRow {
   let amount = 0;
   let rate = row.rate || 0;
   let isManualRate = row.isManualRate || false;
   let breakdown = '';
 
-  const roundedWeight = row.weight > 0 ? Math.ceil(row.weight) : 0;
+  const weight = calculateChargeableWeight(row, config);
+  const roundedWeight = roundBillableWeight(weight.chargeable, config);
+  // Only mention the basis when volumetric weight was actually computed
+  const basisNote = weight.volumetric > 0
+    ? (weight.basis === 'volumetric'
+      ? `Vol ${weight.volumetric}kg > Act ${weight.actual}kg: `
+      : `Act ${weight.actual}kg ≥ Vol ${weight.volumetric}kg: `)
+    : '';
 
   if (row.type === ItemType.DOCUMENT) {
     if (!isManualRate) {
@@ -153,22 +248,225 @@ export function calculateRow(row: Omit<BillingRow, 'rate' | 'amount' | 'breakdow
     amount = rate;
     breakdown = `Flat: ₹${rate}`;
   } else {
-    const calc = calculateParcelAmount(row.weight, config);
+    const calc = calculateParcelAmount(weight.chargeable, config);
     if (!isManualRate) {
-      rate = roundedWeight > 0 ? calc.total / roundedWeight : config.parcelSlab1Rate;
+      rate = roundedWeight > 0 ? calc.total / roundedWeight : (config.parcelSlabs[0]?.rate ?? 0);
       amount = calc.total;
-      breakdown = calc.breakdown;
+      breakdown = basisNote + calc.breakdown;
     } else {
       amount = rate * roundedWeight;
-      breakdown = `${roundedWeight}kg * ${rate} (Manual)`;
+      breakdown = `${basisNote}${roundedWeight}kg * ${rate} (Manual)`;
     }
   }
 
+  const charges = calculateCharges(row, amount, config);
+  const extras = describeCharges(charges, config.surcharges).filter(line => line.key !== 'freight');
+  if (extras.length) {
+    breakdown += ' + ' + extras.map(line => `${line.label}: ₹${line.amount.toFixed(2)}`).join(' + ');
+  }
+
   return {
     ...row,
     rate,
     isManualRate,
-    amount,
-    breakdown
+    amount: sumCharges(charges),
+    breakdown,
+    charges
+  };
+}
+/**
+ * Aggregates weights and counts per tier for a set of rows.
+ */
+export function calculateSlabSummary(rows: BillingRow[], config: BillingConfig): SlabSummary {
+  const lightLimit = getLightParcelLimit(config);
+  const s: SlabSummary = {
+    slabWeights: config.parcelSlabs.map(() => 0),
+    parcelCountS1: 0, parcelCountS2Plus: 0,
+    heavyParcelWeightsList: [],
+    lightParcelsTotalWeight: 0, heavyParcelsTotalWeight: 0,
+    docCount: 0, docTotal: 0, totalBillableWeight: 0,
+    parcelCount: 0
   };
-}
\ No newline at end of file
+  rows.forEach(row => {
+    if (row.type === ItemType.DOCUMENT) { s.docCount++; s.docTotal += row.amount; }
+    else {
+      s.parcelCount++;
+      const { chargeable } = calculateChargeableWeight(row, config);
+      const rounded = roundBillableWeight(chargeable, config);
+      s.totalBillableWeight += rounded;
+      const calc = calculateParcelAmount(chargeable, config);
+      calc.slabWeights.forEach((w, i) => { s.slabWeights[i] += w; });
+      if (rounded <= lightLimit) { s.parcelCountS1++; s.lightParcelsTotalWeight += rounded; }
+      else { s.parcelCountS2Plus++; s.heavyParcelsTotalWeight += rounded; s.heavyParcelWeightsList.push(rounded); }
+    }
+  });
+  return s;
+}
+
+export const DEFAULT_SURCHARGE_CONFIG: SurchargeConfig = {
+  minimumCharge: 0,
+  fuelPercent: 0,
+  codFee: 0,
+  handlingFee: 0,
+  odaCharge: 0,
+  manifestFee: 0
+};
+
+/**
+ * Splits a row's amount into freight and surcharges.
+ * The minimum charge tops up parcel freight only (documents already bill flat),
+ * fuel is a percentage of that freight, handling applies per parcel and
+ * COD/ODA per flagged AWB.
+ */
+export function calculateCharges(row: Pick<BillingRow, 'type' | 'isCod' | 'isOda'>, freight: number, config: BillingConfig): RowCharges {
+  const s = config.surcharges || DEFAULT_SURCHARGE_CONFIG;
+  const isParcel = row.type === ItemType.PARCEL;
+  const minimumTopUp = isParcel && s.minimumCharge > freight ? roundMoney(s.minimumCharge - freight) : 0;
+  return {
+    freight,
+    minimumTopUp,
+    fuel: roundMoney((freight + minimumTopUp) * (s.fuelPercent || 0) / 100),
+    cod: row.isCod ? s.codFee || 0 : 0,
+    handling: isParcel ? s.handlingFee || 0 : 0,
+    oda: row.isOda ? s.odaCharge || 0 : 0
+  };
+}
+
+export function sumCharges(c: RowCharges): number {
+  return c.freight + c.minimumTopUp + c.fuel + c.cod + c.handling + c.oda + (c.manifestFee || 0);
+}
+
+/**
+ * Adds up the charge split of several rows. Rows saved before surcharges
+ * existed count their whole amount as freight.
+ */
+export function combineCharges(rows: BillingRow[]): RowCharges {
+  const total: RowCharges = { freight: 0, minimumTopUp: 0, fuel: 0, cod: 0, handling: 0, oda: 0 };
+  rows.forEach(row => {
+    const c = row.charges || { freight: row.amount, minimumTopUp: 0, fuel: 0, cod: 0, handling: 0, oda: 0 };
+    (Object.keys(total) as (keyof RowCharges)[]).forEach(key => { total[key] = roundMoney((total[key] || 0) + (c[key] || 0)); });
+  });
+  return total;
+}
+
+/**
+ * Label/amount pairs for printing a charge split. Freight is always listed;
+ * surcharges only when non-zero.
+ */
+export function describeCharges(charges: RowCharges, surcharges?: SurchargeConfig): { key: keyof RowCharges, label: string, amount: number }[] {
+  const lines: { key: keyof RowCharges, label: string, amount: number }[] = [
+    { key: 'freight', label: 'Freight', amount: charges.freight },
+    { key: 'minimumTopUp', label: 'Min Charge', amount: charges.minimumTopUp },
+    { key: 'fuel', label: surcharges?.fuelPercent ? `Fuel @ ${surcharges.fuelPercent}%` : 'Fuel', amount: charges.fuel },
+    { key: 'cod', label: 'COD', amount: charges.cod },
+    { key: 'handling', label: 'Handling', amount: charges.handling },
+    { key: 'oda', label: 'ODA', amount: charges.oda },
+    { key: 'manifestFee', label: 'Manifest Charge', amount: charges.manifestFee || 0 }
+  ];
+  return lines.filter(line => line.key === 'freight' || line.amount);
+}
+
+// GST defaults for courier services (SAC 996812): 9% + 9% intra-state, 18% inter-state
+export const DEFAULT_TAX_CONFIG: TaxConfig = {
+  enabled: false,
+  mode: 'intra',
+  cgstRate: 9,
+  sgstRate: 9,
+  igstRate: 18,
+  sacCode: '996812'
+};
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Computes GST on a taxable value. Components are rounded to paise and the
+ * grand total to the nearest rupee, with the difference reported as roundOff.
+ */
+export function calculateTax(taxableValue: number, config: BillingConfig): TaxBreakdown {
+  const tax = config.tax;
+  const taxable = roundMoney(taxableValue);
+  let cgst = 0, sgst = 0, igst = 0;
+
+  if (tax?.enabled) {
+    if (tax.mode === 'inter') {
+      igst = roundMoney(taxable * tax.igstRate / 100);
+    } else {
+      cgst = roundMoney(taxable * tax.cgstRate / 100);
+      sgst = roundMoney(taxable * tax.sgstRate / 100);
+    }
+  }
+
+  const totalTax = roundMoney(cgst + sgst + igst);
+  const grandTotal = Math.round(taxable + totalTax);
+  return {
+    taxableValue: taxable,
+    cgst,
+    sgst,
+    igst,
+    totalTax,
+    roundOff: roundMoney(grandTotal - taxable - totalTax),
+    grandTotal
+  };
+}
+
+/**
+ * Adds up several tax breakdowns (e.g. per-manifest lines of a final bill)
+ * and re-rounds the combined grand total.
+ */
+export function combineTax(breakdowns: TaxBreakdown[]): TaxBreakdown {
+  const sum = (pick: (t: TaxBreakdown) => number) => roundMoney(breakdowns.reduce((s, t) => s + pick(t), 0));
+  const taxableValue = sum(t => t.taxableValue);
+  const totalTax = sum(t => t.totalTax);
+  const grandTotal = Math.round(taxableValue + totalTax);
+  return {
+    taxableValue,
+    cgst: sum(t => t.cgst),
+    sgst: sum(t => t.sgst),
+    igst: sum(t => t.igst),
+    totalTax,
+    roundOff: roundMoney(grandTotal - taxableValue - totalTax),
+    grandTotal
+  };
+}
+
+// The flat per-manifest charge, billed once when the manifest has rows
+export function manifestFeeFor(rows: BillingRow[], config: BillingConfig): number {
+  return rows.length ? roundMoney(config.surcharges?.manifestFee || 0) : 0;
+}
+
+/**
+ * Totals stored on a ManifestHistory record. totalAmount covers freight and
+ * every surcharge, the per-manifest charge included; `charges` splits it by
+ * component.
+ */
+
+export function calculateManifestTotals(rows: BillingRow[], config: BillingConfig): {
+  totalAmount: number,
+  itemCount: number,
+  charges: RowCharges,
+  tax: TaxBreakdown
+} {
+  const manifestFee = manifestFeeFor(rows, config);
+  const totalAmount = rows.reduce((sum, row) => sum + row.amount, 0) + manifestFee;
+  return {
+    totalAmount,
+    itemCount: rows.length,
+    charges: manifestFee ? { ...combineCharges(rows), manifestFee } : combineCharges(rows),
+    tax: calculateTax(totalAmount, config)
+  };
+}
+
+/**
+ * Label/amount pairs for printing a tax breakdown (footers, CSV, PDF).
+ * Rates are shown in the labels when a tax config is given; zero components are omitted.
+ */
+export function describeTax(tax: TaxBreakdown, taxConfig?: TaxConfig): { label: string, amount: number }[] {
+  const rate = (value: number) => taxConfig ? ` @ ${value}%` : '';
+  const lines = [{ label: 'Taxable Value', amount: tax.taxableValue }];
+  if (tax.cgst) lines.push({ label: `CGST${rate(taxConfig?.cgstRate ?? 0)}`, amount: tax.cgst });
+  if (tax.sgst) lines.push({ label: `SGST${rate(taxConfig?.sgstRate ?? 0)}`, amount: tax.sgst });
+  if (tax.igst) lines.push({ label: `IGST${rate(taxConfig?.igstRate ?? 0)}`, amount: tax.igst });
+  if (tax.roundOff) lines.push({ label: 'Round Off', amount: tax.roundOff });
+  lines.push({ label: 'Grand Total', amount: tax.grandTotal });
+  return lines;
+}
@@ -0,0 +1,75 @@
+import { ChunkJob, ChunkSession } from '../types';
+
+export const MAX_CHUNK_CONCURRENCY = 4;
+
+export interface ChunkQueueCounts {
+  pending: number;
+  running: number;
+  failed: number;
+  done: number;
+}
+
+/**
+ * Brings a stored session up to the job-based shape. Sessions saved before
+ * jobs existed keep their queue as pending jobs.
+ */
+export function normalizeChunkSession(raw: ChunkSession & { pendingChunks?: { id: string, images: ChunkJob['images'] }[] }): ChunkSession {
+  const { pendingChunks, ...session } = raw;
+  const jobs: ChunkJob[] = Array.isArray(session.jobs)
+    ? session.jobs
+    : (pendingChunks || []).map((chunk, i) => ({
+      id: chunk.id,
+      seq: (session.processedCount || 0) + i + 1,
+      images: chunk.images,
+      state: 'pending',
+      attempts: 0
+    }));
+  return {
+    ...session,
+    jobs,
+    concurrency: Math.min(MAX_CHUNK_CONCURRENCY, Math.max(1, session.concurrency || 1))
+  };
+}
+
+/**
+ * After a reload nothing is actually running: jobs left 'running' either
+ * finished (their reserved manifest is in history) or go back to pending.
+ */
+export function recoverChunkSession(session: ChunkSession, savedManifestIds: Set<string>): ChunkSession {
+  let recovered = 0;
+  const jobs = session.jobs.map(job => {
+    if (job.state !== 'running') return job;
+    if (job.manifestId && savedManifestIds.has(job.manifestId)) {
+      recovered++;
+      return { ...job, state: 'done' as const, images: [], finishedAt: job.finishedAt || Date.now() };
+    }
+    return { ...job, state: 'pending' as const };
+  });
+  return { ...session, jobs, processedCount: session.processedCount + recovered };
+}
+
+export function updateChunkJob(session: ChunkSession, jobId: string, patch: Partial<ChunkJob>): ChunkSession {
+  return { ...session, jobs: session.jobs.map(job => job.id === jobId ? { ...job, ...patch } : job) };
+}
+
+export function countChunkJobs(session: ChunkSession): ChunkQueueCounts {
+  const counts: ChunkQueueCounts = { pending: 0, running: 0, failed: 0, done: 0 };
+  session.jobs.forEach(job => { counts[job.state]++; });
+  return counts;
+}
+
+/**
+ * Pending jobs to start now, in capture order, given the jobs this tab is
+ * already running.
+ */
+export function nextChunkJobs(session: ChunkSession, runningIds: Set<string>): ChunkJob[] {
+  const slots = Math.max(0, session.concurrency - runningIds.size);
+  return session.jobs.filter(job => job.state === 'pending' && !runningIds.has(job.id)).slice(0, slots);
+}
+
+// Share of captured manifests that are finished, 0-100
+export function chunkProgress(session: ChunkSession): number {
+  const { pending, running, failed } = countChunkJobs(session);
+  const total = session.processedCount + pending + running + failed;
+  return total ? Math.round(session.processedCount / total * 100) : 0;
+}
@@ -0,0 +1,103 @@
+import { ManifestHistory, ValidationRules } from '../types';
+import { AwbIndex } from './awbIndex';
+import { calculateManifestTotals, calculateRow } from './billingLogic';
+import { countOpenFlags } from './reviewLogic';
+import { checkTotals } from './totalsCheck';
+import { validateRows } from './validationRules';
+
+// Values the queue fills in when the extractor returned none
+const PLACEHOLDER_MANIFEST_NO = /^AUTO-\d+$/;
+const PLACEHOLDER_AWB = /^AWB-\d+$/;
+
+export interface ChunkManifestReview {
+  rowCount: number;
+  totalWeight: number;
+  totalAmount: number;
+  problems: string[]; // One line per kind of problem, empty when clean
+}
+
+/**
+ * What a reviewer needs to know about a manifest produced by the capture
+ * queue: its size and everything that still needs a human look.
+ */
+export function reviewChunkManifest(manifest: ManifestHistory, rules: ValidationRules, awbIndex: AwbIndex): ChunkManifestReview {
+  const problems: string[] = [];
+  if (PLACEHOLDER_MANIFEST_NO.test(manifest.manifestNo)) problems.push('No manifest number was read');
+  const placeholderAwbs = manifest.rows.filter(row => PLACEHOLDER_AWB.test(row.serialNo)).length;
+  if (placeholderAwbs) problems.push(`${placeholderAwbs} AWB${placeholderAwbs === 1 ? '' : 's'} missing`);
+  const findings = validateRows(manifest.rows, rules, awbIndex, manifest.id).length;
+  if (findings) problems.push(`${findings} validation finding${findings === 1 ? '' : 's'}`);
+  const flags = countOpenFlags(manifest.rows);
+  if (flags) problems.push(`${flags} cell${flags === 1 ? '' : 's'} to review`);
+  if (manifest.totalsCheck?.matched === false) problems.push('Rows do not match the printed totals');
+  if (manifest.rows.length === 0) problems.push('No rows');
+
+  return {
+    rowCount: manifest.rows.length,
+    totalWeight: Math.round(manifest.rows.reduce((sum, row) => sum + (row.weight || 0), 0) * 1000) / 1000,
+    totalAmount: manifest.totalAmount,
+    problems
+  };
+}
+
+const withRows = (manifest: ManifestHistory, rows: ManifestHistory['rows'], printedTotals = manifest.printedTotals): ManifestHistory => {
+  const { printedTotals: _printed, totalsCheck: _check, ...rest } = manifest;
+  return {
+    ...rest,
+    rows,
+    ...calculateManifestTotals(rows, manifest.config),
+    ...(printedTotals ? { printedTotals, totalsCheck: checkTotals(printedTotals, rows) } : {}),
+    status: 'draft'
+  };
+};
+
+// Moves Sl No by `offset`, keeping any gaps the rows already had
+const shiftSlNo = (rows: ManifestHistory['rows'], offset: number) =>
+  offset ? rows.map(row => ({ ...row, slNo: row.slNo + offset })) : rows;
+
+/**
+ * Splits a manifest that held two before row `at`. Both halves keep the
+ * scanned pages; the footer totals belong to the second half, which ends where
+ * the footer was printed. The second half's Sl No starts again at 1.
+ */
+export function splitManifest(manifest: ManifestHistory, at: number): [ManifestHistory, ManifestHistory] {
+  const rest = manifest.rows.slice(at);
+  const first = withRows(manifest, manifest.rows.slice(0, at), undefined);
+  const second = withRows({
+    ...manifest,
+    id: crypto.randomUUID(),
+    manifestNo: `${manifest.manifestNo}-B`,
+    createdAt: Date.now()
+  }, shiftSlNo(rest, rest.length ? 1 - rest[0].slNo : 0));
+  return [first, second];
+}
+
+/**
+ * Joins two consecutive chunks that were one manifest. Rows are re-billed with
+ * the first chunk's config, and the second chunk's Sl No runs on from the
+ * first's when it restarted numbering. When the pages were combined too, the
+ * second chunk's row sources are shifted past the first chunk's
+ * `firstPageCount` pages; otherwise they are dropped, as they point into pages
+ * no longer linked.
+ */
+export function mergeManifests(first: ManifestHistory, second: ManifestHistory, firstPageCount?: number): ManifestHistory {
+  const shift = (source: ManifestHistory['rows'][number]['source']) =>
+    source && firstPageCount !== undefined ? { ...source, page: source.page + firstPageCount } : undefined;
+  const lastSlNo = Math.max(0, ...first.rows.map(row => row.slNo));
+  const firstSlNo = second.rows[0]?.slNo;
+  const rows = [
+    ...first.rows,
+    ...shiftSlNo(second.rows, firstSlNo !== undefined && firstSlNo <= lastSlNo ? lastSlNo + 1 - firstSlNo : 0)
+      .map(row => ({ ...row, source: shift(row.source) }))
+  ].map(row => calculateRow(row, first.config));
+  return withRows({
+    ...first,
+    manifestNo: PLACEHOLDER_MANIFEST_NO.test(first.manifestNo) ? second.manifestNo : first.manifestNo,
+    ...(first.extraction || second.extraction ? {
+      extraction: {
+        ...(first.extraction || second.extraction),
+        lowConfidence: !!(first.extraction?.lowConfidence || second.extraction?.lowConfidence)
+      }
+    } : {})
+  }, rows, second.printedTotals || first.printedTotals);
+}
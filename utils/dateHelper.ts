@@ -0,0 +1,41 @@
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+function buildDate(year: number, month: number, day: number): Date | null {
+  if (year < 100) year += 2000;
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+  return date;
+}
+
+/**
+ * Parses the date formats seen on manifests into a local Date.
+ * Day-first is assumed for numeric dates (Indian format), e.g.
+ * "2025-03-14", "14/03/2025", "14-03-25", "14.03.2025", "14-Mar-2025", "14 March 2025".
+ */
+export function parseManifestDate(input: string | undefined | null): Date | null {
+  if (!input) return null;
+  const value = input.trim();
+
+  let m = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (m) return buildDate(+m[1], +m[2], +m[3]);
+
+  m = value.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})$/);
+  if (m) return buildDate(+m[3], +m[2], +m[1]);
+
+  m = value.match(/^(\d{1,2})[\s/.-]*([a-z]{3})[a-z]*[\s/.,-]*(\d{2,4})$/i);
+  if (m) {
+    const month = MONTHS.indexOf(m[2].toLowerCase());
+    if (month >= 0) return buildDate(+m[3], month + 1, +m[1]);
+  }
+
+  const fallback = Date.parse(value);
+  return isNaN(fallback) ? null : new Date(fallback);
+}
+
+/**
+ * Formats a Date as YYYY-MM-DD using local time (matches <input type="date">).
+ */
+export function toIsoDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
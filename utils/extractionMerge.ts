@@ -0,0 +1,101 @@
+import type { ExtractedItem, ExtractionResult } from '../services/extractionService';
+import type { ExtractionNote } from './reviewLogic';
+
+// One page batch's result and where its pages sit in the full document
+export interface BatchResult {
+  result: ExtractionResult;
+  firstPage: number;      // 1-based, across all inputs
+  lastPage: number;
+  inputIndexes: number[]; // Batch input -> index of the original input it came from
+}
+
+// Rows this close to a page break are compared for repeats
+const BOUNDARY_WINDOW = 3;
+
+// Column headings repeated at the top of each page
+const HEADER_PATTERN = /^(sl\.?\s*no|s\.?\s*no|awb(\s*no)?|document\s*no|consignment\s*no|serial\s*no|doc(ket)?\s*no)\.?$/i;
+// Page totals and carry-forward lines at the foot of each page
+const FOOTER_PATTERN = /\b(grand\s+total|sub\s*-?\s*total|total|carried\s+forward|brought\s+forward|c\/f|b\/f)\b/i;
+// Cells that are a footer even with digits in them: "Total 25", "Page 2 of 5"
+const LABELLED_FOOTER_PATTERN = /^((grand\s+|sub\s*-?\s*|page\s+)?total\b|page\s*\d+(\s*(of|\/)\s*\d+)?$)/i;
+
+const normalize = (value: unknown) => String(value ?? '').trim().toUpperCase();
+
+/**
+ * True for rows read from a repeated table heading or a page total rather
+ * than a shipment. AWBs always carry digits, so the total wording is only
+ * looked for when the AWB cell has none. Total wording in the description
+ * alone ("Total Station") only counts on a row without a weight.
+ */
+export function isHeaderOrFooterRow(item: Pick<ExtractedItem, 'serialNo' | 'description' | 'weight'>): boolean {
+  const awb = String(item.serialNo ?? '').trim();
+  if (HEADER_PATTERN.test(awb) || LABELLED_FOOTER_PATTERN.test(awb)) return true;
+  if (/\d/.test(awb)) return false;
+  if (FOOTER_PATTERN.test(awb)) return true;
+  return !item.weight && FOOTER_PATTERN.test(item.description || '');
+}
+
+/**
+ * Joins page batch results into one result, in page order:
+ * - heading and total rows are dropped,
+ * - a row repeated on both sides of a page break is kept once (or kept twice
+ *   with a note when the weights disagree),
+ * - Sl No runs on from the previous batch when a batch restarted numbering,
+ * - item sources and notes are mapped back onto the original inputs.
+ */
+export function mergeBatchResults(batches: BatchResult[]): ExtractionResult {
+  const items: ExtractedItem[] = [];
+  const errors: ExtractionNote[] = [];
+  let lastSlNo = 0;
+
+  batches.forEach((batch, b) => {
+    const { result } = batch;
+    const rows = (result.items || []).filter(item => !isHeaderOrFooterRow(item));
+    const kept: ExtractedItem[] = [];
+    const repeats = new Set<ExtractedItem>();
+
+    rows.forEach((item, i) => {
+      if (b > 0 && i < BOUNDARY_WINDOW) {
+        const awb = normalize(item.serialNo);
+        const previous = awb ? items.slice(-BOUNDARY_WINDOW).find(p => normalize(p.serialNo) === awb) : undefined;
+        if (previous) {
+          if (!item.weight || !previous.weight || item.weight === previous.weight) return;
+          errors.push({
+            type: 'DUPLICATE',
+            serialNo: item.serialNo,
+            field: 'weight',
+            message: `AWB ${item.serialNo} appears on both sides of the break before page ${batch.firstPage} with different weights (${previous.weight} / ${item.weight})`
+          });
+          repeats.add(item);
+        }
+      }
+      kept.push(item);
+    });
+
+    // A batch whose numbering starts at or below where the last one ended restarted it
+    const first = kept.find(item => item.slNo && !repeats.has(item))?.slNo;
+    const offset = first !== undefined && first <= lastSlNo ? lastSlNo + 1 - first : 0;
+    const remap = (slNo?: number) => (slNo ? slNo + offset : undefined);
+
+    kept.forEach(item => {
+      const slNo = remap(item.slNo) || lastSlNo + 1;
+      lastSlNo = Math.max(lastSlNo, slNo);
+      const page = item.source ? batch.inputIndexes[item.source.page] : undefined;
+      items.push({ ...item, slNo, source: page === undefined ? undefined : { ...item.source, page } });
+    });
+
+    (result.errors || []).forEach(note => errors.push(note.slNo !== undefined ? { ...note, slNo: remap(note.slNo) } : note));
+  });
+
+  const scored = batches.map(batch => batch.result.confidence).filter((c): c is number => typeof c === 'number');
+  return {
+    manifestNo: batches.map(batch => batch.result.manifestNo).find(Boolean),
+    manifestDate: batches.map(batch => batch.result.manifestDate).find(Boolean),
+    // The grand total is printed at the end, so the last batch that read one wins
+    printedTotals: batches.map(batch => batch.result.printedTotals).filter(Boolean).pop(),
+    items,
+    errors,
+    ...(batches.some(batch => batch.result.lowConfidence) ? { lowConfidence: true } : {}),
+    ...(scored.length ? { confidence: Math.min(...scored) } : {})
+  };
+}
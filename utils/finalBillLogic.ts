@@ -0,0 +1,184 @@
+import { BillingRow, ItemType, ManifestHistory, ManifestOverride, RowCharges, TaxBreakdown } from '../types';
+import { calculateChargeableWeight, calculateParcelAmount, calculateTax, combineCharges, combineTax, getLightParcelLimit, manifestFeeFor, roundBillableWeight, sumCharges } from './billingLogic';
+import { parseManifestDate } from './dateHelper';
+
+/**
+ * One line of the monthly consolidated statement (one per manifest).
+ * Field names mirror ManifestOverride so edited cells map 1:1.
+ */
+export interface FinalBillLine {
+  manifestId: string;
+  date: string;
+  no: string;
+  pCount: number;      // Parcels within the first slab (<= 10kg by default)
+  pWeight: number;     // Combined billable weight of those parcels
+  PCount: number;      // Parcels beyond the first slab
+  PDetail: string;     // Heavy parcel weights, e.g. "12+15+30"
+  dCount: number;      // Documents
+  parcelAmount: number;
+  docAmount: number;
+  totalAmount: number;
+  charges: RowCharges; // Split of totalAmount; overrides re-price freight only
+  tax: TaxBreakdown;   // GST on totalAmount using the manifest's tax config
+  isOverridden: boolean;
+}
+
+export interface FinalBillTotals {
+  manifestCount: number;
+  pCount: number;
+  pWeight: number;
+  PCount: number;
+  heavyWeight: number;
+  dCount: number;
+  parcelAmount: number;
+  docAmount: number;
+  totalAmount: number;
+  charges: RowCharges;
+  tax: TaxBreakdown;   // Sum of line taxes, grand total re-rounded
+}
+
+/**
+ * Parses a heavy-parcel detail string ("12+15+30") into its weights.
+ * Non-numeric fragments are ignored.
+ */
+export function parseWeightDetail(detail: string): number[] {
+  return detail
+    .split('+')
+    .map(part => parseFloat(part.trim()))
+    .filter(w => !isNaN(w) && w > 0);
+}
+
+/**
+ * Builds the statement line for a manifest, applying any cell overrides.
+ * Amounts come from the saved rows unless the driving value was overridden,
+ * in which case they are re-priced with the manifest's own config:
+ * - pWeight  -> pWeight * first slab rate
+ * - PDetail  -> each weight priced through the slab engine
+ * - dCount   -> dCount * document rate
+ * Surcharges already billed on the saved rows, and the per-manifest charge,
+ * are carried over unchanged.
+ */
+export function buildFinalBillLine(manifest: ManifestHistory, override: ManifestOverride = {}): FinalBillLine {
+  let pCount = 0, pWeight = 0, PCount = 0, dCount = 0;
+  let lightAmount = 0, heavyAmount = 0, docAmount = 0;
+  const lightRows: BillingRow[] = [], heavyRows: BillingRow[] = [], docRows: BillingRow[] = [];
+  const heavyWeights: number[] = [];
+  const config = manifest.config;
+  const lightLimit = getLightParcelLimit(config);
+
+  manifest.rows.forEach(row => {
+    if (row.type === ItemType.DOCUMENT) {
+      dCount++;
+      docAmount += row.amount;
+      docRows.push(row);
+      return;
+    }
+    const { chargeable } = calculateChargeableWeight(row, config);
+    const rounded = roundBillableWeight(chargeable, config);
+    if (rounded <= lightLimit) {
+      pCount++;
+      pWeight += rounded;
+      lightAmount += row.amount;
+      lightRows.push(row);
+    } else {
+      PCount++;
+      heavyWeights.push(rounded);
+      heavyAmount += row.amount;
+      heavyRows.push(row);
+    }
+  });
+
+  // Non-freight part of each group, kept when its freight is re-priced
+  const surchargesOf = (group: BillingRow[]) => {
+    const c = combineCharges(group);
+    return sumCharges(c) - c.freight;
+  };
+
+  if (override.pWeight !== undefined) {
+    pWeight = override.pWeight;
+    lightAmount = pWeight * (config.parcelSlabs[0]?.rate ?? 0) + surchargesOf(lightRows);
+  }
+
+  let PDetail = heavyWeights.join('+');
+  if (override.PDetail !== undefined) {
+    PDetail = override.PDetail;
+    const weights = parseWeightDetail(PDetail);
+    heavyAmount = weights.reduce((sum, w) => sum + calculateParcelAmount(w, config).total, 0) + surchargesOf(heavyRows);
+    PCount = weights.length;
+  }
+
+  if (override.dCount !== undefined) {
+    dCount = override.dCount;
+    docAmount = dCount * config.documentRate + surchargesOf(docRows);
+  }
+
+  if (override.pCount !== undefined) pCount = override.pCount;
+  if (override.PCount !== undefined) PCount = override.PCount;
+
+  const parcelAmount = lightAmount + heavyAmount;
+  const charges = combineCharges(manifest.rows);
+  charges.freight = parcelAmount + docAmount - (sumCharges(charges) - charges.freight);
+  const manifestFee = manifestFeeFor(manifest.rows, config);
+  if (manifestFee) charges.manifestFee = manifestFee;
+  const totalAmount = parcelAmount + docAmount + manifestFee;
+
+  return {
+    manifestId: manifest.id,
+    date: override.date ?? manifest.manifestDate,
+    no: override.no ?? manifest.manifestNo,
+    pCount,
+    pWeight,
+    PCount,
+    PDetail,
+    dCount,
+    parcelAmount,
+    docAmount,
+    totalAmount,
+    charges,
+    tax: calculateTax(totalAmount, config),
+    isOverridden: Object.values(override).some(v => v !== undefined)
+  };
+}
+
+/**
+ * Aggregates every manifest in the selected folders into statement lines,
+ * ordered by manifest date then manifest number, undated manifests last.
+ */
+export function buildFinalBill(
+  history: ManifestHistory[],
+  folderIds: string[],
+  overrides: Record<string, ManifestOverride>
+): FinalBillLine[] {
+  return history
+    .filter(h => h.folderId && folderIds.includes(h.folderId))
+    .map(h => buildFinalBillLine(h, overrides[h.id]))
+    .sort((a, b) => {
+      const da = parseManifestDate(a.date)?.getTime(), db = parseManifestDate(b.date)?.getTime();
+      if (da !== undefined && db !== undefined && da !== db) return da - db;
+      // Undated manifests go after dated ones
+      if ((da === undefined) !== (db === undefined)) return da === undefined ? 1 : -1;
+      return a.no.localeCompare(b.no, undefined, { numeric: true });
+    });
+}
+
+export function summarizeFinalBill(lines: FinalBillLine[]): FinalBillTotals {
+  const totals = lines.reduce((t, line) => ({
+    manifestCount: t.manifestCount + 1,
+    pCount: t.pCount + line.pCount,
+    pWeight: t.pWeight + line.pWeight,
+    PCount: t.PCount + line.PCount,
+    heavyWeight: t.heavyWeight + parseWeightDetail(line.PDetail).reduce((s, w) => s + w, 0),
+    dCount: t.dCount + line.dCount,
+    parcelAmount: t.parcelAmount + line.parcelAmount,
+    docAmount: t.docAmount + line.docAmount,
+    totalAmount: t.totalAmount + line.totalAmount
+  }), {
+    manifestCount: 0, pCount: 0, pWeight: 0, PCount: 0, heavyWeight: 0,
+    dCount: 0, parcelAmount: 0, docAmount: 0, totalAmount: 0
+  });
+  const charges = lines.reduce((sum, line) => {
+    (Object.keys(sum) as (keyof RowCharges)[]).forEach(key => { sum[key] = (sum[key] || 0) + (line.charges[key] || 0); });
+    return sum;
+  }, { freight: 0, minimumTopUp: 0, fuel: 0, cod: 0, handling: 0, oda: 0, manifestFee: 0 } as RowCharges);
+  return { ...totals, charges, tax: combineTax(lines.map(line => line.tax)) };
+}
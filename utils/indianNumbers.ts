@@ -0,0 +1,48 @@
+const ONES = ['', 'One', 'Two', 'Three', 'Four', 'Five', 'Six', 'Seven', 'Eight', 'Nine', 'Ten',
+  'Eleven', 'Twelve', 'Thirteen', 'Fourteen', 'Fifteen', 'Sixteen', 'Seventeen', 'Eighteen', 'Nineteen'];
+const TENS = ['', '', 'Twenty', 'Thirty', 'Forty', 'Fifty', 'Sixty', 'Seventy', 'Eighty', 'Ninety'];
+
+const belowHundred = (n: number) => n < 20 ? ONES[n] : [TENS[Math.floor(n / 10)], ONES[n % 10]].filter(Boolean).join(' ');
+
+const belowThousand = (n: number) =>
+  [n >= 100 ? `${ONES[Math.floor(n / 100)]} Hundred` : '', belowHundred(n % 100)].filter(Boolean).join(' ');
+
+// Indian grouping: crore (10^7), lakh (10^5), thousand, then hundreds
+function integerInWords(n: number): string {
+  if (n === 0) return '';
+  const crore = Math.floor(n / 10000000);
+  const lakh = Math.floor(n / 100000) % 100;
+  const thousand = Math.floor(n / 1000) % 100;
+  return [
+    crore ? `${integerInWords(crore)} Crore` : '',
+    lakh ? `${belowHundred(lakh)} Lakh` : '',
+    thousand ? `${belowHundred(thousand)} Thousand` : '',
+    belowThousand(n % 1000)
+  ].filter(Boolean).join(' ');
+}
+
+/**
+ * An amount in rupees as printed on Indian invoices, e.g. 123456.5 ->
+ * "Rupees One Lakh Twenty Three Thousand Four Hundred Fifty Six and Fifty Paise Only".
+ */
+export function amountInWords(amount: number): string {
+  const totalPaise = Math.round(Math.abs(amount) * 100);
+  const rupees = Math.floor(totalPaise / 100);
+  const paise = totalPaise % 100;
+  const words = [
+    integerInWords(rupees) || (paise ? '' : 'Zero'),
+    paise ? `${rupees ? 'and ' : ''}${belowHundred(paise)} Paise` : ''
+  ].filter(Boolean).join(' ');
+  return `${amount < 0 && totalPaise ? 'Minus ' : ''}Rupees ${words} Only`;
+}
+
+/**
+ * Formats with Indian digit grouping (1,23,45,678.00). Done by hand so the
+ * output doesn't depend on the runtime's locale data.
+ */
+export function formatIndianNumber(value: number, decimals = 2): string {
+  const [whole, fraction] = Math.abs(value).toFixed(decimals).split('.');
+  const head = whole.slice(0, -3);
+  const grouped = head ? `${head.replace(/\B(?=(\d{2})+$)/g, ',')},${whole.slice(-3)}` : whole;
+  return `${value < 0 && Number(whole + (fraction || '')) ? '-' : ''}${grouped}${fraction ? `.${fraction}` : ''}`;
+}
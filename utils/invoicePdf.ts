@@ -0,0 +1,277 @@
+import jsPDF from "jspdf";
+import autoTable from "jspdf-autotable";
+import { BillingConfig, BillingRow, InvoiceSettings } from '../types';
+import { calculateManifestTotals, calculateSlabSummary, describeCharges, describeTax, formatSlabLabel } from './billingLogic';
+import { amountInWords, formatIndianNumber } from './indianNumbers';
+
+export const DEFAULT_INVOICE_SETTINGS: InvoiceSettings = {
+  companyName: '',
+  companyAddress: '',
+  gstin: '',
+  phone: '',
+  email: '',
+  accentColor: '#4f46e5',
+  invoicePrefix: 'INV-',
+  bankName: '',
+  accountName: '',
+  accountNumber: '',
+  ifsc: '',
+  branch: '',
+  signatory: '',
+  terms: '',
+  showBreakdown: true,
+  showSlabSummary: true
+};
+
+// Fills in fields missing from settings saved by an older version
+export function normalizeInvoiceSettings(raw: Partial<InvoiceSettings> | undefined): InvoiceSettings {
+  const settings = { ...DEFAULT_INVOICE_SETTINGS, ...(raw || {}) };
+  if (!/^#[0-9a-f]{6}$/i.test(settings.accentColor)) settings.accentColor = DEFAULT_INVOICE_SETTINGS.accentColor;
+  return settings;
+}
+
+export interface InvoiceInput {
+  invoiceNo: string;
+  invoiceDate: string;
+  manifestNo: string;
+  client: { name: string, address?: string };
+  rows: BillingRow[];
+  config: BillingConfig;
+}
+
+// Stamped instead of the current time so the same invoice always produces the same file
+const FIXED_CREATION_DATE = new Date(Date.UTC(2000, 0, 1));
+
+const MARGIN = 14;
+const money = (value: number) => formatIndianNumber(value);
+const lines = (text: string) => text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+
+// jspdf-autotable records where the last table ended on the document
+type AutoTableDoc = jsPDF & { lastAutoTable: { finalY: number } };
+const finalY = (doc: jsPDF) => (doc as AutoTableDoc).lastAutoTable.finalY;
+
+const hexToRgb = (hex: string): [number, number, number] =>
+  [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16)) as [number, number, number];
+
+// 32 hex digits derived from the text (four FNV-1a passes with different seeds), for the PDF file ID
+function fileIdFor(text: string): string {
+  const fnv = (seed: number) => {
+    let hash = seed;
+    for (let i = 0; i < text.length; i++) hash = Math.imul(hash ^ text.charCodeAt(i), 16777619) >>> 0;
+    return hash.toString(16).padStart(8, '0');
+  };
+  return (fnv(2166136261) + fnv(84696351) + fnv(3735928559) + fnv(19088743)).toUpperCase();
+}
+
+/**
+ * Lays out a tax invoice for one manifest: letterhead, bill-to block, line
+ * table, slab summary, charges and tax, the total in words, bank details and
+ * a signatory block. The output depends only on the input and settings.
+ */
+export function buildInvoicePdf(input: InvoiceInput, settings: InvoiceSettings): jsPDF {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  doc.setCreationDate(FIXED_CREATION_DATE);
+  doc.setFileId(fileIdFor(JSON.stringify({ input, settings })));
+  doc.setProperties({ title: `Invoice ${input.invoiceNo}`, subject: `Manifest ${input.manifestNo}`, author: settings.companyName, creator: 'Smart Billing' });
+
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const right = pageWidth - MARGIN;
+  const accent = hexToRgb(settings.accentColor);
+  const { rows, config } = input;
+  const totals = calculateManifestTotals(rows, config);
+  const taxed = !!config.tax?.enabled;
+
+  // Letterhead
+  let textLeft = MARGIN;
+  if (settings.logo) {
+    try {
+      doc.addImage(`data:${settings.logo.mimeType};base64,${settings.logo.data}`, settings.logo.mimeType === 'image/png' ? 'PNG' : 'JPEG', MARGIN, 12, 22, 22);
+      textLeft = MARGIN + 26;
+    } catch (err) {
+      console.warn('Invoice logo could not be drawn', err);
+    }
+  }
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(16);
+  doc.setTextColor(...accent);
+  doc.text(settings.companyName || 'Your Company', textLeft, 18);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(8);
+  doc.setTextColor(71, 85, 105);
+  const contact = [
+    ...lines(settings.companyAddress),
+    [settings.phone && `Phone: ${settings.phone}`, settings.email && `Email: ${settings.email}`].filter(Boolean).join('   '),
+    settings.gstin && `GSTIN: ${settings.gstin}`
+  ].filter(Boolean);
+  contact.forEach((line, i) => doc.text(line, textLeft, 23 + i * 3.6));
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(14);
+  doc.setTextColor(15, 23, 42);
+  doc.text(taxed ? 'TAX INVOICE' : 'INVOICE', right, 18, { align: 'right' });
+  doc.setFontSize(8.5);
+  const details: [string, string][] = [
+    ['Invoice No', input.invoiceNo],
+    ['Invoice Date', input.invoiceDate],
+    ['Manifest No', input.manifestNo],
+    ...(taxed ? [['SAC Code', config.tax.sacCode] as [string, string]] : [])
+  ];
+  details.forEach(([label, value], i) => {
+    doc.setFont('helvetica', 'normal');
+    doc.text(`${label}:`, right - 48, 24 + i * 4.2);
+    doc.setFont('helvetica', 'bold');
+    doc.text(value || '-', right, 24 + i * 4.2, { align: 'right' });
+  });
+
+  let y = Math.max(23 + contact.length * 3.6, 24 + details.length * 4.2, settings.logo ? 36 : 0) + 2;
+  doc.setDrawColor(...accent);
+  doc.setLineWidth(0.6);
+  doc.line(MARGIN, y, right, y);
+
+  // Bill to
+  y += 6;
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(7.5);
+  doc.setTextColor(100, 116, 139);
+  doc.text('BILL TO', MARGIN, y);
+  doc.setFontSize(10);
+  doc.setTextColor(15, 23, 42);
+  doc.text(input.client.name || '-', MARGIN, y + 5);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(8);
+  const address = lines(input.client.address || '');
+  address.forEach((line, i) => doc.text(line, MARGIN, y + 9.5 + i * 3.6));
+  y += 9.5 + address.length * 3.6 + 2;
+
+  // Line items
+  const head = ['Sl', 'AWB No', 'Description', 'Type', 'Weight (kg)', 'Rate', ...(settings.showBreakdown ? ['Breakdown'] : []), 'Amount (Rs.)'];
+  const amountColumn = head.length - 1;
+  autoTable(doc, {
+    startY: y,
+    margin: { left: MARGIN, right: MARGIN },
+    head: [head],
+    body: rows.map(r => [
+      String(r.slNo), r.serialNo, r.description, r.type, r.weight.toFixed(3), money(r.rate),
+      ...(settings.showBreakdown ? [r.breakdown] : []), money(r.amount)
+    ]),
+    foot: [[
+      '', `${rows.length} item${rows.length === 1 ? '' : 's'}`, '', '', rows.reduce((sum, r) => sum + r.weight, 0).toFixed(3), '',
+      ...(settings.showBreakdown ? [''] : []), money(rows.reduce((sum, r) => sum + r.amount, 0))
+    ]],
+    styles: { fontSize: 7.5, cellPadding: 1.6, textColor: [30, 41, 59] },
+    headStyles: { fillColor: accent, textColor: [255, 255, 255], fontStyle: 'bold' },
+    footStyles: { fillColor: [241, 245, 249], textColor: [15, 23, 42], fontStyle: 'bold' },
+    columnStyles: { 4: { halign: 'right' }, 5: { halign: 'right' }, [amountColumn]: { halign: 'right' } },
+    showFoot: 'lastPage'
+  });
+  y = finalY(doc) + 6;
+
+  // Slab summary beside the charges
+  const summaryTop = y;
+  if (settings.showSlabSummary) {
+    const summary = calculateSlabSummary(rows, config);
+    autoTable(doc, {
+      startY: summaryTop,
+      margin: { left: MARGIN, right: pageWidth / 2 + 3 },
+      head: [['Slab Summary', '']],
+      body: [
+        ...config.parcelSlabs.map((_, i) => [`S${i + 1} (${formatSlabLabel(config.parcelSlabs, i)})`, `${summary.slabWeights[i].toFixed(3)} kg`]),
+        ['Light parcels', `${summary.parcelCountS1} / ${summary.lightParcelsTotalWeight.toFixed(3)} kg`],
+        ['Heavy parcels', `${summary.parcelCountS2Plus} / ${summary.heavyParcelsTotalWeight.toFixed(3)} kg`],
+        ['Documents', `${summary.docCount} / Rs. ${money(summary.docTotal)}`]
+      ],
+      styles: { fontSize: 7.5, cellPadding: 1.4, textColor: [30, 41, 59] },
+      headStyles: { fillColor: [241, 245, 249], textColor: [15, 23, 42], fontStyle: 'bold' },
+      columnStyles: { 1: { halign: 'right' } }
+    });
+  }
+  const summaryBottom = settings.showSlabSummary ? finalY(doc) : summaryTop;
+  const summaryPage = doc.getNumberOfPages();
+
+  // Charges and tax, ending in the amount payable
+  const charges = describeCharges(totals.charges, config.surcharges);
+  const grandTotal = taxed ? totals.tax.grandTotal : totals.totalAmount;
+  const chargeRows = [
+    // A lone freight line would only repeat the table total
+    ...(charges.length > 1 ? charges.map(line => [line.label, money(line.amount)]) : []),
+    ...(taxed ? describeTax(totals.tax, config.tax).filter(line => line.label !== 'Grand Total').map(line => [line.label, money(line.amount)]) : [])
+  ];
+  if (settings.showSlabSummary && summaryPage !== doc.getNumberOfPages()) doc.setPage(summaryPage);
+  autoTable(doc, {
+    startY: summaryTop,
+    margin: { left: settings.showSlabSummary ? pageWidth / 2 + 3 : pageWidth / 2, right: MARGIN },
+    body: chargeRows,
+    foot: [['Amount Payable (Rs.)', money(grandTotal)]],
+    styles: { fontSize: 8, cellPadding: 1.4, textColor: [30, 41, 59] },
+    footStyles: { fillColor: accent, textColor: [255, 255, 255], fontStyle: 'bold' },
+    columnStyles: { 1: { halign: 'right' } }
+  });
+  y = Math.max(finalY(doc), doc.getNumberOfPages() === summaryPage ? summaryBottom : 0) + 6;
+
+  // Everything below needs about 55 mm; start a page rather than split it
+  if (y + 55 > pageHeight - 12) {
+    doc.addPage();
+    y = 20;
+  }
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(8.5);
+  doc.setTextColor(15, 23, 42);
+  const words = doc.splitTextToSize(`Amount in words: ${amountInWords(grandTotal)}`, right - MARGIN);
+  doc.text(words, MARGIN, y);
+  y += words.length * 4 + 4;
+
+  // Bank details (left) and signatory (right)
+  const bank = [
+    ['Bank', settings.bankName],
+    ['Account Name', settings.accountName],
+    ['Account No', settings.accountNumber],
+    ['IFSC', settings.ifsc],
+    ['Branch', settings.branch]
+  ].filter(([, value]) => value);
+  if (bank.length) {
+    doc.setFontSize(7.5);
+    doc.setTextColor(100, 116, 139);
+    doc.text('BANK DETAILS', MARGIN, y);
+    doc.setFontSize(8);
+    doc.setTextColor(30, 41, 59);
+    bank.forEach(([label, value], i) => {
+      doc.setFont('helvetica', 'normal');
+      doc.text(`${label}:`, MARGIN, y + 5 + i * 4);
+      doc.setFont('helvetica', 'bold');
+      doc.text(value, MARGIN + 24, y + 5 + i * 4);
+    });
+  }
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(8.5);
+  doc.setTextColor(15, 23, 42);
+  doc.text(`For ${settings.companyName || 'Your Company'}`, right, y, { align: 'right' });
+  doc.setDrawColor(148, 163, 184);
+  doc.setLineWidth(0.3);
+  doc.line(right - 55, y + 20, right, y + 20);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(8);
+  if (settings.signatory) doc.text(settings.signatory, right, y + 24, { align: 'right' });
+  doc.text('Authorised Signatory', right, y + (settings.signatory ? 28 : 24), { align: 'right' });
+  y += Math.max(bank.length ? 5 + bank.length * 4 : 0, 28) + 6;
+
+  if (settings.terms) {
+    doc.setFontSize(7);
+    doc.setTextColor(100, 116, 139);
+    const terms = doc.splitTextToSize(settings.terms, right - MARGIN);
+    doc.text(terms, MARGIN, Math.min(y, pageHeight - 14 - terms.length * 3));
+  }
+
+  // Footer on every page
+  const pages = doc.getNumberOfPages();
+  for (let page = 1; page <= pages; page++) {
+    doc.setPage(page);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(7);
+    doc.setTextColor(148, 163, 184);
+    doc.text(`${input.invoiceNo}`, MARGIN, pageHeight - 8);
+    doc.text(`Page ${page} of ${pages}`, right, pageHeight - 8, { align: 'right' });
+  }
+  return doc;
+}
@@ -0,0 +1,164 @@
+import { ItemType, ManifestHistory } from '../types';
+import { calculateManifestTotals, calculateSlabSummary, describeCharges, describeTax, formatSlabLabel } from './billingLogic';
+import { columnLetter, XlsxCell, XlsxRow, XlsxSheet } from './xlsxWriter';
+
+export type WorkbookManifest = Pick<ManifestHistory, 'manifestNo' | 'manifestDate' | 'rows' | 'config'>;
+
+const round = (value: number, places = 2) => Math.round(value * 10 ** places) / 10 ** places;
+const sum = (values: number[]) => values.reduce((a, b) => a + b, 0);
+
+const header = (labels: string[]): XlsxRow => labels.map(value => ({ value, style: 'header' }));
+
+// A total over one column of the data rows below the heading, `rows` long
+const columnTotal = (column: number, rows: number, value: number, style: 'totalMoney' | 'totalWeight' | 'total'): XlsxCell => ({
+  formula: rows ? `SUM(${columnLetter(column)}2:${columnLetter(column)}${rows + 1})` : '0',
+  value,
+  style
+});
+
+function lineItemsSheet(manifests: WorkbookManifest[], withManifest: boolean): XlsxSheet {
+  const prefix = (m: WorkbookManifest): XlsxRow => withManifest ? [m.manifestNo, m.manifestDate] : [];
+  const offset = withManifest ? 2 : 0;
+  const rows = manifests.flatMap(m => m.rows.map(row => ({ m, row })));
+
+  const sheetRows: XlsxRow[] = [
+    header([...(withManifest ? ['Manifest No', 'Date'] : []), 'Sl No', 'AWB No', 'Description', 'Type', 'Weight (kg)', 'Rate', 'Breakdown', 'Amount']),
+    ...rows.map(({ m, row }) => [
+      ...prefix(m),
+      row.slNo,
+      row.serialNo,
+      row.description,
+      row.type,
+      { value: row.weight, style: 'weight' as const },
+      { value: row.rate, style: 'money' as const },
+      row.breakdown,
+      { value: row.amount, style: 'money' as const }
+    ]),
+    [
+      ...(withManifest ? [{ value: 'Total', style: 'total' as const }, { style: 'total' as const }] : []),
+      { value: withManifest ? '' : 'Total', style: 'total' },
+      { formula: `COUNTA(${columnLetter(offset + 1)}2:${columnLetter(offset + 1)}${rows.length + 1})`, value: rows.length, style: 'total' },
+      { style: 'total' },
+      { style: 'total' },
+      columnTotal(offset + 4, rows.length, round(sum(rows.map(({ row }) => row.weight)), 3), 'totalWeight'),
+      { style: 'total' },
+      { style: 'total' },
+      columnTotal(offset + 7, rows.length, round(sum(rows.map(({ row }) => row.amount))), 'totalMoney')
+    ]
+  ];
+
+  // A single manifest also carries its surcharge and tax lines, as on the bill
+  if (!withManifest && manifests.length === 1) {
+    const [m] = manifests;
+    const totals = calculateManifestTotals(m.rows, m.config);
+    const label = (text: string): XlsxRow => [null, null, null, null, null, null, text];
+    const charges = describeCharges(totals.charges, m.config.surcharges).filter(line => line.key !== 'freight' && line.amount);
+    if (charges.length || m.config.tax?.enabled) sheetRows.push([]);
+    charges.forEach(line => sheetRows.push([...label(line.label), { value: line.amount, style: 'money' }]));
+    // The per-manifest charge is not in any row, so the column total above leaves it out
+    if (totals.charges.manifestFee && !m.config.tax?.enabled) sheetRows.push([...label('Manifest Total'), { value: totals.totalAmount, style: 'totalMoney' }]);
+    if (m.config.tax?.enabled) {
+      sheetRows.push([...label(`SAC ${m.config.tax.sacCode}`)]);
+      describeTax(totals.tax, m.config.tax).forEach(line => sheetRows.push([
+        ...label(line.label),
+        { value: line.amount, style: line.label === 'Grand Total' ? 'totalMoney' : 'money' }
+      ]));
+    }
+  }
+
+  return {
+    name: 'Line Items',
+    rows: sheetRows,
+    columnWidths: [...(withManifest ? [16, 12] : []), 7, 18, 28, 10, 12, 10, 28, 12],
+    freezeRows: 1
+  };
+}
+
+/**
+ * Weight per parcel slab, light/heavy parcel counts and the document total,
+ * one row per manifest. Slab headings show the weight bands when every
+ * manifest uses the same slabs.
+ */
+function slabSummarySheet(manifests: WorkbookManifest[]): XlsxSheet {
+  const summaries = manifests.map(m => calculateSlabSummary(m.rows, m.config));
+  const slabCount = Math.max(0, ...manifests.map(m => m.config.parcelSlabs.length));
+  const bands = manifests.map(m => m.config.parcelSlabs.map(s => s.upTo).join(','));
+  const sameSlabs = manifests.length > 0 && bands.every(b => b === bands[0]);
+  const slabHeadings = Array.from({ length: slabCount }, (_, i) =>
+    sameSlabs ? `S${i + 1} ${formatSlabLabel(manifests[0].config.parcelSlabs, i)} (kg)` : `S${i + 1} (kg)`);
+
+  const numeric: { pick: (s: typeof summaries[number]) => number, style: 'weight' | 'money' | undefined }[] = [
+    ...Array.from({ length: slabCount }, (_, i) => ({ pick: (s: typeof summaries[number]) => s.slabWeights[i] || 0, style: 'weight' as const })),
+    { pick: s => s.parcelCountS1, style: undefined },
+    { pick: s => s.lightParcelsTotalWeight, style: 'weight' },
+    { pick: s => s.parcelCountS2Plus, style: undefined },
+    { pick: s => s.heavyParcelsTotalWeight, style: 'weight' },
+    { pick: s => s.totalBillableWeight, style: 'weight' },
+    { pick: s => s.docCount, style: undefined },
+    { pick: s => s.docTotal, style: 'money' }
+  ];
+
+  return {
+    name: 'Slab Summary',
+    rows: [
+      header(['Manifest No', ...slabHeadings, 'Light Parcels', 'Light Weight (kg)', 'Heavy Parcels', 'Heavy Weight (kg)', 'Billable Weight (kg)', 'Documents', 'Document Total']),
+      ...manifests.map((m, r) => [m.manifestNo, ...numeric.map(col => ({ value: round(col.pick(summaries[r]), 3), style: col.style }))]),
+      [
+        { value: 'Total', style: 'total' },
+        ...numeric.map((col, i) => columnTotal(i + 1, manifests.length, round(sum(summaries.map(col.pick)), 3),
+          col.style === 'money' ? 'totalMoney' : col.style === 'weight' ? 'totalWeight' : 'total'))
+      ]
+    ],
+    columnWidths: [18, ...numeric.map(() => 14)],
+    freezeRows: 1
+  };
+}
+
+// One row per manifest with its totals, for folder exports
+function manifestsSheet(manifests: WorkbookManifest[]): XlsxSheet {
+  const totals = manifests.map(m => calculateManifestTotals(m.rows, m.config));
+  const grand = (i: number) => manifests[i].config.tax?.enabled ? totals[i].tax.grandTotal : totals[i].totalAmount;
+  const tax = (i: number) => manifests[i].config.tax?.enabled ? totals[i].tax.totalTax : 0;
+  const count = (m: WorkbookManifest, type: ItemType) => m.rows.filter(row => row.type === type).length;
+  const n = manifests.length;
+
+  return {
+    name: 'Manifests',
+    rows: [
+      header(['Manifest No', 'Date', 'Items', 'Parcels', 'Documents', 'Weight (kg)', 'Amount', 'Tax', 'Grand Total']),
+      ...manifests.map((m, i) => [
+        m.manifestNo,
+        m.manifestDate,
+        m.rows.length,
+        count(m, ItemType.PARCEL),
+        count(m, ItemType.DOCUMENT),
+        { value: round(sum(m.rows.map(row => row.weight)), 3), style: 'weight' as const },
+        { value: totals[i].totalAmount, style: 'money' as const },
+        { value: tax(i), style: 'money' as const },
+        { value: grand(i), style: 'money' as const }
+      ]),
+      [
+        { value: 'Total', style: 'total' },
+        { style: 'total' },
+        columnTotal(2, n, sum(manifests.map(m => m.rows.length)), 'total'),
+        columnTotal(3, n, sum(manifests.map(m => count(m, ItemType.PARCEL))), 'total'),
+        columnTotal(4, n, sum(manifests.map(m => count(m, ItemType.DOCUMENT))), 'total'),
+        columnTotal(5, n, round(sum(manifests.flatMap(m => m.rows.map(row => row.weight))), 3), 'totalWeight'),
+        columnTotal(6, n, round(sum(totals.map(t => t.totalAmount))), 'totalMoney'),
+        columnTotal(7, n, round(sum(manifests.map((_, i) => tax(i)))), 'totalMoney'),
+        columnTotal(8, n, round(sum(manifests.map((_, i) => grand(i)))), 'totalMoney')
+      ]
+    ],
+    columnWidths: [18, 12, 8, 9, 11, 12, 14, 12, 14],
+    freezeRows: 1
+  };
+}
+
+/**
+ * Sheets for one manifest (line items and slab summary) or for a folder,
+ * which adds a per-manifest totals sheet in front.
+ */
+export function buildManifestWorkbook(manifests: WorkbookManifest[], asFolder = false): XlsxSheet[] {
+  const sheets = [lineItemsSheet(manifests, asFolder), slabSummarySheet(manifests)];
+  return asFolder ? [manifestsSheet(manifests), ...sheets] : sheets;
+}
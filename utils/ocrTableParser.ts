@@ -0,0 +1,178 @@
+// Minimal OCR shapes so the heuristics stay independent of the OCR engine
+export interface OcrBox {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+export interface OcrWord {
+  text: string;
+  confidence: number; // 0-100
+  bbox: OcrBox;
+}
+
+export interface OcrLine {
+  words: OcrWord[];
+  page?: number; // 0-based page the line was read from
+}
+
+export interface OcrTableItem {
+  slNo?: number;
+  serialNo: string;
+  description: string;
+  type: 'Parcel' | 'Document';
+  weight: number;
+  confidence: { serialNo: number, weight: number, type: number }; // 0-1, from the line's word scores
+  source: { page: number, box: OcrBox }; // Line bounds in page pixels
+}
+
+export interface OcrTable {
+  manifestNo?: string;
+  manifestDate?: string;
+  items: OcrTableItem[];
+  confidence: number;  // Mean word confidence of the accepted rows, 0-1
+  warnings: string[];
+}
+
+type Column = 'sl' | 'awb' | 'weight' | 'desc';
+
+const HEADER_PATTERNS: Record<Column, RegExp> = {
+  sl: /^(sl|sr|s\.?no|sno|#)\.?$/i,
+  awb: /^(awb|airway|cn|c\.?note|consignment|docket|doc\.?no|waybill)/i,
+  weight: /^(weight|wt|wgt|kgs?)\.?/i,
+  desc: /^(desc|description|contents?|particulars)/i
+};
+
+const MANIFEST_NO = /(?:manifest|mf|run\s*sheet|drs)\s*(?:no|number|#)?\.?\s*[:\-]?\s*([A-Z0-9][A-Z0-9\-/]{3,})/i;
+const DATE_TOKEN = /(\d{1,2}[/.\-]\d{1,2}[/.\-]\d{2,4}|\d{1,2}[\s\-][A-Za-z]{3,9}[\s\-,]*\d{2,4})/;
+const DATED = new RegExp(`(?:date|dt)\\.?\\s*[:\\-]?\\s*${DATE_TOKEN.source}`, 'i');
+const AWB_TOKEN = /^[A-Z0-9\-]{6,}$/i;
+export const TOTALS_LINE = /\b(total|grand\s*total|sub\s*total)\b/i;
+export const DOCUMENT_HINT = /\b(doc|docs|document|letter|envelope|courier\s*doc)\b/i;
+
+const lineText = (line: OcrLine) => line.words.map(w => w.text).join(' ');
+const centerX = (word: OcrWord) => (word.bbox.x0 + word.bbox.x1) / 2;
+const lineBox = (line: OcrLine): OcrBox => ({
+  x0: Math.min(...line.words.map(w => w.bbox.x0)),
+  y0: Math.min(...line.words.map(w => w.bbox.y0)),
+  x1: Math.max(...line.words.map(w => w.bbox.x1)),
+  y1: Math.max(...line.words.map(w => w.bbox.y1))
+});
+const digitCount = (text: string) => (text.match(/\d/g) || []).length;
+
+/**
+ * Parses a weight token such as "2.5", "2.5kg", "500g", "1,250" or "1,2" into
+ * kilograms. A comma before exactly three digits is a thousands separator;
+ * any other single comma is a decimal point.
+ */
+export function parseWeightToken(token: string): number | null {
+  const m = token.replace(/,(?=\d{3}(?!\d))/g, '').replace(/^(\d+),(\d+)/, '$1.$2').match(/^(\d+(?:\.\d+)?)(kgs?|g|gm|gms)?$/i);
+  if (!m) return null;
+  const value = parseFloat(m[1]);
+  return m[2] && /^g/i.test(m[2]) ? value / 1000 : value;
+}
+
+const isAwb = (token: string) => AWB_TOKEN.test(token) && digitCount(token) >= 5;
+
+// x-centre of each recognised header word, or null when no header line is found
+function findHeader(lines: OcrLine[]): { index: number, columns: Partial<Record<Column, number>> } | null {
+  for (let index = 0; index < lines.length; index++) {
+    const columns: Partial<Record<Column, number>> = {};
+    lines[index].words.forEach(word => {
+      (Object.keys(HEADER_PATTERNS) as Column[]).forEach(col => {
+        if (columns[col] === undefined && HEADER_PATTERNS[col].test(word.text.trim())) columns[col] = centerX(word);
+      });
+    });
+    if (columns.awb !== undefined && (columns.weight !== undefined || columns.sl !== undefined)) return { index, columns };
+  }
+  return null;
+}
+
+// Groups a line's words under the nearest header column
+function splitByColumns(line: OcrLine, columns: Partial<Record<Column, number>>): Partial<Record<Column, string[]>> {
+  const cells: Partial<Record<Column, string[]>> = {};
+  const entries = Object.entries(columns) as [Column, number][];
+  line.words.forEach(word => {
+    const x = centerX(word);
+    const [nearest] = entries.reduce((best, entry) => Math.abs(entry[1] - x) < Math.abs(best[1] - x) ? entry : best);
+    (cells[nearest] = cells[nearest] || []).push(word.text);
+  });
+  return cells;
+}
+
+// Header-less fallback: "<sl> <awb> <description...> <weight>"
+function parseByPattern(tokens: string[]): { sl?: number, awb?: string, weight: number | null, desc: string } {
+  const awbIndex = tokens.findIndex(isAwb);
+  if (awbIndex < 0) return { weight: null, desc: '' };
+  const sl = awbIndex > 0 && /^\d{1,4}\.?$/.test(tokens[awbIndex - 1]) ? parseInt(tokens[awbIndex - 1], 10) : undefined;
+  let weight: number | null = null;
+  let weightIndex = tokens.length;
+  for (let i = tokens.length - 1; i > awbIndex; i--) {
+    const w = parseWeightToken(tokens[i]);
+    if (w !== null) { weight = w; weightIndex = i; break; }
+  }
+  return { sl, awb: tokens[awbIndex], weight, desc: tokens.slice(awbIndex + 1, weightIndex).join(' ') };
+}
+
+/**
+ * Finds the Sl No / AWB / weight table in OCR output. Uses column positions
+ * from a header line when one is present, otherwise a token pattern per line.
+ * Results are always low confidence and must be reviewed.
+ */
+export function parseOcrTable(lines: OcrLine[]): OcrTable {
+  const fullText = lines.map(lineText).join('\n');
+  const manifestNo = fullText.match(MANIFEST_NO)?.[1];
+  const manifestDate = (fullText.match(DATED) || fullText.match(DATE_TOKEN))?.[1];
+
+  const header = findHeader(lines);
+  const items: OcrTableItem[] = [];
+  const confidences: number[] = [];
+  let missingWeights = 0;
+
+  lines.slice(header ? header.index + 1 : 0).some(line => {
+    const text = lineText(line);
+    if (TOTALS_LINE.test(text)) return true; // Footer totals end the table
+
+    let parsed: { sl?: number, awb?: string, weight: number | null, desc: string };
+    if (header) {
+      const cells = splitByColumns(line, header.columns);
+      const awb = (cells.awb || []).join('').replace(/[^A-Z0-9\-]/gi, '');
+      const weightTokens = (cells.weight || []).join('').replace(/kgs?$/i, '');
+      parsed = isAwb(awb)
+        ? { sl: cells.sl ? parseInt(cells.sl.join(''), 10) || undefined : undefined, awb, weight: parseWeightToken(weightTokens), desc: (cells.desc || []).join(' ') }
+        : parseByPattern(line.words.map(w => w.text));
+    } else {
+      parsed = parseByPattern(line.words.map(w => w.text));
+    }
+    if (!parsed.awb) return false;
+
+    if (parsed.weight === null) missingWeights++;
+    const isDocument = DOCUMENT_HINT.test(text);
+    const lineConfidence = line.words.reduce((sum, w) => sum + w.confidence, 0) / line.words.length / 100;
+    items.push({
+      slNo: parsed.sl,
+      serialNo: parsed.awb.toUpperCase(),
+      description: parsed.desc,
+      type: isDocument ? 'Document' : 'Parcel',
+      weight: parsed.weight ?? 0,
+      // Parcel is only a default when no document keyword is seen
+      confidence: { serialNo: lineConfidence, weight: parsed.weight === null ? 0 : lineConfidence, type: isDocument ? lineConfidence : Math.min(lineConfidence, 0.5) },
+      source: { page: line.page || 0, box: lineBox(line) }
+    });
+    confidences.push(...line.words.map(w => w.confidence));
+    return false;
+  });
+
+  const warnings = [`On-device OCR read ${items.length} rows${header ? '' : ' without a header line'}; verify every row against the manifest.`];
+  if (missingWeights) warnings.push(`${missingWeights} rows had no readable weight and were set to 0 kg.`);
+  if (!manifestNo) warnings.push('Manifest number not found.');
+
+  return {
+    manifestNo,
+    manifestDate,
+    items,
+    confidence: confidences.length ? confidences.reduce((a, b) => a + b, 0) / confidences.length / 100 : 0,
+    warnings
+  };
+}
@@ -0,0 +1,34 @@
+import { BillingConfig, RateCard } from '../types';
+import { parseManifestDate, toIsoDate } from './dateHelper';
+
+const normalizeClient = (name?: string) => (name || '').trim().toLowerCase();
+
+/**
+ * Picks the rate card for a client on a given manifest date: the card with the
+ * latest `effectiveFrom` on or before that date. Client-specific cards win over
+ * default cards (empty clientName). Unparseable dates resolve against today.
+ */
+export function resolveRateCard(cards: RateCard[], clientName: string | undefined, manifestDate: string): RateCard | null {
+  const date = toIsoDate(parseManifestDate(manifestDate) || new Date());
+  const client = normalizeClient(clientName);
+
+  const latestFor = (candidates: RateCard[]) => candidates
+    .filter(card => card.effectiveFrom <= date)
+    .sort((a, b) => b.effectiveFrom.localeCompare(a.effectiveFrom) || b.createdAt - a.createdAt)[0] || null;
+
+  return (client && latestFor(cards.filter(card => normalizeClient(card.clientName) === client)))
+    || latestFor(cards.filter(card => !normalizeClient(card.clientName)));
+}
+
+/**
+ * Resolves the config to bill with, falling back to the global defaults when no card applies.
+ */
+export function resolveBillingConfig(
+  cards: RateCard[],
+  clientName: string | undefined,
+  manifestDate: string,
+  fallback: BillingConfig
+): { config: BillingConfig, rateCard: RateCard | null } {
+  const rateCard = resolveRateCard(cards, clientName, manifestDate);
+  return { config: rateCard ? rateCard.config : fallback, rateCard };
+}
@@ -0,0 +1,95 @@
+import { BillingRow, FieldConfidence, ReviewField, RowFlag } from '../types';
+
+// Fields scored below this are flagged for review on import
+export const REVIEW_CONFIDENCE_THRESHOLD = 0.8;
+
+export const REVIEW_FIELDS: ReviewField[] = ['serialNo', 'weight', 'type'];
+
+export const REVIEW_FIELD_LABELS: Record<ReviewField, string> = {
+  serialNo: 'AWB',
+  weight: 'Weight',
+  type: 'Type'
+};
+
+// An entry of the provider's errors array; row references are optional
+export interface ExtractionNote {
+  type: string;
+  message: string;
+  slNo?: number;
+  serialNo?: string;
+  field?: string;
+}
+
+// One open flag, in table order
+export interface ReviewIssue {
+  rowId: string;
+  rowIndex: number;
+  field: ReviewField;
+  message: string;
+}
+
+type ReviewableRow = Pick<BillingRow, 'slNo' | 'serialNo' | 'weight'> & { confidence?: FieldConfidence, flags?: RowFlag[] };
+
+const isReviewField = (field: unknown): field is ReviewField => REVIEW_FIELDS.includes(field as ReviewField);
+
+/**
+ * Reads the provider's per-field scores, accepting 0-1 or percentages and
+ * dropping anything that is not a number.
+ */
+export function readConfidence(raw: unknown): FieldConfidence | undefined {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const confidence: FieldConfidence = {};
+  REVIEW_FIELDS.forEach(field => {
+    const value = (raw as Record<string, unknown>)[field];
+    if (typeof value === 'number' && isFinite(value)) confidence[field] = Math.min(1, Math.max(0, value > 1 ? value / 100 : value));
+  });
+  return Object.keys(confidence).length ? confidence : undefined;
+}
+
+/**
+ * Attaches confidence and flags to a row built from an extracted item: one flag
+ * per field scored below the threshold, for an AWB or weight the provider did
+ * not return, and for each provider note that names the row. Messages for the
+ * same field are joined.
+ */
+export function withExtractionReview<T extends ReviewableRow>(row: T, item: { serialNo?: unknown, weight?: unknown, confidence?: unknown }, notes: ExtractionNote[] = []): T {
+  const confidence = readConfidence(item.confidence);
+  const messages: Partial<Record<ReviewField, string[]>> = {};
+  const add = (field: ReviewField, message: string) => (messages[field] = messages[field] || []).push(message);
+
+  REVIEW_FIELDS.forEach(field => {
+    const score = confidence?.[field];
+    if (score !== undefined && score < REVIEW_CONFIDENCE_THRESHOLD) add(field, `Low confidence (${Math.round(score * 100)}%)`);
+  });
+  if (!item.serialNo) add('serialNo', 'AWB missing, placeholder used');
+  if (!item.weight) add('weight', 'No weight read');
+
+  notes
+    .filter(note => (note.slNo !== undefined && note.slNo === row.slNo) || (!!note.serialNo && note.serialNo === row.serialNo))
+    .forEach(note => add(isReviewField(note.field) ? note.field : 'serialNo', note.message));
+
+  const flags = REVIEW_FIELDS.filter(field => messages[field]).map(field => ({ field, message: messages[field]!.join('; ') }));
+  return { ...row, ...(confidence ? { confidence } : {}), ...(flags.length ? { flags } : {}) };
+}
+
+/**
+ * Notes that could not be tied to a row, for display above the table.
+ */
+export function unmatchedNotes(notes: ExtractionNote[], rows: ReviewableRow[]): ExtractionNote[] {
+  return notes.filter(note => !rows.some(row => (note.slNo !== undefined && note.slNo === row.slNo) || (!!note.serialNo && note.serialNo === row.serialNo)));
+}
+
+/**
+ * Removes the flags of the given fields, e.g. after the user edits or accepts them.
+ */
+export function resolveFlags<T extends ReviewableRow>(row: T, fields: ReviewField[]): T {
+  if (!row.flags || !row.flags.some(flag => fields.includes(flag.field))) return row;
+  const flags = row.flags.filter(flag => !fields.includes(flag.field));
+  return { ...row, flags: flags.length ? flags : undefined };
+}
+
+export function collectReviewIssues(rows: BillingRow[]): ReviewIssue[] {
+  return rows.flatMap((row, rowIndex) => (row.flags || []).map(flag => ({ rowId: row.id, rowIndex, field: flag.field, message: flag.message })));
+}
+
+export const countOpenFlags = (rows: BillingRow[]) => rows.reduce((sum, row) => sum + (row.flags?.length || 0), 0);
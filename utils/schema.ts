@@ -0,0 +1,206 @@
+import { BillingConfig, BillingRow, ItemType } from '../types';
+import { normalizeConfig } from './billingLogic';
+
+/**
+ * Version stamped on every persisted and exported manifest and folder export.
+ * Bump it together with a new entry in MIGRATIONS.
+ * 1 - fixed three-slab rates (parcelSlab1Rate/2/3), no version field
+ * 2 - ordered parcel tiers (parcelSlabs), rows carry ids
+ */
+export const SCHEMA_VERSION = 2;
+
+type LooseDocument = Record<string, any>;
+
+// Step N upgrades a version-N document to version N+1
+const MIGRATIONS: Record<number, (doc: LooseDocument) => LooseDocument> = {
+  1: doc => ({
+    ...doc,
+    config: doc.config ? normalizeConfig(doc.config) : doc.config,
+    rows: Array.isArray(doc.rows)
+      ? doc.rows.map((row: LooseDocument) => row && typeof row === 'object' && !row.id ? { ...row, id: crypto.randomUUID() } : row)
+      : doc.rows
+  })
+};
+
+export interface SchemaIssue {
+  path: string;    // e.g. "rows[3].weight"
+  message: string;
+}
+
+// value is null whenever issues is non-empty
+export interface SchemaResult<T> {
+  value: T | null;
+  issues: SchemaIssue[];
+  migratedFrom: number; // Version the document was written in
+}
+
+// Rows as they arrive from a file; amounts are always recalculated on import
+export type ImportedRow = Omit<BillingRow, 'rate' | 'amount' | 'breakdown'> & { rate?: number };
+
+export interface ManifestDocument {
+  schemaVersion: number;
+  manifestNo?: string;
+  manifestDate?: string;
+  rows: ImportedRow[];
+  config?: BillingConfig;
+}
+
+export interface FolderInfoDocument {
+  schemaVersion: number;
+  folderName?: string;
+}
+
+const isObject = (value: unknown): value is LooseDocument =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const describe = (value: unknown) =>
+  value === null ? 'null' : Array.isArray(value) ? 'an array' : typeof value === 'string' ? `"${value}"` : typeof value;
+
+const readVersion = (doc: LooseDocument, issues: SchemaIssue[]): number => {
+  const version = doc.schemaVersion;
+  if (version === undefined) return 1;
+  if (!Number.isInteger(version) || version < 1) {
+    issues.push({ path: 'schemaVersion', message: `expected a positive integer, got ${describe(version)}` });
+  } else if (version > SCHEMA_VERSION) {
+    issues.push({ path: 'schemaVersion', message: `is ${version}, newer than this app supports (${SCHEMA_VERSION})` });
+  }
+  return version;
+};
+
+/**
+ * Applies every migration step from the document's version up to SCHEMA_VERSION.
+ * Documents without a version are treated as version 1.
+ */
+export function migrateDocument<T extends object>(doc: T): T & { schemaVersion: number } {
+  let current: LooseDocument = doc;
+  for (let v = (current.schemaVersion as number) || 1; v < SCHEMA_VERSION; v++) {
+    current = MIGRATIONS[v](current);
+  }
+  return { ...current, schemaVersion: SCHEMA_VERSION } as T & { schemaVersion: number };
+}
+
+export function withSchemaVersion<T extends object>(doc: T): T & { schemaVersion: number } {
+  return { ...doc, schemaVersion: SCHEMA_VERSION };
+}
+
+const checkNumber = (issues: SchemaIssue[], path: string, value: unknown, required: boolean) => {
+  if (value === undefined || value === null) {
+    if (required) issues.push({ path, message: 'is required' });
+    return;
+  }
+  if (typeof value !== 'number' || !isFinite(value)) issues.push({ path, message: `expected a number, got ${describe(value)}` });
+  else if (value < 0) issues.push({ path, message: `must not be negative, got ${value}` });
+};
+
+const checkString = (issues: SchemaIssue[], path: string, value: unknown) => {
+  if (value !== undefined && typeof value !== 'string') issues.push({ path, message: `expected text, got ${describe(value)}` });
+};
+
+const checkBoolean = (issues: SchemaIssue[], path: string, value: unknown) => {
+  if (value !== undefined && typeof value !== 'boolean') issues.push({ path, message: `expected true/false, got ${describe(value)}` });
+};
+
+const validateConfig = (config: unknown, issues: SchemaIssue[]) => {
+  if (config === undefined) return;
+  if (!isObject(config)) {
+    issues.push({ path: 'config', message: `expected an object, got ${describe(config)}` });
+    return;
+  }
+  if (!Array.isArray(config.parcelSlabs) || config.parcelSlabs.length === 0) {
+    issues.push({ path: 'config.parcelSlabs', message: 'expected a non-empty list of tiers' });
+  } else {
+    config.parcelSlabs.forEach((slab: unknown, i: number) => {
+      const path = `config.parcelSlabs[${i}]`;
+      if (!isObject(slab)) { issues.push({ path, message: `expected an object, got ${describe(slab)}` }); return; }
+      if (slab.upTo !== null) checkNumber(issues, `${path}.upTo`, slab.upTo, true);
+      checkNumber(issues, `${path}.rate`, slab.rate, true);
+    });
+  }
+  checkNumber(issues, 'config.documentRate', config.documentRate, true);
+  checkNumber(issues, 'config.volumetricDivisor', config.volumetricDivisor, false);
+};
+
+const validateRow = (row: unknown, path: string, issues: SchemaIssue[]) => {
+  if (!isObject(row)) {
+    issues.push({ path, message: `expected an object, got ${describe(row)}` });
+    return;
+  }
+  if (row.type !== ItemType.PARCEL && row.type !== ItemType.DOCUMENT) {
+    issues.push({ path: `${path}.type`, message: `expected "${ItemType.PARCEL}" or "${ItemType.DOCUMENT}", got ${describe(row.type)}` });
+  }
+  if (row.serialNo !== undefined && typeof row.serialNo !== 'string' && typeof row.serialNo !== 'number') {
+    issues.push({ path: `${path}.serialNo`, message: `expected text, got ${describe(row.serialNo)}` });
+  }
+  checkString(issues, `${path}.description`, row.description);
+  checkNumber(issues, `${path}.weight`, row.weight, true);
+  checkNumber(issues, `${path}.length`, row.length, false);
+  checkNumber(issues, `${path}.width`, row.width, false);
+  checkNumber(issues, `${path}.height`, row.height, false);
+  checkNumber(issues, `${path}.rate`, row.rate, false);
+  checkBoolean(issues, `${path}.isManualRate`, row.isManualRate);
+  checkBoolean(issues, `${path}.isCod`, row.isCod);
+  checkBoolean(issues, `${path}.isOda`, row.isOda);
+};
+
+/**
+ * Migrates and validates a manifest read from a JSON file (single export,
+ * bulk import or folder ZIP). Issues name the exact offending field.
+ */
+export function parseManifestDocument(input: unknown): SchemaResult<ManifestDocument> {
+  if (!isObject(input)) return { value: null, issues: [{ path: '(root)', message: `expected an object, got ${describe(input)}` }], migratedFrom: 0 };
+
+  const issues: SchemaIssue[] = [];
+  const version = readVersion(input, issues);
+  if (issues.length) return { value: null, issues, migratedFrom: version };
+
+  const doc = migrateDocument(input);
+  checkString(issues, 'manifestNo', doc.manifestNo);
+  checkString(issues, 'manifestDate', doc.manifestDate);
+  if (!Array.isArray(doc.rows)) {
+    issues.push({ path: 'rows', message: doc.rows === undefined ? 'is required' : `expected a list, got ${describe(doc.rows)}` });
+  } else {
+    doc.rows.forEach((row: unknown, i: number) => validateRow(row, `rows[${i}]`, issues));
+  }
+  validateConfig(doc.config, issues);
+  if (issues.length) return { value: null, issues, migratedFrom: version };
+
+  const rows: ImportedRow[] = doc.rows.map((row: LooseDocument, i: number) => ({
+    ...row,
+    id: typeof row.id === 'string' && row.id ? row.id : crypto.randomUUID(),
+    slNo: typeof row.slNo === 'number' ? row.slNo : i + 1,
+    serialNo: String(row.serialNo ?? ''),
+    description: row.description ?? '',
+    isManualRate: row.isManualRate ?? false
+  }));
+
+  return {
+    issues: [],
+    migratedFrom: version,
+    value: {
+      schemaVersion: SCHEMA_VERSION,
+      manifestNo: doc.manifestNo,
+      manifestDate: doc.manifestDate,
+      rows,
+      config: doc.config ? normalizeConfig(doc.config) : undefined
+    }
+  };
+}
+
+export function parseFolderInfo(input: unknown): SchemaResult<FolderInfoDocument> {
+  if (!isObject(input)) return { value: null, issues: [{ path: '(root)', message: `expected an object, got ${describe(input)}` }], migratedFrom: 0 };
+  const issues: SchemaIssue[] = [];
+  // Folder exports before versioning carried version: "2.0"
+  const version = input.schemaVersion === undefined && input.version !== undefined ? 1 : readVersion(input, issues);
+  checkString(issues, 'folderName', input.folderName);
+  if (issues.length) return { value: null, issues, migratedFrom: version };
+  return { value: { schemaVersion: SCHEMA_VERSION, folderName: input.folderName }, issues: [], migratedFrom: version };
+}
+
+/**
+ * One-line summary of validation issues for status messages.
+ */
+export function formatSchemaIssues(issues: SchemaIssue[], limit = 3): string {
+  const shown = issues.slice(0, limit).map(issue => `${issue.path} ${issue.message}`);
+  const more = issues.length > limit ? ` (+${issues.length - limit} more)` : '';
+  return shown.join('; ') + more;
+}
@@ -0,0 +1,223 @@
+import JSZip from "jszip";
+import { ColumnMapping, ItemType, SheetField } from '../types';
+import { DOCUMENT_HINT, TOTALS_LINE, parseWeightToken } from './ocrTableParser';
+
+export type SheetRow = string[];
+
+export const SHEET_FIELD_LABELS: Record<SheetField, string> = {
+  slNo: 'Sl No',
+  serialNo: 'AWB',
+  description: 'Description',
+  type: 'Type',
+  weight: 'Weight'
+};
+
+export const SHEET_FIELDS = Object.keys(SHEET_FIELD_LABELS) as SheetField[];
+
+// Column index each field is read from in the sheet at hand
+export type SheetColumns = Partial<Record<SheetField, number>>;
+
+export interface SheetItem {
+  slNo: number;
+  serialNo: string;
+  description: string;
+  type: ItemType;
+  weight: number;
+}
+
+export interface SheetImport {
+  items: SheetItem[];
+  skipped: number; // Non-empty rows without an AWB
+  missingWeights: number;
+}
+
+const HEADER_PATTERNS: Record<SheetField, RegExp> = {
+  slNo: /^(sl|sr|s)\.?\s*(no|num|number)?\.?$|^#$|^serial\s*no/i,
+  serialNo: /awb|airway|c\.?\s*note|consignment|docket|waybill|tracking/i,
+  description: /desc|contents?|particulars|item/i,
+  type: /^((item|shipment|doc|document|parcel)\s+)?type\.?$|^(doc|dox)\s*\/\s*(non[\s-]?(doc|dox)|parcel)|^category$/i,
+  weight: /weight|^wt\.?|wgt|kgs?\b/i
+};
+
+// Rows scanned for a heading line before giving up
+const HEADER_SEARCH_ROWS = 20;
+
+const NON_DOCUMENT = /\b(non[\s-]?docs?|ndox|parcel|spx|box|package|pkg)\b/i;
+const DOCUMENT_TYPE = /^(d|dox)$/i;
+
+/**
+ * Splits CSV text into rows. Handles quoted fields with embedded commas,
+ * quotes and line breaks, and semicolon- or tab-separated exports.
+ */
+export function parseCsv(text: string): SheetRow[] {
+  const firstLine = text.slice(0, text.indexOf('\n') >>> 0);
+  const delimiter = [',', ';', '\t'].reduce((best, d) => firstLine.split(d).length > firstLine.split(best).length ? d : best);
+  const rows: SheetRow[] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (char === '"') quoted = false;
+      else field += char;
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field); field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field); rows.push(row);
+      row = []; field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length) { row.push(field); rows.push(row); }
+  return rows.map(r => r.map(cell => cell.trim()));
+}
+
+// "AB12" -> 27, the 0-based column of a cell reference
+const columnIndex = (ref: string) =>
+  ref.replace(/\d+$/, '').toUpperCase().split('').reduce((n, c) => n * 26 + c.charCodeAt(0) - 64, 0) - 1;
+
+const parseXml = (xml: string) => new DOMParser().parseFromString(xml, 'application/xml');
+const textOf = (el: Element) => Array.from(el.getElementsByTagName('t')).map(t => t.textContent || '').join('');
+
+/**
+ * Reads the first worksheet of an .xlsx workbook as rows of cell text.
+ * Formulas give their cached value; dates come through as Excel serial numbers.
+ */
+export async function readXlsx(data: ArrayBuffer): Promise<SheetRow[]> {
+  const zip = await JSZip.loadAsync(data);
+  const read = (path: string) => zip.file(path)?.async('string');
+
+  const workbook = await read('xl/workbook.xml');
+  const rels = await read('xl/_rels/workbook.xml.rels');
+  if (!workbook) throw new Error('Not an Excel workbook');
+  const firstSheet = parseXml(workbook).getElementsByTagName('sheet')[0];
+  const relId = firstSheet?.getAttribute('r:id');
+  const target = rels && relId ? Array.from(parseXml(rels).getElementsByTagName('Relationship')).find(r => r.getAttribute('Id') === relId)?.getAttribute('Target') : null;
+  const sheetPath = target ? (target.startsWith('/') ? target.slice(1) : `xl/${target}`) : 'xl/worksheets/sheet1.xml';
+  const sheet = await read(sheetPath);
+  if (!sheet) throw new Error('The workbook has no worksheet');
+
+  const sharedXml = await read('xl/sharedStrings.xml');
+  const shared = sharedXml ? Array.from(parseXml(sharedXml).getElementsByTagName('si')).map(textOf) : [];
+
+  const rows: SheetRow[] = [];
+  Array.from(parseXml(sheet).getElementsByTagName('row')).forEach(rowEl => {
+    const rowNumber = Number(rowEl.getAttribute('r')) || rows.length + 1;
+    const row: string[] = [];
+    Array.from(rowEl.getElementsByTagName('c')).forEach(cell => {
+      const type = cell.getAttribute('t');
+      const value = cell.getElementsByTagName('v')[0]?.textContent || '';
+      const text = type === 's' ? shared[Number(value)] || ''
+        : type === 'inlineStr' ? textOf(cell)
+        : value;
+      const ref = cell.getAttribute('r');
+      row[ref ? columnIndex(ref) : row.length] = text.trim();
+    });
+    rows[rowNumber - 1] = Array.from(row, cell => cell || '');
+  });
+  return Array.from(rows, row => row || []);
+}
+
+/**
+ * Picks a column for each field from a heading row by its text.
+ */
+export function guessColumns(header: SheetRow): SheetColumns {
+  const columns: SheetColumns = {};
+  // AWB first, so "Doc No" style headings don't get taken by description
+  (['serialNo', 'weight', 'slNo', 'type', 'description'] as SheetField[]).forEach(field => {
+    const index = header.findIndex((cell, i) => cell && HEADER_PATTERNS[field].test(cell) && !Object.values(columns).includes(i));
+    if (index >= 0) columns[field] = index;
+  });
+  return columns;
+}
+
+/**
+ * The first row that looks like a table heading (has AWB and weight
+ * columns), or 0 when none does.
+ */
+export function findHeaderRow(rows: SheetRow[]): number {
+  const index = rows.slice(0, HEADER_SEARCH_ROWS).findIndex(row => {
+    const columns = guessColumns(row);
+    return columns.serialNo !== undefined && columns.weight !== undefined;
+  });
+  return Math.max(0, index);
+}
+
+/**
+ * Columns for a saved mapping, matched by heading text. Fields whose heading
+ * isn't in this sheet are guessed.
+ */
+export function applyColumnMapping(header: SheetRow, mapping: ColumnMapping | undefined): SheetColumns {
+  const columns = guessColumns(header);
+  if (!mapping) return columns;
+  const normalize = (text: string) => text.trim().toLowerCase();
+  SHEET_FIELDS.forEach(field => {
+    const heading = mapping.columns[field];
+    const index = heading ? header.findIndex(cell => normalize(cell || '') === normalize(heading)) : -1;
+    if (index >= 0) columns[field] = index;
+  });
+  return columns;
+}
+
+// Heading text of each mapped column, for saving with the client
+export function toColumnMapping(clientName: string, header: SheetRow, columns: SheetColumns): ColumnMapping {
+  const mapped: ColumnMapping['columns'] = {};
+  SHEET_FIELDS.forEach(field => {
+    const index = columns[field];
+    if (index !== undefined && header[index]) mapped[field] = header[index];
+  });
+  return { clientName, columns: mapped, updatedAt: Date.now() };
+}
+
+/**
+ * Document or parcel from the type column, else from the description, with
+ * the same keywords the OCR reader uses.
+ */
+export function detectItemType(typeCell: string, description: string): ItemType {
+  const value = typeCell.trim();
+  if (value) {
+    if (NON_DOCUMENT.test(value)) return ItemType.PARCEL;
+    if (DOCUMENT_HINT.test(value) || DOCUMENT_TYPE.test(value)) return ItemType.DOCUMENT;
+    return ItemType.PARCEL;
+  }
+  return DOCUMENT_HINT.test(description) && !NON_DOCUMENT.test(description) ? ItemType.DOCUMENT : ItemType.PARCEL;
+}
+
+/**
+ * Reads the rows below the heading into items. Blank rows are ignored, rows
+ * without an AWB are skipped, and a totals row ends the table.
+ */
+export function readSheetItems(rows: SheetRow[], headerRow: number, columns: SheetColumns): SheetImport {
+  const items: SheetItem[] = [];
+  let skipped = 0;
+  let missingWeights = 0;
+  const cell = (row: SheetRow, field: SheetField) => columns[field] !== undefined ? (row[columns[field]] || '').trim() : '';
+
+  rows.slice(headerRow + 1).some(row => {
+    if (row.every(value => !value?.trim())) return false;
+    const serialNo = cell(row, 'serialNo').replace(/\s+/g, '').toUpperCase();
+    if (!serialNo) {
+      if (TOTALS_LINE.test(row.join(' '))) return true;
+      skipped++;
+      return false;
+    }
+    const description = cell(row, 'description');
+    const weight = parseWeightToken(cell(row, 'weight').replace(/\s+/g, ''));
+    if (weight === null) missingWeights++;
+    items.push({
+      slNo: parseInt(cell(row, 'slNo'), 10) || items.length + 1,
+      serialNo,
+      description,
+      type: detectItemType(cell(row, 'type'), description),
+      weight: weight ?? 0
+    });
+    return false;
+  });
+  return { items, skipped, missingWeights };
+}
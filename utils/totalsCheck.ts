@@ -0,0 +1,58 @@
+import { BillingRow, ItemType, PrintedTotals, TotalsCheck, TotalsField, TotalsMismatch } from '../types';
+
+export const TOTALS_FIELD_LABELS: Record<TotalsField, string> = {
+  pieceCount: 'Pieces',
+  totalWeight: 'Total weight',
+  docCount: 'Documents'
+};
+
+const TOTALS_FIELDS = Object.keys(TOTALS_FIELD_LABELS) as TotalsField[];
+
+// Footers print weights rounded to a decimal or two
+const WEIGHT_TOLERANCE_KG = 0.1;
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+/**
+ * Keeps only the footer values that are positive numbers; undefined when the
+ * extractor returned none.
+ */
+export function readPrintedTotals(raw: unknown): PrintedTotals | undefined {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const totals: PrintedTotals = {};
+  TOTALS_FIELDS.forEach(field => {
+    const value = Number((raw as Record<string, unknown>)[field]);
+    if (isFinite(value) && value > 0) totals[field] = value;
+  });
+  return Object.keys(totals).length ? totals : undefined;
+}
+
+/**
+ * The rows' own piece count, actual weight and document count.
+ */
+export function extractedTotals(rows: BillingRow[]): Required<PrintedTotals> {
+  return {
+    pieceCount: rows.length,
+    totalWeight: round(rows.reduce((sum, row) => sum + (row.weight || 0), 0)),
+    docCount: rows.filter(row => row.type === ItemType.DOCUMENT).length
+  };
+}
+
+/**
+ * Compares the printed footer with the rows. Only fields the footer carries
+ * are checked; undefined when there is nothing to compare.
+ */
+export function checkTotals(printed: PrintedTotals | undefined, rows: BillingRow[]): TotalsCheck | undefined {
+  if (!printed) return undefined;
+  const extracted = extractedTotals(rows);
+  const mismatches: TotalsMismatch[] = TOTALS_FIELDS
+    .filter(field => printed[field] !== undefined)
+    .filter(field => field === 'totalWeight'
+      ? Math.abs(printed[field] - extracted[field]) > WEIGHT_TOLERANCE_KG
+      : printed[field] !== extracted[field])
+    .map(field => ({ field, printed: printed[field], extracted: extracted[field] }));
+  return { matched: mismatches.length === 0, mismatches };
+}
+
+export const describeMismatch = (m: TotalsMismatch) =>
+  `${TOTALS_FIELD_LABELS[m.field]}: footer says ${m.printed}${m.field === 'totalWeight' ? ' kg' : ''}, rows add up to ${m.extracted}${m.field === 'totalWeight' ? ' kg' : ''}`;
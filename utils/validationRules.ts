@@ -0,0 +1,155 @@
+import { AwbCheckDigit, AwbFormat, BillingRow, ItemType, ParsingError, ValidationRuleId, ValidationRules } from '../types';
+import { AwbIndex, findOtherOccurrences, normalizeAwb } from './awbIndex';
+
+export const VALIDATION_RULE_LABELS: Record<ValidationRuleId, string> = {
+  awbFormat: 'AWB format and check digit',
+  duplicateInManifest: 'Duplicate AWB in manifest',
+  duplicateInHistory: 'AWB already billed in history',
+  zeroWeight: 'Zero weight',
+  implausibleWeight: 'Implausible weight',
+  slNoSequence: 'Sl No gaps and repeats'
+};
+
+export const CHECK_DIGIT_LABELS: Record<AwbCheckDigit, string> = {
+  none: 'None',
+  mod7: 'Mod 7 (IATA air waybill)',
+  luhn: 'Luhn (mod 10)',
+  s10: 'UPU S10 (postal)'
+};
+
+export const DEFAULT_VALIDATION_RULES: ValidationRules = {
+  enabled: {
+    awbFormat: true,
+    duplicateInManifest: true,
+    duplicateInHistory: true,
+    zeroWeight: true,
+    implausibleWeight: true,
+    slNoSequence: true
+  },
+  maxDocumentWeight: 2,
+  maxParcelWeight: 500,
+  awbFormats: [
+    { id: 'any', name: 'Any carrier', prefix: '', minLength: 6, maxLength: 20, charset: 'alphanumeric', checkDigit: 'none' }
+  ]
+};
+
+/**
+ * Fills in rules added after the stored copy was saved.
+ */
+export function normalizeValidationRules(rules?: Partial<ValidationRules>): ValidationRules {
+  return {
+    ...DEFAULT_VALIDATION_RULES,
+    ...rules,
+    enabled: { ...DEFAULT_VALIDATION_RULES.enabled, ...rules?.enabled },
+    awbFormats: Array.isArray(rules?.awbFormats) ? rules.awbFormats : DEFAULT_VALIDATION_RULES.awbFormats
+  };
+}
+
+const S10_WEIGHTS = [8, 6, 4, 2, 3, 5, 9, 7];
+
+/**
+ * True when the AWB's check digit is valid for the scheme.
+ * - mod7: last digit = the seven digits before it, mod 7 (IATA air waybills)
+ * - luhn: standard mod 10 over all digits
+ * - s10: AA123456785IN style postal items, weighted mod 11 on the 9th digit
+ */
+export function verifyCheckDigit(awb: string, scheme: AwbCheckDigit): boolean {
+  if (scheme === 'none') return true;
+  if (scheme === 's10') {
+    const m = awb.match(/^[A-Z]{2}(\d{8})(\d)[A-Z]{2}$/);
+    if (!m) return false;
+    const sum = m[1].split('').reduce((acc, d, i) => acc + Number(d) * S10_WEIGHTS[i], 0);
+    const check = 11 - (sum % 11);
+    return (check === 10 ? 0 : check === 11 ? 5 : check) === Number(m[2]);
+  }
+  if (!/^\d+$/.test(awb)) return false;
+  if (scheme === 'mod7') {
+    if (awb.length < 8) return false;
+    return Number(awb.slice(-8, -1)) % 7 === Number(awb.slice(-1));
+  }
+  // luhn
+  const sum = awb.split('').reverse().reduce((acc, ch, i) => {
+    let d = Number(ch);
+    if (i % 2 === 1) { d *= 2; if (d > 9) d -= 9; }
+    return acc + d;
+  }, 0);
+  return sum % 10 === 0;
+}
+
+// Formats whose prefix, length and character set the AWB fits
+function matchingFormats(awb: string, formats: AwbFormat[]): AwbFormat[] {
+  return formats.filter(f =>
+    awb.startsWith(f.prefix.toUpperCase()) &&
+    awb.length >= f.minLength && awb.length <= f.maxLength &&
+    (f.charset === 'digits' ? /^\d+$/.test(awb) : /^[A-Z0-9-]+$/.test(awb)));
+}
+
+/**
+ * Runs the enabled rules over a manifest's rows. Findings come back in rule
+ * order, each tied to a row and the cell it concerns. `manifestId` keeps the
+ * manifest's own saved copy out of the history duplicate check.
+ */
+export function validateRows(rows: BillingRow[], rules: ValidationRules, awbIndex: AwbIndex = new Map(), manifestId?: string | null): ParsingError[] {
+  const findings: ParsingError[] = [];
+  const on = rules.enabled;
+  const add = (rule: ValidationRuleId, type: ParsingError['type'], row: BillingRow, field: ParsingError['field'], message: string, relatedManifestId?: string) =>
+    findings.push({ rule, type, rowId: row.id, field, message, ...(relatedManifestId ? { relatedManifestId } : {}) });
+  const label = (row: BillingRow, i: number) => `Row ${i + 1}${row.serialNo ? ` (${row.serialNo})` : ''}`;
+
+  if (on.awbFormat && rules.awbFormats.length) {
+    rows.forEach((row, i) => {
+      const awb = normalizeAwb(row.serialNo);
+      if (!awb) { add('awbFormat', 'missing', row, 'serialNo', `${label(row, i)}: AWB is empty`); return; }
+      const candidates = matchingFormats(awb, rules.awbFormats);
+      if (candidates.length === 0) {
+        add('awbFormat', 'invalid', row, 'serialNo', `${label(row, i)}: AWB does not match any configured carrier format`);
+      } else if (!candidates.some(f => verifyCheckDigit(awb, f.checkDigit))) {
+        add('awbFormat', 'invalid', row, 'serialNo', `${label(row, i)}: check digit fails for ${candidates.map(f => f.name).join(' / ')}`);
+      }
+    });
+  }
+
+  if (on.duplicateInManifest) {
+    const firstSeen = new Map<string, number>();
+    rows.forEach((row, i) => {
+      const awb = normalizeAwb(row.serialNo);
+      if (!awb) return;
+      if (firstSeen.has(awb)) add('duplicateInManifest', 'duplicate', row, 'serialNo', `${label(row, i)}: duplicate of row ${firstSeen.get(awb)! + 1}`);
+      else firstSeen.set(awb, i);
+    });
+  }
+
+  if (on.duplicateInHistory) {
+    rows.forEach((row, i) => {
+      const others = findOtherOccurrences(awbIndex, row.serialNo, manifestId);
+      if (others.length === 0) return;
+      const where = Array.from(new Set(others.map(o => `${o.manifestNo} (${o.manifestDate})`))).join(', ');
+      add('duplicateInHistory', 'duplicate', row, 'serialNo', `${label(row, i)}: already billed on ${where}`, others[0].manifestId);
+    });
+  }
+
+  rows.forEach((row, i) => {
+    if (on.zeroWeight && !(row.weight > 0)) {
+      add('zeroWeight', 'missing', row, 'weight', `${label(row, i)}: weight is zero`);
+    } else if (on.implausibleWeight) {
+      const limit = row.type === ItemType.DOCUMENT ? rules.maxDocumentWeight : rules.maxParcelWeight;
+      if (limit > 0 && row.weight > limit) add('implausibleWeight', 'invalid', row, 'weight', `${label(row, i)}: ${row.weight} kg is heavy for a ${row.type.toLowerCase()} (limit ${limit} kg)`);
+    }
+  });
+
+  if (on.slNoSequence) {
+    const seen = new Set<number>();
+    let previous = 0;
+    rows.forEach((row, i) => {
+      if (seen.has(row.slNo)) {
+        add('slNoSequence', 'sequence', row, 'slNo', `${label(row, i)}: Sl No ${row.slNo} is repeated`);
+      } else if (row.slNo > previous + 1) {
+        add('slNoSequence', 'sequence', row, 'slNo', `${label(row, i)}: Sl No jumps from ${previous} to ${row.slNo}`);
+      }
+      seen.add(row.slNo);
+      previous = Math.max(previous, row.slNo);
+    });
+  }
+
+  return findings;
+}
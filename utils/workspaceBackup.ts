@@ -0,0 +1,139 @@
+import JSZip from "jszip";
+import { BillingConfig, ColumnMapping, FinalBillState, Folder, InvoiceSettings, ManifestHistory, RateCard, ValidationRules } from '../types';
+import { formatSchemaIssues, migrateDocument, parseManifestDocument, SCHEMA_VERSION, withSchemaVersion } from './schema';
+import { normalizeConfig } from './billingLogic';
+import { normalizeValidationRules } from './validationRules';
+import { normalizeInvoiceSettings } from './invoicePdf';
+
+export const BACKUP_MANIFEST_FILE = 'backup_manifest.json';
+
+// Everything a workspace backup carries
+export interface WorkspaceSnapshot {
+  history: ManifestHistory[];
+  recycleBin: ManifestHistory[];
+  folders: Folder[];
+  rateCards: RateCard[];
+  globalConfig: BillingConfig;
+  prefs: { theme: string; scale: number };
+  finalBill?: FinalBillState;
+  validationRules?: ValidationRules;
+  invoiceSettings?: InvoiceSettings;
+  columnMappings?: ColumnMapping[];
+}
+
+interface BackupFileEntry {
+  sha256: string;
+  bytes: number;
+}
+
+// Contents of backup_manifest.json
+export interface BackupManifest {
+  schemaVersion: number;
+  createdAt: string; // ISO timestamp
+  counts: { manifests: number; recycleBin: number; folders: number; rateCards: number };
+  files: Record<string, BackupFileEntry>;
+}
+
+const DATA_FILES = {
+  history: 'manifests.json',
+  recycleBin: 'recycle_bin.json',
+  folders: 'folders.json',
+  rateCards: 'rate_cards.json',
+  settings: 'settings.json'
+} as const;
+
+async function sha256(text: string): Promise<{ hex: string, bytes: number }> {
+  const data = new TextEncoder().encode(text);
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  const hex = Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+  return { hex, bytes: data.byteLength };
+}
+
+/**
+ * Packs the whole workspace into one ZIP: one JSON file per collection plus
+ * backup_manifest.json listing a SHA-256 checksum for each of them.
+ */
+export async function createWorkspaceBackup(snapshot: WorkspaceSnapshot): Promise<Blob> {
+  const contents: Record<string, string> = {
+    [DATA_FILES.history]: JSON.stringify(snapshot.history.map(h => withSchemaVersion(h)), null, 2),
+    [DATA_FILES.recycleBin]: JSON.stringify(snapshot.recycleBin.map(h => withSchemaVersion(h)), null, 2),
+    [DATA_FILES.folders]: JSON.stringify(snapshot.folders, null, 2),
+    [DATA_FILES.rateCards]: JSON.stringify(snapshot.rateCards, null, 2),
+    [DATA_FILES.settings]: JSON.stringify({ globalConfig: snapshot.globalConfig, prefs: snapshot.prefs, finalBill: snapshot.finalBill, validationRules: snapshot.validationRules, invoiceSettings: snapshot.invoiceSettings, columnMappings: snapshot.columnMappings }, null, 2)
+  };
+
+  const zip = new JSZip();
+  const files: Record<string, BackupFileEntry> = {};
+  for (const [name, text] of Object.entries(contents)) {
+    const { hex, bytes } = await sha256(text);
+    files[name] = { sha256: hex, bytes };
+    zip.file(name, text);
+  }
+
+  const manifest: BackupManifest = {
+    schemaVersion: SCHEMA_VERSION,
+    createdAt: new Date().toISOString(),
+    counts: {
+      manifests: snapshot.history.length,
+      recycleBin: snapshot.recycleBin.length,
+      folders: snapshot.folders.length,
+      rateCards: snapshot.rateCards.length
+    },
+    files
+  };
+  zip.file(BACKUP_MANIFEST_FILE, JSON.stringify(manifest, null, 2));
+  return zip.generateAsync({ type: "blob" });
+}
+
+/**
+ * Reads and verifies a workspace backup. Throws with a user-facing message when
+ * the archive is not a backup, a file is missing or a checksum does not match.
+ * Manifests that fail schema validation are skipped and listed in `skipped`.
+ */
+export async function readWorkspaceBackup(file: Blob): Promise<{ manifest: BackupManifest, snapshot: WorkspaceSnapshot, skipped: string[] }> {
+  const zip = await JSZip.loadAsync(file);
+  const manifestText = await zip.file(BACKUP_MANIFEST_FILE)?.async("text");
+  if (!manifestText) throw new Error(`Not a workspace backup (${BACKUP_MANIFEST_FILE} missing).`);
+
+  const manifest: BackupManifest = JSON.parse(manifestText);
+  if (!manifest.files || typeof manifest.files !== 'object') throw new Error(`${BACKUP_MANIFEST_FILE} has no file list.`);
+  if (manifest.schemaVersion > SCHEMA_VERSION) {
+    throw new Error(`Backup schema ${manifest.schemaVersion} is newer than this app supports (${SCHEMA_VERSION}).`);
+  }
+
+  const texts: Record<string, string> = {};
+  for (const name of Object.values(DATA_FILES)) {
+    const expected = manifest.files[name];
+    const text = await zip.file(name)?.async("text");
+    if (!expected || text === undefined) throw new Error(`Backup is incomplete: ${name} is missing.`);
+    const { hex } = await sha256(text);
+    if (hex !== expected.sha256) throw new Error(`Checksum mismatch in ${name}; the backup is corrupt or was edited.`);
+    texts[name] = text;
+  }
+
+  const skipped: string[] = [];
+  const readManifests = (name: string): ManifestHistory[] =>
+    (JSON.parse(texts[name]) as ManifestHistory[]).filter((h, i) => {
+      const check = parseManifestDocument(h);
+      const problem = !check.value ? formatSchemaIssues(check.issues) : typeof h.id !== 'string' ? 'id is required' : '';
+      if (problem) skipped.push(`${name} #${i + 1} (${h?.manifestNo || 'no number'}): ${problem}`);
+      return !problem;
+    }).map(h => migrateDocument(h));
+
+  const settings = JSON.parse(texts[DATA_FILES.settings]);
+  const snapshot: WorkspaceSnapshot = {
+    history: readManifests(DATA_FILES.history),
+    recycleBin: readManifests(DATA_FILES.recycleBin),
+    folders: JSON.parse(texts[DATA_FILES.folders]),
+    rateCards: (JSON.parse(texts[DATA_FILES.rateCards]) as RateCard[]).map(c => ({ ...c, config: normalizeConfig(c.config) })),
+    globalConfig: normalizeConfig(settings.globalConfig),
+    prefs: settings.prefs,
+    finalBill: settings.finalBill,
+    validationRules: settings.validationRules ? normalizeValidationRules(settings.validationRules) : undefined,
+    invoiceSettings: settings.invoiceSettings ? normalizeInvoiceSettings(settings.invoiceSettings) : undefined,
+    columnMappings: Array.isArray(settings.columnMappings)
+      ? settings.columnMappings.filter((m: ColumnMapping) => typeof m?.clientName === 'string' && m.columns && typeof m.columns === 'object')
+      : undefined
+  };
+  return { manifest, snapshot, skipped };
+}
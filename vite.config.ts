@@ -1,7 +1,37 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// On-device OCR files, served from /tesseract/ so the engine never reaches a CDN
+const TESSERACT_ASSETS: Record<string, string> = {
+  'worker.min.js': 'tesseract.js/dist/worker.min.js',
+  'core/tesseract-core-lstm.wasm.js': 'tesseract.js-core/tesseract-core-lstm.wasm.js',
+  'core/tesseract-core-simd-lstm.wasm.js': 'tesseract.js-core/tesseract-core-simd-lstm.wasm.js',
+  'core/tesseract-core-relaxedsimd-lstm.wasm.js': 'tesseract.js-core/tesseract-core-relaxedsimd-lstm.wasm.js',
+  'lang/eng.traineddata.gz': '@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz'
+};
+
+const tesseractAsset = (name: string) => path.resolve(__dirname, 'node_modules', TESSERACT_ASSETS[name]);
+
+function tesseractAssets(): Plugin {
+  return {
+    name: 'tesseract-assets',
+    configureServer(server) {
+      server.middlewares.use('/tesseract', (req, res, next) => {
+        const name = (req.url || '').split('?')[0].replace(/^\//, '');
+        if (!TESSERACT_ASSETS[name]) return next();
+        res.setHeader('Content-Type', name.endsWith('.js') ? 'text/javascript' : 'application/octet-stream');
+        fs.createReadStream(tesseractAsset(name)).pipe(res);
+      });
+    },
+    generateBundle() {
+      Object.keys(TESSERACT_ASSETS).forEach(name =>
+        this.emitFile({ type: 'asset', fileName: `tesseract/${name}`, source: fs.readFileSync(tesseractAsset(name)) }));
+    }
+  };
+}
+
 export default defineConfig(({ mode }) => {
   const env = loadEnv(mode, '.', '');
   return {
@@ -9,7 +39,7 @@ export default defineConfig(({ mode }) => {
       port: 3000,
       host: '0.0.0.0',
     },
-    plugins: [react()],
+    plugins: [react(), tesseractAssets()],
     define: {
       'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
       'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)